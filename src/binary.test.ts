@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isBinaryBody, parseResponseBody } from "./binary.js";
+
+function response(body: string | Uint8Array, contentType?: string): Response {
+  return new Response(body, contentType ? { headers: { 'content-type': contentType } } : {});
+}
+
+describe("parseResponseBody", () => {
+  it("parses JSON from types it doesn't know, like AWS's x-amz-json", async () => {
+    const parsed = await parseResponseBody(response('{"TableNames":["a"]}', 'application/x-amz-json-1.0'));
+    assert.deepEqual(parsed.body, { TableNames: ['a'] });
+    assert.deepEqual((await parseResponseBody(response('{"Shards":[]}', 'application/x-amz-json-1.1'))).body, { Shards: [] });
+  });
+
+  it("returns other text of unknown types as a string", async () => {
+    assert.equal((await parseResponseBody(response('plain words', 'application/x-custom'))).body, 'plain words');
+    assert.equal((await parseResponseBody(response('no type at all'))).body, 'no type at all');
+  });
+
+  it("keeps binary types and undecodable bodies as bytes", async () => {
+    const png = await parseResponseBody(response('{"looks":"like json"}', 'image/png'));
+    assert.ok(isBinaryBody(png.body));
+    assert.equal(png.body.mimeType, 'image/png');
+
+    const docx = await parseResponseBody(response(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0xff]), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'));
+    assert.ok(isBinaryBody(docx.body));
+    assert.equal(docx.body.mimeType, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+  });
+
+  it("parses declared JSON and reports invalid JSON", async () => {
+    assert.deepEqual((await parseResponseBody(response('{"a":1}', 'application/problem+json'))).body, { a: 1 });
+    await assert.rejects(parseResponseBody(response('{oops', 'application/json')), /not valid JSON/);
+  });
+});
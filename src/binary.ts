@@ -0,0 +1,232 @@
+import { createHash, randomUUID } from "node:crypto";
+import { parseCsv, parseNdjson, parseXml, type ParseOptions, type ParseSummary, type TextFormat } from "./parsers.js";
+
+// Content-type aware response bodies: JSON, XML, CSV and NDJSON are parsed and other
+// text decoded, images go back to the client as MCP image content and other
+// binaries are kept here as resources
+
+export type ResponseType = 'auto' | 'json' | 'text' | 'binary' | TextFormat;
+
+export const BINARY_URI_PREFIX = "binary://responses/";
+
+// Image types MCP clients can render; anything else is handled as an opaque binary
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+// Larger images are stored as a resource instead of being inlined
+const MAX_INLINE_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_STORED_BINARIES = 50;
+const MAX_STORED_BINARY_BYTES = 50 * 1024 * 1024;
+const STORED_BINARY_TTL_MS = 30 * 60 * 1000;
+
+// Non-text/* types whose bodies are still text
+const TEXT_TYPES = [
+  'application/javascript',
+  'application/ecmascript',
+  'application/x-www-form-urlencoded',
+  'application/yaml',
+  'application/x-yaml',
+  'application/graphql',
+  'image/svg+xml'
+];
+// Types that are binary whatever the body looks like; other unknown types are sniffed
+const BINARY_TYPE_PREFIXES = ['image/', 'audio/', 'video/'];
+const BINARY_TYPES = [
+  'application/octet-stream',
+  'application/pdf',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-tar',
+  'application/x-bzip2',
+  'application/x-7z-compressed',
+  'application/x-rar-compressed',
+  'application/java-archive'
+];
+const CSV_TYPES = ['text/csv', 'application/csv', 'text/tab-separated-values'];
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines', 'application/jsonlines'];
+
+export interface ParsedResponse {
+  body: unknown;
+  // Set when the body was parsed from XML, CSV or NDJSON
+  parsed?: ParseSummary;
+}
+
+export interface BinaryBody {
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// What make_request reports in place of a binary body
+export interface BinarySummary {
+  mimeType: string;
+  size: number;
+  sha256: string;
+  resourceUri?: string;
+  inlined?: boolean;
+}
+
+export interface StoredBinary {
+  id: string;
+  uri: string;
+  label: string;
+  mimeType: string;
+  bytes: Uint8Array;
+  sha256: string;
+  storedAt: number;
+}
+
+export function isBinaryBody(body: unknown): body is BinaryBody {
+  return body !== null && typeof body === 'object' && (body as BinaryBody).bytes instanceof Uint8Array;
+}
+
+export function mediaType(contentType: string): string {
+  return contentType.split(';')[0]!.trim().toLowerCase();
+}
+
+function isJsonType(type: string): boolean {
+  return type === 'application/json' || type.endsWith('+json');
+}
+
+function isTextType(type: string): boolean {
+  return type.startsWith('text/') || TEXT_TYPES.includes(type);
+}
+
+function isBinaryType(type: string): boolean {
+  return BINARY_TYPE_PREFIXES.some(prefix => type.startsWith(prefix)) || BINARY_TYPES.includes(type) || type.endsWith('+zip');
+}
+
+// SVG is XML too, but it is more useful as the markup itself
+export function textFormat(type: string): TextFormat | undefined {
+  if (type === 'application/xml' || type === 'text/xml' || (type.endsWith('+xml') && type !== 'image/svg+xml')) return 'xml';
+  if (CSV_TYPES.includes(type)) return 'csv';
+  if (NDJSON_TYPES.includes(type)) return 'ndjson';
+  return undefined;
+}
+
+function parseTextFormat(format: TextFormat, text: string, type: string, options: ParseOptions): ParsedResponse {
+  const { body, summary } = format === 'xml' ? parseXml(text)
+    : format === 'ndjson' ? parseNdjson(text, options)
+    : parseCsv(text, type === 'text/tab-separated-values' && !options.delimiter ? { ...options, delimiter: '\t' } : options);
+  return { body, parsed: summary };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Response body is not valid JSON (${error.message}); use responseType "text" to read it as is`);
+  }
+}
+
+/**
+ * Decode a response body. `auto` goes by the content type, and sniffs bodies
+ * without one or with one it doesn't know (application/x-amz-json-1.1...):
+ * JSON if it parses, text if it is valid UTF-8, binary otherwise.
+ */
+export async function parseResponseBody(
+  response: Response,
+  responseType: ResponseType = 'auto',
+  options: ParseOptions = {}
+): Promise<ParsedResponse> {
+  const contentType = response.headers.get('content-type') || '';
+  const type = mediaType(contentType);
+
+  switch (responseType) {
+    case 'json':
+      return { body: parseJson(await response.text()) };
+    case 'text':
+      return { body: await response.text() };
+    case 'binary':
+      return { body: { mimeType: type || 'application/octet-stream', bytes: new Uint8Array(await response.arrayBuffer()) } };
+    case 'xml':
+    case 'csv':
+    case 'ndjson':
+      return parseTextFormat(responseType, await response.text(), type, options);
+  }
+
+  const format = textFormat(type);
+  if (isJsonType(type) || format) {
+    const text = await response.text();
+    // 204s and HEAD-like empty bodies often still claim a content type
+    if (text === '') return { body: text };
+    return format ? parseTextFormat(format, text, type, options) : { body: parseJson(text) };
+  }
+  if (isTextType(type)) {
+    return { body: await response.text() };
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.byteLength === 0) return { body: '' };
+  if (isBinaryType(type)) {
+    return { body: { mimeType: type, bytes } };
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return { body: { mimeType: type || 'application/octet-stream', bytes } };
+  }
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { body: text };
+  }
+}
+
+export function sha256(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+export function canInlineImage(body: BinaryBody): boolean {
+  return INLINE_IMAGE_TYPES.includes(body.mimeType) && body.bytes.byteLength <= MAX_INLINE_IMAGE_BYTES;
+}
+
+export class BinaryStore {
+  // Insertion order doubles as age order
+  private readonly binaries = new Map<string, StoredBinary>();
+  private bytes = 0;
+
+  save(label: string, body: BinaryBody, hash = sha256(body.bytes)): StoredBinary {
+    this.prune(body.bytes.byteLength);
+    const id = randomUUID().slice(0, 8);
+    const stored: StoredBinary = {
+      id,
+      uri: `${BINARY_URI_PREFIX}${id}`,
+      label,
+      mimeType: body.mimeType,
+      bytes: body.bytes,
+      sha256: hash,
+      storedAt: Date.now()
+    };
+    this.binaries.set(id, stored);
+    this.bytes += body.bytes.byteLength;
+    return stored;
+  }
+
+  get(id: string): StoredBinary | undefined {
+    this.prune();
+    return this.binaries.get(id);
+  }
+
+  // Look up a binary://responses/{id} URI
+  resolve(uri: string): StoredBinary | undefined {
+    return uri.startsWith(BINARY_URI_PREFIX) ? this.get(uri.slice(BINARY_URI_PREFIX.length)) : undefined;
+  }
+
+  list(): StoredBinary[] {
+    this.prune();
+    return Array.from(this.binaries.values());
+  }
+
+  // Drop expired binaries and, before saving `incoming` more bytes, the oldest ones until they fit
+  private prune(incoming?: number): void {
+    const now = Date.now();
+    for (const [id, stored] of this.binaries) {
+      const full = incoming !== undefined &&
+        (this.binaries.size >= MAX_STORED_BINARIES || this.bytes + incoming > MAX_STORED_BINARY_BYTES);
+      if (now - stored.storedAt <= STORED_BINARY_TTL_MS && !full) continue;
+      this.binaries.delete(id);
+      this.bytes -= stored.bytes.byteLength;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+import type { BinaryStore } from "./binary.js";
+import type { BodyType } from "./types.js";
+
+// Request body encodings for make_request: JSON, urlencoded forms, multipart
+// uploads, plain text and raw bytes
+
+// A file part of a multipart body, from base64 or from a stored binary response
+export interface MultipartFile {
+  field: string;
+  filename?: string | undefined;
+  contentType?: string | undefined;
+  base64?: string | undefined;
+  resourceUri?: string | undefined;
+}
+
+/**
+ * Which Content-Type header wins over the body's: for JSON, one set on the API
+ * or the request; for other encodings, only one set on the request. A multipart
+ * boundary or an explicit contentType always wins.
+ */
+export type ContentTypePrecedence = 'default' | 'encoding' | 'forced';
+
+export interface EncodedBody {
+  body: string | Uint8Array;
+  contentType: string;
+  precedence: ContentTypePrecedence;
+}
+
+const DEFAULT_CONTENT_TYPES: Record<BodyType, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/form-data',
+  text: 'text/plain; charset=utf-8',
+  raw: 'application/octet-stream'
+};
+
+// Form and multipart fields are strings; nested values are sent as JSON
+function fieldValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+// name=value pairs for a form or the fields of a multipart body; arrays repeat the name
+function fieldEntries(body: unknown, bodyType: BodyType): [string, string][] {
+  if (body === undefined || body === null) return [];
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error(`A ${bodyType} body must be an object of fields`);
+  }
+  const entries: [string, string][] = [];
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      entries.push([name, fieldValue(item)]);
+    }
+  }
+  return entries;
+}
+
+function decodeBase64(value: string, what: string): Uint8Array {
+  const normalized = value.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(normalized)) {
+    throw new Error(`${what} is not valid base64`);
+  }
+  return new Uint8Array(Buffer.from(normalized, normalized.includes('-') || normalized.includes('_') ? 'base64url' : 'base64'));
+}
+
+// Quotes and line breaks would end the Content-Disposition parameter early
+function dispositionValue(value: string): string {
+  return value.replace(/[\r\n"]/g, character => encodeURIComponent(character));
+}
+
+function fileContent(file: MultipartFile, binaries: BinaryStore): { bytes: Uint8Array, contentType: string } {
+  if (!!file.base64 === !!file.resourceUri) {
+    throw new Error(`File part "${file.field}" needs exactly one of base64 or resourceUri`);
+  }
+  if (file.resourceUri) {
+    const stored = binaries.resolve(file.resourceUri);
+    if (!stored) {
+      throw new Error(`File part "${file.field}": ${file.resourceUri} not found; stored binaries expire after 30 minutes`);
+    }
+    return { bytes: stored.bytes, contentType: file.contentType || stored.mimeType };
+  }
+  return {
+    bytes: decodeBase64(file.base64!, `File part "${file.field}"`),
+    contentType: file.contentType || 'application/octet-stream'
+  };
+}
+
+function encodeMultipart(body: unknown, files: MultipartFile[], binaries: BinaryStore): EncodedBody {
+  const boundary = `----api-manager-${randomUUID()}`;
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+
+  for (const [name, value] of fieldEntries(body, 'multipart')) {
+    parts.push(encoder.encode(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${dispositionValue(name)}"\r\n\r\n${value}\r\n`
+    ));
+  }
+  for (const file of files) {
+    const { bytes, contentType } = fileContent(file, binaries);
+    const filename = file.filename || file.field;
+    parts.push(encoder.encode(
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${dispositionValue(file.field)}"; filename="${dispositionValue(filename)}"\r\n` +
+      `Content-Type: ${contentType}\r\n\r\n`
+    ));
+    parts.push(bytes, encoder.encode('\r\n'));
+  }
+  parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+  return {
+    body: Buffer.concat(parts),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    precedence: 'forced'
+  };
+}
+
+/**
+ * Encode a make_request body. `text` sends a string as is and `raw` sends the
+ * bytes of a base64 string; both take their Content-Type from `contentType`.
+ */
+export function encodeBody(
+  bodyType: BodyType,
+  body: unknown,
+  files: MultipartFile[] | undefined,
+  contentType: string | undefined,
+  binaries: BinaryStore
+): EncodedBody | undefined {
+  if (files?.length && bodyType !== 'multipart') {
+    throw new Error(`files can only be sent with bodyType "multipart", not "${bodyType}"`);
+  }
+  if (bodyType === 'multipart') {
+    if (contentType) throw new Error('contentType cannot be set for multipart bodies, the boundary is generated');
+    return encodeMultipart(body, files || [], binaries);
+  }
+  if (body === undefined || body === null) return undefined;
+
+  let encoded: string | Uint8Array;
+  switch (bodyType) {
+    case 'json':
+      encoded = JSON.stringify(body);
+      break;
+    case 'form':
+      encoded = typeof body === 'string' ? body : new URLSearchParams(fieldEntries(body, 'form')).toString();
+      break;
+    case 'text':
+      encoded = typeof body === 'string' ? body : JSON.stringify(body);
+      break;
+    case 'raw':
+      if (typeof body !== 'string') throw new Error('A raw body must be a base64 string');
+      encoded = decodeBase64(body, 'The raw body');
+      break;
+  }
+  return {
+    body: encoded,
+    contentType: contentType || DEFAULT_CONTENT_TYPES[bodyType],
+    precedence: contentType ? 'forced' : bodyType === 'json' ? 'default' : 'encoding'
+  };
+}
+
+export function hasHeader(headers: Record<string, string> | undefined, name: string): boolean {
+  const lowercased = name.toLowerCase();
+  return Object.keys(headers || {}).some(header => header.toLowerCase() === lowercased);
+}
+
+// Drop a header whatever the case it was given in
+export function withoutHeader(headers: Record<string, string> | undefined, name: string): Record<string, string> {
+  const lowercased = name.toLowerCase();
+  return Object.fromEntries(Object.entries(headers || {}).filter(([header]) => header.toLowerCase() !== lowercased));
+}
@@ -0,0 +1,163 @@
+import type { CircuitBreakerPolicy, CircuitState, RequestHistory } from "./types.js";
+
+// Circuit breaker per API: stop sending requests to an upstream that keeps failing,
+// then let a single probe through to find out whether it recovered
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  enabled: true,
+  failureThreshold: 5,
+  failureRate: 0.5,
+  windowMs: 60000,
+  openMs: 30000
+};
+
+// Whether the call that was let through is the half-open probe
+export interface CircuitTicket {
+  probe: boolean;
+}
+
+export type CircuitOutcome = 'success' | 'failure' | 'cancelled';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  recentRequests: number;
+  recentFailures: number;
+  openedAt?: string;
+  probeAfter?: string;
+  lastError?: string;
+}
+
+interface Circuit {
+  state: CircuitState;
+  openedAt: number;
+  // Failures from before the circuit last closed no longer count
+  closedAt: number;
+  probing: boolean;
+  lastError?: string;
+}
+
+// Transport errors (recorded with status 0) and server errors; 4xx are the caller's problem
+export function isUpstreamFailure(status: number): boolean {
+  return status === 0 || status >= 500;
+}
+
+export class CircuitBreakerManager {
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    private readonly history: () => readonly RequestHistory[],
+    private readonly onStateChange?: (apiName: string, state: CircuitState, reason: string) => void
+  ) {}
+
+  /**
+   * Admit a call or throw while the circuit is open. In half-open state only
+   * one probe is admitted; its outcome must be reported through `settle`.
+   */
+  check(apiName: string, overrides: Partial<CircuitBreakerPolicy> | undefined): CircuitTicket {
+    const policy = { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...overrides };
+    if (!policy.enabled) return { probe: false };
+
+    const now = Date.now();
+    const circuit = this.circuit(apiName);
+    if (circuit.state === 'closed') {
+      const recent = this.recent(apiName, policy, circuit, now);
+      if (recent.failures < policy.failureThreshold || recent.failures < recent.requests * policy.failureRate) {
+        return { probe: false };
+      }
+      this.open(apiName, circuit, now, recent.lastError,
+        `${recent.failures} of ${recent.requests} requests failed in the last ${Math.round(policy.windowMs / 1000)}s`);
+    }
+
+    if (circuit.state === 'open' && now - circuit.openedAt >= policy.openMs) {
+      circuit.state = 'half-open';
+      this.onStateChange?.(apiName, 'half-open', 'probing with a single request');
+    }
+    if (circuit.state === 'half-open' && !circuit.probing) {
+      circuit.probing = true;
+      return { probe: true };
+    }
+
+    if (circuit.state === 'half-open') {
+      throw new Error(`Circuit breaker for API "${apiName}" is half-open and a probe request is in flight; try again shortly`);
+    }
+    const retryIn = Math.max(1, Math.ceil((circuit.openedAt + policy.openMs - now) / 1000));
+    throw new Error(
+      `Circuit breaker for API "${apiName}" is open after repeated failures${circuit.lastError ? ` (last: ${circuit.lastError})` : ''}; ` +
+      `nothing was sent, the next request in ${retryIn}s will probe the API`
+    );
+  }
+
+  // Close or re-open the circuit depending on how the probe went
+  settle(apiName: string, ticket: CircuitTicket, outcome: CircuitOutcome, error?: string): void {
+    const circuit = this.circuits.get(apiName);
+    if (!ticket.probe || !circuit) return;
+    circuit.probing = false;
+    if (outcome === 'success') {
+      circuit.state = 'closed';
+      circuit.closedAt = Date.now();
+      delete circuit.lastError;
+      this.onStateChange?.(apiName, 'closed', 'probe succeeded');
+    } else if (outcome === 'failure') {
+      this.open(apiName, circuit, Date.now(), error, 'probe failed');
+    }
+  }
+
+  status(apiName: string, overrides: Partial<CircuitBreakerPolicy> | undefined): CircuitStatus {
+    const policy = { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...overrides };
+    const now = Date.now();
+    const circuit = this.circuit(apiName);
+    const recent = this.recent(apiName, policy, circuit, now);
+    // An open circuit whose cool-down elapsed turns half-open on the next call
+    const state = circuit.state === 'open' && now - circuit.openedAt >= policy.openMs ? 'half-open' : circuit.state;
+    return {
+      state,
+      recentRequests: recent.requests,
+      recentFailures: recent.failures,
+      ...(circuit.state !== 'closed' ? {
+        openedAt: new Date(circuit.openedAt).toISOString(),
+        probeAfter: new Date(circuit.openedAt + policy.openMs).toISOString()
+      } : {}),
+      ...(circuit.lastError ? { lastError: circuit.lastError } : {})
+    };
+  }
+
+  forget(apiName: string): void {
+    this.circuits.delete(apiName);
+  }
+
+  private circuit(apiName: string): Circuit {
+    let circuit = this.circuits.get(apiName);
+    if (!circuit) {
+      circuit = { state: 'closed', openedAt: 0, closedAt: 0, probing: false };
+      this.circuits.set(apiName, circuit);
+    }
+    return circuit;
+  }
+
+  private open(apiName: string, circuit: Circuit, now: number, lastError: string | undefined, reason: string): void {
+    circuit.state = 'open';
+    circuit.openedAt = now;
+    if (lastError) circuit.lastError = lastError;
+    this.onStateChange?.(apiName, 'open', reason);
+  }
+
+  // Requests and upstream failures for this API inside the window
+  private recent(apiName: string, policy: CircuitBreakerPolicy, circuit: Circuit, now: number) {
+    const since = Math.max(now - policy.windowMs, circuit.closedAt);
+    const history = this.history();
+    let requests = 0;
+    let failures = 0;
+    let lastError: string | undefined;
+
+    for (let index = history.length - 1; index >= 0; index--) {
+      const entry = history[index]!;
+      if (entry.apiName !== apiName || Date.parse(entry.timestamp) < since) continue;
+      requests++;
+      if (isUpstreamFailure(entry.status)) {
+        failures++;
+        lastError ??= entry.error || `HTTP ${entry.status}`;
+      }
+    }
+    return { requests, failures, lastError };
+  }
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CACHE_POLICY, ResponseCache } from "./cache.js";
+
+const url = 'https://api.example.com/items';
+
+// A body of `chunks` chunks of 64 KiB with no Content-Length, counting how many were pulled
+function streamedResponse(chunks: number) {
+  const counter = { pulls: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (counter.pulls++ === chunks) controller.close();
+      else controller.enqueue(new Uint8Array(64 * 1024));
+    }
+  }, { highWaterMark: 0 });
+  const response = new Response(body, { headers: { 'cache-control': 'max-age=60', etag: '"v1"' } });
+  return { response, counter };
+}
+
+describe("ResponseCache.store", () => {
+  it("stores a body and answers later lookups with it", async () => {
+    const cache = new ResponseCache();
+    const response = new Response('{"ok":true}', { headers: { 'cache-control': 'max-age=60', 'content-type': 'application/json' } });
+    assert.equal(await cache.store('shop', 'GET', url, {}, response, DEFAULT_CACHE_POLICY), true);
+    assert.equal(await response.text(), '{"ok":true}');
+
+    const lookup = cache.lookup('shop', 'GET', url, {});
+    assert.equal(lookup?.fresh, true);
+    assert.equal(await cache.toResponse(lookup!.entry).text(), '{"ok":true}');
+  });
+
+  it("stops reading a body without Content-Length once it passes the cap", async () => {
+    const cache = new ResponseCache();
+    const { response, counter } = streamedResponse(100);
+    assert.equal(await cache.store('shop', 'GET', url, {}, response, DEFAULT_CACHE_POLICY), false);
+    assert.ok(counter.pulls < 40, `pulled ${counter.pulls} chunks`);
+    assert.equal(cache.lookup('shop', 'GET', url, {}), undefined);
+
+    // The caller still reads the whole body
+    assert.equal((await response.arrayBuffer()).byteLength, 100 * 64 * 1024);
+  });
+
+  it("turns a 304 into the cached response with refreshed headers", async () => {
+    const cache = new ResponseCache();
+    const stale = { ...DEFAULT_CACHE_POLICY, ttlMs: 0 };
+    const response = new Response('cached', { headers: { etag: '"v1"', 'cache-control': 'max-age=0' } });
+    await cache.store('shop', 'GET', url, {}, response, stale);
+    const lookup = cache.lookup('shop', 'GET', url, {})!;
+    assert.equal(lookup.fresh, false);
+    assert.deepEqual(cache.conditionalHeaders(lookup.entry), { 'If-None-Match': '"v1"' });
+
+    const revalidated = cache.revalidate('shop', lookup, new Response(null, { status: 304, headers: { etag: '"v1"', 'x-checked': 'yes' } }), stale);
+    assert.equal(revalidated.status, 200);
+    assert.equal(revalidated.headers.get('x-checked'), 'yes');
+    assert.equal(await revalidated.text(), 'cached');
+  });
+});
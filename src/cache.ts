@@ -0,0 +1,295 @@
+import type { CachePolicy } from "./types.js";
+
+// In-memory HTTP cache for GET responses, per API, with ETag/Last-Modified revalidation
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+  enabled: true,
+  ttlMs: 60000,
+  maxEntries: 200
+};
+
+// Larger bodies are passed through without being stored
+const MAX_CACHED_BODY_BYTES = 1024 * 1024;
+// Statuses a response is cacheable with unless Cache-Control says otherwise
+const CACHEABLE_STATUSES: readonly number[] = [200, 203, 204, 300, 301];
+
+export type CacheStatus = 'hit' | 'revalidated' | 'fresh';
+
+interface CacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Uint8Array;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface ApiCache {
+  // Response header names each URL varies by (from its Vary header)
+  vary: Map<string, string[]>;
+  // Insertion order doubles as LRU order
+  entries: Map<string, CacheEntry>;
+  bytes: number;
+}
+
+export interface CacheLookup {
+  key: string;
+  entry: CacheEntry;
+  fresh: boolean;
+}
+
+// Caching is off unless the API has a cache config
+export function resolveCachePolicy(overrides: Partial<CachePolicy> | undefined): CachePolicy | undefined {
+  if (!overrides) return undefined;
+  const policy = { ...DEFAULT_CACHE_POLICY, ...overrides };
+  return policy.enabled ? policy : undefined;
+}
+
+function cacheControl(value: string | null): Map<string, string | undefined> {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (value || '').split(',')) {
+    const [name, argument] = part.trim().split('=');
+    if (name) directives.set(name.toLowerCase(), argument?.replace(/^"|"$/g, ''));
+  }
+  return directives;
+}
+
+// The whole body, or undefined as soon as it passes maxBytes (the rest is never read)
+async function readUpTo(response: Response, maxBytes: number): Promise<Uint8Array | undefined> {
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        // Not awaited: a clone's cancel only settles once the original is read too
+        reader.cancel().catch(() => undefined);
+        return undefined;
+      }
+      chunks.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function lowercaseHeaders(headers: Record<string, string>): Record<string, string> {
+  const lowercased: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lowercased[name.toLowerCase()] = value;
+  }
+  return lowercased;
+}
+
+// Request Cache-Control: no-store skips the cache, no-cache forces revalidation
+export function requestCacheDirectives(headers: Record<string, string>): { bypass: boolean, revalidate: boolean } {
+  const directives = cacheControl(lowercaseHeaders(headers)['cache-control'] ?? null);
+  return {
+    bypass: directives.has('no-store'),
+    revalidate: directives.has('no-cache') || directives.get('max-age') === '0'
+  };
+}
+
+function withoutQuery(url: string): string {
+  return url.split('?')[0]!;
+}
+
+export class ResponseCache {
+  private readonly apis = new Map<string, ApiCache>();
+
+  lookup(apiName: string, method: string, url: string, requestHeaders: Record<string, string>): CacheLookup | undefined {
+    const cache = this.apis.get(apiName);
+    if (!cache) return undefined;
+    const key = this.key(cache, method, url, lowercaseHeaders(requestHeaders));
+    const entry = cache.entries.get(key);
+    if (!entry) return undefined;
+
+    // Touch for LRU
+    cache.entries.delete(key);
+    cache.entries.set(key, entry);
+    return { key, entry, fresh: entry.expiresAt > Date.now() };
+  }
+
+  // Validators for revalidating a stale entry
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    return {
+      ...(entry.etag ? { 'If-None-Match': entry.etag } : {}),
+      ...(entry.lastModified ? { 'If-Modified-Since': entry.lastModified } : {})
+    };
+  }
+
+  hasValidators(entry: CacheEntry): boolean {
+    return !!entry.etag || !!entry.lastModified;
+  }
+
+  /**
+   * Store a response if HTTP caching rules allow it. The body is read from a
+   * clone, so the caller can still consume the original response.
+   */
+  async store(
+    apiName: string,
+    method: string,
+    url: string,
+    requestHeaders: Record<string, string>,
+    response: Response,
+    policy: CachePolicy
+  ): Promise<boolean> {
+    const directives = cacheControl(response.headers.get('cache-control'));
+    const varyHeader = response.headers.get('vary') || '';
+    // Reading an event stream to store it would never finish
+    const eventStream = (response.headers.get('content-type') || '').startsWith('text/event-stream');
+    if (!CACHEABLE_STATUSES.includes(response.status) || directives.has('no-store') || varyHeader.includes('*') || eventStream) {
+      return false;
+    }
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_CACHED_BODY_BYTES) return false;
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    const freshness = this.freshness(response, directives, policy);
+    // An immediately stale entry is only useful if it can be revalidated
+    if (freshness <= 0 && !etag && !lastModified) return false;
+
+    const body = await readUpTo(response.clone(), MAX_CACHED_BODY_BYTES);
+    if (!body) return false;
+
+    let cache = this.apis.get(apiName);
+    if (!cache) {
+      cache = { vary: new Map(), entries: new Map(), bytes: 0 };
+      this.apis.set(apiName, cache);
+    }
+    const varyNames = varyHeader.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    cache.vary.set(`${method} ${url}`, varyNames);
+    const key = this.key(cache, method, url, lowercaseHeaders(requestHeaders));
+
+    const now = Date.now();
+    this.remove(cache, key);
+    cache.entries.set(key, {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers),
+      body,
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+      storedAt: now,
+      expiresAt: now + freshness
+    });
+    cache.bytes += body.byteLength;
+
+    for (const oldest of cache.entries.keys()) {
+      if (cache.entries.size <= policy.maxEntries) break;
+      this.remove(cache, oldest);
+    }
+    return true;
+  }
+
+  // A 304 confirmed the entry: take its updated headers and restart the freshness clock
+  revalidate(apiName: string, lookup: CacheLookup, notModified: Response, policy: CachePolicy): Response {
+    const { entry } = lookup;
+    const headers = new Headers(entry.headers);
+    notModified.headers.forEach((value, name) => {
+      if (name !== 'content-length') headers.set(name, value);
+    });
+    entry.headers = Array.from(headers);
+    const etag = headers.get('etag');
+    const lastModified = headers.get('last-modified');
+    if (etag) entry.etag = etag;
+    if (lastModified) entry.lastModified = lastModified;
+
+    const directives = cacheControl(headers.get('cache-control'));
+    const cache = this.apis.get(apiName);
+    if (directives.has('no-store')) {
+      if (cache) this.remove(cache, lookup.key);
+    } else {
+      entry.storedAt = Date.now();
+      entry.expiresAt = entry.storedAt + this.freshness(notModified, directives, policy);
+    }
+    return this.toResponse(entry);
+  }
+
+  toResponse(entry: CacheEntry): Response {
+    const body = entry.status === 204 ? null : entry.body.slice();
+    return new Response(body, { status: entry.status, statusText: entry.statusText, headers: entry.headers });
+  }
+
+  // Unsafe methods change the resource, so drop what is cached for its URL (any query)
+  invalidate(apiName: string, url: string): number {
+    const cache = this.apis.get(apiName);
+    if (!cache) return 0;
+    const target = withoutQuery(url);
+    let removed = 0;
+    for (const [key, entry] of cache.entries) {
+      if (withoutQuery(entry.url) === target) {
+        this.remove(cache, key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Drop every entry of an API, or only those whose URL starts with a prefix
+  purge(apiName: string, urlPrefix?: string): number {
+    const cache = this.apis.get(apiName);
+    if (!cache) return 0;
+    if (!urlPrefix) {
+      this.apis.delete(apiName);
+      return cache.entries.size;
+    }
+    let removed = 0;
+    for (const [key, entry] of cache.entries) {
+      if (entry.url.startsWith(urlPrefix)) {
+        this.remove(cache, key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  status(apiName: string): { entries: number, bytes: number } {
+    const cache = this.apis.get(apiName);
+    return { entries: cache?.entries.size || 0, bytes: cache?.bytes || 0 };
+  }
+
+  // Milliseconds a response stays fresh: max-age, then Expires, then the API's TTL
+  private freshness(response: Response, directives: Map<string, string | undefined>, policy: CachePolicy): number {
+    if (directives.has('no-cache')) return 0;
+    const maxAge = Number(directives.get('max-age'));
+    if (directives.has('max-age') && Number.isFinite(maxAge)) {
+      const age = Number(response.headers.get('age')) || 0;
+      return Math.max(0, (maxAge - age) * 1000);
+    }
+    const expires = Date.parse(response.headers.get('expires') || '');
+    if (!Number.isNaN(expires)) {
+      const date = Date.parse(response.headers.get('date') || '');
+      return Math.max(0, expires - (Number.isNaN(date) ? Date.now() : date));
+    }
+    return policy.ttlMs;
+  }
+
+  private key(cache: ApiCache, method: string, url: string, requestHeaders: Record<string, string>): string {
+    const varyNames = cache.vary.get(`${method} ${url}`) || [];
+    return [`${method} ${url}`, ...varyNames.map(name => `${name}: ${requestHeaders[name] ?? ''}`)].join('\n');
+  }
+
+  private remove(cache: ApiCache, key: string): void {
+    const entry = cache.entries.get(key);
+    if (!entry) return;
+    cache.bytes -= entry.body.byteLength;
+    cache.entries.delete(key);
+  }
+}
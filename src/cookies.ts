@@ -0,0 +1,160 @@
+// Minimal RFC 6265 cookie jar, one per saved API
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  expiresAt?: number;
+}
+
+export interface CookieSummary {
+  name: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  expiresAt?: string;
+}
+
+// Directory of the request path, used when Set-Cookie has no Path attribute
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/') || pathname.lastIndexOf('/') === 0) return '/';
+  return pathname.slice(0, pathname.lastIndexOf('/'));
+}
+
+function domainMatches(host: string, cookie: StoredCookie): boolean {
+  if (cookie.hostOnly) return host === cookie.domain;
+  return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/';
+}
+
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  // Capture every Set-Cookie header of a response to `url`
+  storeFromResponse(url: string, headers: Headers): number {
+    const setCookies = headers.getSetCookie();
+    const requestUrl = new URL(url);
+    let stored = 0;
+    for (const header of setCookies) {
+      if (this.store(requestUrl, header)) stored++;
+    }
+    return stored;
+  }
+
+  // Value for the Cookie request header, or undefined when nothing matches
+  headerFor(url: string): string | undefined {
+    this.evictExpired();
+    const requestUrl = new URL(url);
+    const matching = this.cookies
+      .filter(cookie =>
+        domainMatches(requestUrl.hostname, cookie) &&
+        pathMatches(requestUrl.pathname || '/', cookie.path) &&
+        (!cookie.secure || requestUrl.protocol === 'https:'))
+      // Longer paths first, as browsers do
+      .sort((a, b) => b.path.length - a.path.length);
+    if (matching.length === 0) return undefined;
+    return matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+  get size(): number {
+    this.evictExpired();
+    return this.cookies.length;
+  }
+
+  clear(): void {
+    this.cookies = [];
+  }
+
+  // Cookie metadata without values, safe to show to the model
+  summary(): CookieSummary[] {
+    this.evictExpired();
+    return this.cookies.map(cookie => ({
+      name: cookie.name,
+      domain: cookie.domain,
+      path: cookie.path,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      ...(cookie.expiresAt ? { expiresAt: new Date(cookie.expiresAt).toISOString() } : {})
+    }));
+  }
+
+  private store(requestUrl: URL, header: string): boolean {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair?.indexOf('=') ?? -1;
+    if (!pair || separator <= 0) return false;
+
+    const cookie: StoredCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: requestUrl.hostname,
+      hostOnly: true,
+      path: defaultPath(requestUrl.pathname),
+      secure: false,
+      httpOnly: false
+    };
+
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = (rawKey || '').trim().toLowerCase();
+      const value = rest.join('=').trim();
+      switch (key) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          // Ignore cookies set for a domain the response did not come from
+          if (domain && requestUrl.hostname !== domain && !requestUrl.hostname.endsWith(`.${domain}`)) {
+            return false;
+          }
+          if (domain) {
+            cookie.domain = domain;
+            cookie.hostOnly = false;
+          }
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) cookie.path = value;
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'httponly':
+          cookie.httpOnly = true;
+          break;
+        case 'max-age': {
+          const seconds = Number(value);
+          if (Number.isFinite(seconds)) cookie.expiresAt = Date.now() + seconds * 1000;
+          break;
+        }
+        case 'expires': {
+          // Max-Age wins over Expires when both are present
+          const expires = Date.parse(value);
+          if (!attributes.some(a => a.trim().toLowerCase().startsWith('max-age')) && !Number.isNaN(expires)) {
+            cookie.expiresAt = expires;
+          }
+          break;
+        }
+      }
+    }
+
+    this.cookies = this.cookies.filter(existing =>
+      !(existing.name === cookie.name && existing.domain === cookie.domain && existing.path === cookie.path));
+    if (cookie.expiresAt === undefined || cookie.expiresAt > Date.now()) {
+      this.cookies.push(cookie);
+    }
+    return true;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    this.cookies = this.cookies.filter(cookie => cookie.expiresAt === undefined || cookie.expiresAt > now);
+  }
+}
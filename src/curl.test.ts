@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatCurl, maskHeaders, parseCurl } from "./curl.js";
+
+describe("parseCurl", () => {
+  it("reads the method, URL, headers and JSON body", () => {
+    const parsed = parseCurl(`curl -X POST 'https://api.example.com/v1/items?x=1' \\
+      -H 'Authorization: Bearer abc' -H "X-Trace: it's" --data-raw '{"name":"widget"}' -H 'Content-Type: application/json'`);
+    assert.equal(parsed.method, 'POST');
+    assert.equal(parsed.url, 'https://api.example.com/v1/items?x=1');
+    assert.deepEqual(parsed.headers, { Authorization: 'Bearer abc', 'X-Trace': "it's" });
+    assert.deepEqual(parsed.body, { name: 'widget' });
+    assert.deepEqual(parsed.warnings, []);
+  });
+
+  it("turns -d fields into a form body and -u into basic credentials", () => {
+    const parsed = parseCurl(`curl -u alice:pw https://api.example.com/login -d user=a -d 'note=hello world'`);
+    assert.equal(parsed.method, 'POST');
+    assert.equal(parsed.bodyType, 'form');
+    assert.deepEqual(parsed.body, { user: 'a', note: 'hello world' });
+    assert.equal(parsed.username, 'alice');
+    assert.equal(parsed.password, 'pw');
+  });
+
+  it("moves -G data into the query string and reads -m as a timeout", () => {
+    const parsed = parseCurl(`curl -G https://api.example.com/search -d q=1 -m 5`);
+    assert.equal(parsed.method, 'GET');
+    assert.equal(parsed.url, 'https://api.example.com/search?q=1');
+    assert.equal(parsed.body, undefined);
+    assert.equal(parsed.timeoutMs, 5000);
+  });
+
+  it("warns about file uploads and what follows a pipe", () => {
+    const upload = parseCurl(`curl https://api.example.com/upload -F a=1 -F file=@x.png`);
+    assert.equal(upload.bodyType, 'multipart');
+    assert.deepEqual(upload.body, { a: '1' });
+    assert.equal(upload.warnings.length, 1);
+
+    const piped = parseCurl(`curl https://api.example.com/x | jq .`);
+    assert.equal(piped.url, 'https://api.example.com/x');
+    assert.match(piped.warnings[0]!, /what follows \|/);
+  });
+
+  it("rejects other commands and unterminated quotes", () => {
+    assert.throws(() => parseCurl('wget https://api.example.com'), /Not a curl command/);
+    assert.throws(() => parseCurl(`curl 'https://api.example.com`), /unterminated ' quote/);
+  });
+
+  it("parses the commands formatCurl writes back to the same request", () => {
+    const request = {
+      method: 'PUT',
+      url: 'https://api.example.com/items/1',
+      headers: { 'Content-Type': 'application/json', 'X-Note': "it's" },
+      body: '{"name":"widget"}'
+    };
+    const parsed = parseCurl(formatCurl(request));
+    assert.equal(parsed.method, 'PUT');
+    assert.equal(parsed.url, request.url);
+    assert.equal(parsed.headers['X-Note'], "it's");
+    assert.deepEqual(parsed.body, { name: 'widget' });
+  });
+});
+
+describe("maskHeaders", () => {
+  it("masks credential headers and keeps the auth scheme", () => {
+    assert.deepEqual(maskHeaders({
+      Authorization: 'Bearer abc',
+      'X-Api-Key': 'k1',
+      'X-Session-Token': 't1',
+      'X-Tenant': 'acme',
+      Accept: 'application/json'
+    }, ['X-Tenant']), {
+      Authorization: 'Bearer [REDACTED]',
+      'X-Api-Key': '[REDACTED]',
+      'X-Session-Token': '[REDACTED]',
+      'X-Tenant': '[REDACTED]',
+      Accept: 'application/json'
+    });
+  });
+});
@@ -0,0 +1,478 @@
+import type { BodyType, HttpMethod } from "./types.js";
+
+// curl command lines: parsed into a request for make_request or save_api, and
+// written back from a request, with secret header values masked
+
+export const MASKED_VALUE = '[REDACTED]';
+
+export interface ParsedCurl {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyType?: BodyType;
+  contentType?: string;
+  // -u user:password
+  username?: string;
+  password?: string;
+  // -m / --max-time
+  timeoutMs?: number;
+  warnings: string[];
+}
+
+export interface CurlRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string> | undefined;
+  body?: string | Uint8Array | undefined;
+}
+
+const SUPPORTED_METHODS: readonly HttpMethod[] = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+
+// Short options and the long option they stand for; the ones that take a value are in VALUE_OPTIONS
+const SHORT_OPTIONS: Record<string, string> = {
+  X: 'request', H: 'header', d: 'data', u: 'user', F: 'form', A: 'user-agent', e: 'referer', b: 'cookie',
+  m: 'max-time', o: 'output', x: 'proxy', w: 'write-out', c: 'cookie-jar', E: 'cert', T: 'upload-file',
+  K: 'config', U: 'proxy-user', r: 'range', D: 'dump-header', C: 'continue-at', y: 'speed-time', Y: 'speed-limit',
+  z: 'time-cond', G: 'get', I: 'head', s: 'silent', S: 'show-error', L: 'location', k: 'insecure', v: 'verbose',
+  i: 'include', f: 'fail', N: 'no-buffer', g: 'globoff', O: 'remote-name', n: 'netrc', j: 'junk-session-cookies',
+  q: 'disable', Z: 'parallel', '#': 'progress-bar', '0': 'http1.0', '4': 'ipv4', '6': 'ipv6'
+};
+
+const VALUE_OPTIONS = new Set([
+  'request', 'header', 'data', 'data-raw', 'data-binary', 'data-ascii', 'data-urlencode', 'json', 'user', 'form',
+  'form-string', 'user-agent', 'referer', 'cookie', 'max-time', 'url', 'oauth2-bearer', 'aws-sigv4', 'output',
+  'proxy', 'write-out', 'cookie-jar', 'cert', 'key', 'cacert', 'capath', 'cert-type', 'key-type', 'pass', 'config',
+  'proxy-user', 'range', 'dump-header', 'continue-at', 'speed-time', 'speed-limit', 'time-cond', 'upload-file',
+  'connect-timeout', 'retry', 'retry-delay', 'retry-max-time', 'resolve', 'connect-to', 'max-redirs', 'interface',
+  'unix-socket', 'proto', 'proto-redir', 'limit-rate', 'trace', 'trace-ascii', 'stderr', 'ciphers', 'request-target',
+  'expect100-timeout', 'keepalive-time', 'max-filesize', 'noproxy', 'preproxy', 'proxy-header', 'tls-max'
+]);
+
+// Options that only change how curl itself behaves, not the request
+const IGNORED_OPTIONS = new Set([
+  'silent', 'show-error', 'location', 'insecure', 'verbose', 'include', 'fail', 'fail-with-body', 'no-buffer',
+  'globoff', 'compressed', 'progress-bar', 'http1.0', 'http1.1', 'http2', 'http2-prior-knowledge', 'ipv4', 'ipv6',
+  'output', 'write-out', 'cookie-jar', 'dump-header', 'remote-name', 'remote-header-name', 'create-dirs', 'stderr',
+  'trace', 'trace-ascii', 'connect-timeout', 'retry', 'retry-delay', 'retry-max-time', 'retry-all-errors',
+  'retry-connrefused', 'max-redirs', 'limit-rate', 'keepalive-time', 'no-keepalive', 'tcp-nodelay', 'path-as-is',
+  'location-trusted', 'no-progress-meter', 'styled-output', 'no-styled-output', 'parallel', 'expect100-timeout',
+  'max-filesize', 'speed-time', 'speed-limit', 'tls-max', 'tlsv1.2', 'tlsv1.3', 'ssl-no-revoke', 'disable'
+]);
+
+// Headers that carry credentials whatever the API's auth
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-amz-security-token'];
+// X-API-Key, Api-Key, X-Auth-Token, X-Client-Secret...
+const CREDENTIAL_HEADER_PATTERN = /^(x-)?api[-_]?key$|[-_](token|secret|signature)$/i;
+
+export function isCredentialHeader(name: string): boolean {
+  return SECRET_HEADERS.includes(name.toLowerCase()) || CREDENTIAL_HEADER_PATTERN.test(name);
+}
+
+// ---- Command line ----
+
+function ansiEscape(character: string): string {
+  switch (character) {
+    case 'n': return '\n';
+    case 't': return '\t';
+    case 'r': return '\r';
+    case 'e': return '\x1b';
+    case '0': return '\0';
+    default: return character;
+  }
+}
+
+/**
+ * Split a shell command line into arguments the way bash would for a single
+ * command: single, double and $'...' quotes, backslash escapes and line
+ * continuations. What follows an unquoted |, ; or & is dropped.
+ */
+export function splitCommandLine(command: string): { args: string[], truncated: boolean } {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: "'" | '"' | "$'" | undefined;
+
+  for (let index = 0; index < command.length; index++) {
+    const character = command[index]!;
+    const next = command[index + 1];
+    if (quote === "'") {
+      if (character === "'") quote = undefined;
+      else current += character;
+      continue;
+    }
+    if (quote === "$'") {
+      if (character === "'") quote = undefined;
+      else if (character === '\\' && next !== undefined) {
+        current += ansiEscape(next);
+        index++;
+      } else current += character;
+      continue;
+    }
+    if (quote === '"') {
+      if (character === '"') quote = undefined;
+      else if (character === '\\' && next !== undefined && '"\\$`\n'.includes(next)) {
+        if (next !== '\n') current += next;
+        index++;
+      } else current += character;
+      continue;
+    }
+
+    // A backslash at the end of a line joins it with the next one
+    if (character === '\\' && (next === '\n' || (next === '\r' && command[index + 2] === '\n'))) {
+      index += next === '\r' ? 2 : 1;
+      continue;
+    }
+    if (/\s/.test(character)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+      continue;
+    }
+    if ('|;&'.includes(character)) {
+      if (inArg) args.push(current);
+      return { args, truncated: true };
+    }
+
+    inArg = true;
+    if (character === "'" || character === '"') {
+      quote = character;
+    } else if (character === '$' && next === "'") {
+      quote = "$'";
+      index++;
+    } else if (character === '\\' && next !== undefined) {
+      current += next;
+      index++;
+    } else {
+      current += character;
+    }
+  }
+  if (quote) {
+    throw new Error(`The command has an unterminated ${quote === "$'" ? "$'" : quote} quote`);
+  }
+  if (inArg) args.push(current);
+  return { args, truncated: false };
+}
+
+// Single quotes, or $'...' when the value holds control characters a terminal would mangle
+function shellQuote(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+  if (/[\x00-\x08\x0b-\x1f\x7f]/.test(value)) {
+    return `$'${value.replace(/[\\']/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g, character => `\\x${character.charCodeAt(0).toString(16).padStart(2, '0')}`)}'`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// ---- Parsing ----
+
+// The options of a curl command, long names for short ones, in order
+function readOptions(args: string[], warnings: string[]): { options: [string, string | undefined][], urls: string[] } {
+  const options: [string, string | undefined][] = [];
+  const urls: string[] = [];
+  const valueOf = (name: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined) throw new Error(`Option --${name} needs a value`);
+    return value;
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (arg.startsWith('--') && arg.length > 2) {
+      const equals = arg.indexOf('=');
+      const name = arg.slice(2, equals === -1 ? undefined : equals);
+      if (equals !== -1) options.push([name, arg.slice(equals + 1)]);
+      else if (VALUE_OPTIONS.has(name)) options.push([name, valueOf(name, ++index)]);
+      else options.push([name, undefined]);
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      // Short flags combine (-sSL); an option that takes a value ends the group (-XPOST)
+      for (let position = 1; position < arg.length; position++) {
+        const name = SHORT_OPTIONS[arg[position]!];
+        if (!name) {
+          warnings.push(`Unknown option -${arg[position]} ignored`);
+          continue;
+        }
+        if (VALUE_OPTIONS.has(name)) {
+          options.push([name, position + 1 < arg.length ? arg.slice(position + 1) : valueOf(name, ++index)]);
+          break;
+        }
+        options.push([name, undefined]);
+      }
+    } else {
+      urls.push(arg);
+    }
+  }
+  return { options, urls };
+}
+
+function splitHeader(header: string): [string, string] | undefined {
+  const colon = header.indexOf(':');
+  if (colon <= 0) return undefined;
+  return [header.slice(0, colon).trim(), header.slice(colon + 1).trim()];
+}
+
+function headerName(headers: Record<string, string>, name: string): string | undefined {
+  return Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+}
+
+// --data-urlencode: "content", "=content", "name=content" or "name@file"
+function urlencodeData(value: string, warnings: string[]): string | undefined {
+  const equals = value.indexOf('=');
+  const at = value.indexOf('@');
+  if (at !== -1 && (equals === -1 || at < equals)) {
+    warnings.push(`--data-urlencode ${value} reads a file, which is not supported; left out`);
+    return undefined;
+  }
+  if (equals === -1) return encodeURIComponent(value);
+  const name = value.slice(0, equals);
+  return `${name ? `${name}=` : ''}${encodeURIComponent(value.slice(equals + 1))}`;
+}
+
+// Form fields of an urlencoded body, if it is made of name=value pairs only
+function formFields(data: string): Record<string, unknown> | undefined {
+  if (!data || !data.split('&').every(pair => /^[^=&]+=/.test(pair))) return undefined;
+  const fields: Record<string, unknown> = {};
+  for (const [name, value] of new URLSearchParams(data)) {
+    const existing = fields[name];
+    fields[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return fields;
+}
+
+/**
+ * Parse a curl command line: method, URL, headers, body (-d and friends, --json,
+ * -F), basic credentials (-u) and timeout (-m). Options that only change curl's
+ * own behaviour are ignored; ones that would change the request are reported.
+ */
+export function parseCurl(command: string): ParsedCurl {
+  const warnings: string[] = [];
+  const { args, truncated } = splitCommandLine(command.trim().replace(/^\$\s+/, ''));
+  if (args[0] !== 'curl') {
+    throw new Error("Not a curl command: it must start with curl");
+  }
+  if (truncated) warnings.push("Only the curl command was read; what follows |, ; or & was ignored");
+
+  const { options, urls } = readOptions(args.slice(1), warnings);
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const form: Record<string, unknown> = {};
+  let method: string | undefined;
+  let dataInQuery = false;
+  let head = false;
+  let json = false;
+  let user: string | undefined;
+  let timeoutMs: number | undefined;
+
+  for (const [name, value = ''] of options) {
+    switch (name) {
+      case 'request':
+        method = value.toUpperCase();
+        break;
+      case 'url':
+        urls.push(value);
+        break;
+      case 'header': {
+        const header = splitHeader(value);
+        if (header) {
+          // A later -H replaces an earlier one, in whatever case
+          const existing = headerName(headers, header[0]);
+          if (existing) delete headers[existing];
+          if (header[1] !== '') headers[header[0]] = header[1];
+        } else if (value.startsWith('@')) {
+          warnings.push(`-H ${value} reads headers from a file, which is not supported`);
+        }
+        break;
+      }
+      case 'user-agent':
+        headers['User-Agent'] = value;
+        break;
+      case 'referer':
+        headers['Referer'] = value;
+        break;
+      case 'cookie':
+        if (value.includes('=')) headers['Cookie'] = value;
+        else warnings.push(`-b ${value} reads cookies from a file, which is not supported`);
+        break;
+      case 'oauth2-bearer':
+        headers['Authorization'] = `Bearer ${value}`;
+        break;
+      case 'user':
+        user = value;
+        break;
+      case 'max-time':
+        if (Number(value) > 0) timeoutMs = Math.round(Number(value) * 1000);
+        break;
+      case 'get':
+        dataInQuery = true;
+        break;
+      case 'head':
+        head = true;
+        break;
+      case 'json':
+        json = true;
+        data.push(value);
+        break;
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+        if (value.startsWith('@')) {
+          warnings.push(`--${name} ${value} reads a file, which is not supported; left out of the body`);
+        } else {
+          // -d drops line breaks the way curl does for files; --data-binary keeps them
+          data.push(name === 'data-binary' ? value : value.replace(/[\r\n]/g, ''));
+        }
+        break;
+      case 'data-raw':
+        data.push(value);
+        break;
+      case 'data-urlencode': {
+        const encoded = urlencodeData(value, warnings);
+        if (encoded !== undefined) data.push(encoded);
+        break;
+      }
+      case 'form':
+      case 'form-string': {
+        const equals = value.indexOf('=');
+        if (equals <= 0) {
+          warnings.push(`-F ${value} is not a name=value field; left out`);
+          break;
+        }
+        const field = value.slice(0, equals);
+        let content = value.slice(equals + 1);
+        if (name === 'form' && /^[@<]/.test(content)) {
+          warnings.push(`Form field "${field}" uploads a file, which a curl command can't carry here; pass it with make_request files`);
+          break;
+        }
+        if (name === 'form') content = content.replace(/;type=[^;]*$/, '');
+        const existing = form[field];
+        form[field] = existing === undefined ? content : [...(Array.isArray(existing) ? existing : [existing]), content];
+        break;
+      }
+      case 'digest':
+      case 'ntlm':
+      case 'negotiate':
+      case 'aws-sigv4':
+        warnings.push(`--${name} authentication is not supported; set the API's auth with save_api`);
+        break;
+      case 'upload-file':
+        warnings.push(`-T ${value} uploads a file, which is not supported; left out`);
+        break;
+      default:
+        if (!IGNORED_OPTIONS.has(name) && name !== 'basic') warnings.push(`Option --${name} ignored`);
+    }
+  }
+
+  if (urls.length === 0) throw new Error("The curl command has no URL");
+  if (urls.length > 1) warnings.push(`Only the first URL is used; ignored ${urls.slice(1).join(', ')}`);
+  let url = urls[0]!;
+  if (!/^[a-z][\w+.-]*:\/\//i.test(url)) url = `http://${url}`;
+  if (!/^https?:\/\//i.test(url)) throw new Error(`Only http and https URLs are supported, got ${url}`);
+
+  const hasForm = Object.keys(form).length > 0;
+  if (hasForm && data.length > 0) warnings.push("-F and -d can't be combined; the -d data was left out");
+  if (dataInQuery && data.length > 0) {
+    url += `${url.includes('?') ? '&' : '?'}${data.join('&')}`;
+    data.length = 0;
+  }
+
+  const resolvedMethod = method || (head ? 'HEAD' : hasForm || data.length > 0 ? 'POST' : 'GET');
+  if (!SUPPORTED_METHODS.includes(resolvedMethod as HttpMethod)) {
+    throw new Error(`Method ${resolvedMethod} is not supported`);
+  }
+
+  const parsed: ParsedCurl = { method: resolvedMethod as HttpMethod, url, headers, warnings };
+  if (user !== undefined) {
+    const colon = user.indexOf(':');
+    parsed.username = colon === -1 ? user : user.slice(0, colon);
+    if (colon === -1) warnings.push("-u has no password; curl would prompt for it");
+    else parsed.password = user.slice(colon + 1);
+  }
+  if (timeoutMs !== undefined) parsed.timeoutMs = timeoutMs;
+
+  // The body, typed from the Content-Type curl would send
+  const typeHeader = headerName(headers, 'Content-Type');
+  if (json && !typeHeader) headers['Content-Type'] = 'application/json';
+  if (json && !headerName(headers, 'Accept')) headers['Accept'] = 'application/json';
+  const contentTypeName = headerName(headers, 'Content-Type');
+  const contentType = contentTypeName ? headers[contentTypeName]! : undefined;
+  const mediaType = contentType?.split(';')[0]!.trim().toLowerCase();
+
+  if (hasForm) {
+    // The multipart encoding sets its own boundary
+    if (contentTypeName && mediaType === 'multipart/form-data') delete headers[contentTypeName];
+    parsed.body = form;
+    parsed.bodyType = 'multipart';
+  } else if (data.length > 0) {
+    // Several --json join without a separator; -d pieces with &
+    const text = json ? data.join('') : data.join('&');
+    const jsonType = mediaType === 'application/json' || mediaType?.endsWith('+json');
+    let jsonBody: unknown;
+    if (jsonType) {
+      try {
+        jsonBody = JSON.parse(text);
+      } catch {
+        warnings.push("The body is sent as application/json but is not valid JSON; it is kept as text");
+      }
+    }
+    const fields = !mediaType || mediaType === 'application/x-www-form-urlencoded' ? formFields(text) : undefined;
+    if (jsonBody !== undefined) {
+      parsed.body = jsonBody;
+    } else if (fields) {
+      parsed.body = fields;
+      parsed.bodyType = 'form';
+    } else {
+      parsed.body = text;
+      parsed.bodyType = 'text';
+    }
+    if (contentTypeName) delete headers[contentTypeName];
+    // curl sends -d data as a form unless told otherwise
+    const sentType = contentType || 'application/x-www-form-urlencoded';
+    if (!(jsonBody !== undefined && mediaType === 'application/json') && !(fields && sentType === 'application/x-www-form-urlencoded')) {
+      parsed.contentType = sentType;
+    }
+  }
+  return parsed;
+}
+
+// ---- Formatting ----
+
+/**
+ * Mask the values of credential headers: Authorization and the like, plus
+ * `names` (the API's key or signature header...). An auth scheme is kept, as
+ * in "Bearer [REDACTED]".
+ */
+export function maskHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const secret = new Set(names.map(name => name.toLowerCase()));
+  const masked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!secret.has(name.toLowerCase()) && !isCredentialHeader(name)) {
+      masked[name] = value;
+      continue;
+    }
+    const scheme = /^([A-Za-z][\w-]*)\s+\S/.exec(value);
+    masked[name] = scheme ? `${scheme[1]} ${MASKED_VALUE}` : MASKED_VALUE;
+  }
+  return masked;
+}
+
+// A copy-pastable curl command, one option per line
+export function formatCurl({ method, url, headers, body }: CurlRequest): string {
+  const lines = [`curl${method === 'HEAD' ? ' --head' : method === 'GET' ? '' : ` -X ${method}`} ${shellQuote(url)}`];
+  for (const [name, value] of Object.entries(headers || {})) {
+    lines.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+
+  let note = '';
+  if (body !== undefined) {
+    let text: string | undefined = typeof body === 'string' ? body : undefined;
+    if (text === undefined) {
+      try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(body as Uint8Array);
+      } catch {
+        note = `# The ${(body as Uint8Array).byteLength}-byte binary body is left out; add it with --data-binary @file\n`;
+      }
+    }
+    if (text !== undefined) lines.push(`--data-raw ${shellQuote(text)}`);
+  }
+  return note + lines.join(' \\\n  ');
+}
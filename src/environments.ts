@@ -0,0 +1,126 @@
+import type { ApiConfig, ApiCredentials, ApiEnvironment } from "./types.js";
+
+// Environments of a saved API: each one overrides its baseUrl, headers and
+// credentials, and holds the {{variables}} filled into requests while it is active
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}$/;
+
+// Parts of a make_request call that may hold {{variables}}
+export interface RequestTemplate {
+  endpoint: string;
+  queryParams?: Record<string, any> | undefined;
+  headers?: Record<string, string> | undefined;
+  body?: unknown;
+}
+
+export function activeEnvironment(config: ApiConfig): ApiEnvironment | undefined {
+  return config.activeEnvironment ? config.environments?.[config.activeEnvironment] : undefined;
+}
+
+/**
+ * The config requests are sent with: the API with its active environment applied.
+ * Without one the stored config itself is returned; otherwise a copy, so nothing
+ * of the environment leaks into what is persisted.
+ */
+export function withEnvironment(config: ApiConfig): ApiConfig {
+  const environment = activeEnvironment(config);
+  if (!environment) return config;
+
+  const effective: ApiConfig = { ...config };
+  if (environment.baseUrl) effective.baseUrl = environment.baseUrl;
+  if (environment.headers) effective.headers = { ...config.headers, ...environment.headers };
+  if (environment.credentials && config.auth) {
+    effective.auth = { ...config.auth, credentials: { ...config.auth.credentials, ...environment.credentials } };
+  }
+  return effective;
+}
+
+// Where a credential field comes from under the active environment, to store a new value there
+export function credentialsHolding(config: ApiConfig, field: keyof ApiCredentials): ApiCredentials | undefined {
+  const environment = activeEnvironment(config);
+  if (environment?.credentials?.[field] !== undefined) return environment.credentials;
+  return config.auth?.credentials;
+}
+
+// Every credential set of an API: its own and those of its environments
+export function allCredentials(config: ApiConfig): ApiCredentials[] {
+  return [
+    ...(config.auth?.credentials ? [config.auth.credentials] : []),
+    ...Object.values(config.environments || {}).flatMap(environment => environment.credentials ? [environment.credentials] : [])
+  ];
+}
+
+/**
+ * Replace the {{name}} placeholders of `values` found anywhere in a value. A string
+ * that is a single placeholder takes the value as is (a number stays a number);
+ * names without a value are added to `missing` and their placeholders kept.
+ * `encode`, if given, escapes each value written into a string.
+ */
+export function fillPlaceholders(
+  value: unknown,
+  values: Record<string, unknown>,
+  missing: Set<string>,
+  encode: (text: string) => string = text => text
+): unknown {
+  if (typeof value === 'string') {
+    const whole = wholePlaceholder(value);
+    if (whole && values[whole] !== undefined && typeof values[whole] !== 'string') {
+      return values[whole];
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      const filled = values[name];
+      if (filled === undefined) {
+        missing.add(name);
+        return placeholder;
+      }
+      return encode(typeof filled === 'string' ? filled : JSON.stringify(filled));
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillPlaceholders(item, values, missing, encode));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values, missing, encode)]));
+  }
+  return value;
+}
+
+// The name, when a string is nothing but one {{placeholder}}
+export function wholePlaceholder(value: string): string | undefined {
+  return WHOLE_PLACEHOLDER_PATTERN.exec(value)?.[1];
+}
+
+// Names of the {{placeholders}} anywhere in a value
+export function placeholderNames(value: unknown): Set<string> {
+  const names = new Set<string>();
+  fillPlaceholders(value, {}, names);
+  return names;
+}
+
+/**
+ * Fill {{variables}} into the endpoint, query parameters, headers and body of a
+ * request. APIs without environments are left alone, so a literal {{...}} in a
+ * body still goes out as is; with environments an unknown variable is an error.
+ */
+export function fillVariables<T extends RequestTemplate>(config: ApiConfig, request: T): T {
+  if (!config.environments || Object.keys(config.environments).length === 0) return request;
+
+  const variables = activeEnvironment(config)?.variables || {};
+  const missing = new Set<string>();
+  const filled = {
+    ...request,
+    endpoint: fillPlaceholders(request.endpoint, variables, missing),
+    ...(request.queryParams ? { queryParams: fillPlaceholders(request.queryParams, variables, missing) } : {}),
+    ...(request.headers ? { headers: fillPlaceholders(request.headers, variables, missing) } : {}),
+    ...(request.body !== undefined ? { body: fillPlaceholders(request.body, variables, missing) } : {})
+  } as T;
+
+  if (missing.size > 0) {
+    const names = [...missing].map(name => `{{${name}}}`).join(', ');
+    throw new Error(config.activeEnvironment
+      ? `Undefined variable${missing.size > 1 ? 's' : ''} ${names} in environment "${config.activeEnvironment}" of API "${config.name}"; add ${missing.size > 1 ? 'them' : 'it'} with save_environment`
+      : `API "${config.name}" has no active environment to fill ${names} from; pick one with use_environment`);
+  }
+  return filled;
+}
@@ -0,0 +1,201 @@
+import type { GraphqlField, GraphqlInputValue, GraphqlSchema, GraphqlType } from "./types.js";
+
+// GraphQL APIs: the introspection query, a condensed schema cache built from its
+// result, and helpers to describe that schema and to read GraphQL errors
+
+export const DEFAULT_GRAPHQL_ENDPOINT = '/graphql';
+
+// Enough ofType levels for types like [[Item!]!]!
+const TYPE_REF = 'kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } }';
+
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind name description
+      fields(includeDeprecated: true) {
+        name description isDeprecated
+        args { name description defaultValue type { ${TYPE_REF} } }
+        type { ${TYPE_REF} }
+      }
+      inputFields { name description defaultValue type { ${TYPE_REF} } }
+      enumValues(includeDeprecated: true) { name }
+      possibleTypes { name }
+    }
+  }
+}`;
+
+// Only what make_request needs to report; the full error stays in the body
+export interface GraphqlError {
+  message: string;
+  path?: (string | number)[];
+}
+
+// Introspection results are untrusted JSON: read them field by field
+function record(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+const TYPE_KINDS: GraphqlType['kind'][] = ['OBJECT', 'INTERFACE', 'UNION', 'ENUM', 'INPUT_OBJECT', 'SCALAR'];
+
+function isTypeKind(kind: unknown): kind is GraphqlType['kind'] {
+  return TYPE_KINDS.some(known => known === kind);
+}
+
+// SDL notation for an introspected type reference
+function typeName(ref: unknown): string {
+  const { kind, name, ofType } = record(ref);
+  if (kind === 'NON_NULL') return `${typeName(ofType)}!`;
+  if (kind === 'LIST') return `[${typeName(ofType)}]`;
+  return optionalString(name) ?? 'Unknown';
+}
+
+function inputValue(raw: unknown): GraphqlInputValue {
+  const value = record(raw);
+  const description = optionalString(value.description);
+  return {
+    name: String(value.name),
+    type: typeName(value.type),
+    ...(description ? { description } : {}),
+    ...(typeof value.defaultValue === 'string' ? { defaultValue: value.defaultValue } : {})
+  };
+}
+
+function field(raw: unknown): GraphqlField {
+  const value = record(raw);
+  const description = optionalString(value.description);
+  const args = list(value.args);
+  return {
+    name: String(value.name),
+    type: typeName(value.type),
+    ...(description ? { description } : {}),
+    ...(args.length ? { args: args.map(inputValue) } : {}),
+    ...(value.isDeprecated === true ? { deprecated: true } : {})
+  };
+}
+
+function names(values: unknown): string[] {
+  return list(values).flatMap(value => optionalString(record(value).name) ?? []);
+}
+
+/**
+ * Condense an introspection result (the response body, or its `data`) into the
+ * schema cached on the API. Built-in types (`__Schema`...) are left out.
+ */
+export function condenseIntrospection(result: unknown): GraphqlSchema {
+  const schema = record(record(record(result).data).__schema ?? record(result).__schema);
+  if (!Array.isArray(schema.types)) {
+    throw new Error("The response is not a GraphQL introspection result (introspection may be disabled on this server)");
+  }
+
+  const types: Record<string, GraphqlType> = {};
+  for (const raw of schema.types) {
+    const type = record(raw);
+    const name = optionalString(type.name);
+    if (!name || name.startsWith('__') || !isTypeKind(type.kind)) continue;
+    const description = optionalString(type.description);
+    const fields = list(type.fields);
+    const inputFields = list(type.inputFields);
+    const enumValues = names(type.enumValues);
+    const possibleTypes = names(type.possibleTypes);
+    types[name] = {
+      name,
+      kind: type.kind,
+      ...(description ? { description } : {}),
+      ...(fields.length ? { fields: fields.map(field) } : {}),
+      ...(inputFields.length ? { inputFields: inputFields.map(inputValue) } : {}),
+      ...(enumValues.length ? { enumValues } : {}),
+      ...(possibleTypes.length ? { possibleTypes } : {})
+    };
+  }
+
+  const queryType = optionalString(record(schema.queryType).name);
+  const mutationType = optionalString(record(schema.mutationType).name);
+  const subscriptionType = optionalString(record(schema.subscriptionType).name);
+  return {
+    ...(queryType ? { queryType } : {}),
+    ...(mutationType ? { mutationType } : {}),
+    ...(subscriptionType ? { subscriptionType } : {}),
+    types,
+    introspectedAt: new Date().toISOString()
+  };
+}
+
+// The `errors` of a GraphQL response, if it has any; partial `data` may come with them
+export function graphqlErrors(body: unknown): GraphqlError[] | undefined {
+  if (typeof body !== 'object' || body === null || !('errors' in body)) return undefined;
+  const { errors } = body;
+  if (!Array.isArray(errors) || errors.length === 0) return undefined;
+  return errors.map((error: unknown) => {
+    const fields: object = typeof error === 'object' && error !== null ? error : {};
+    return {
+      message: 'message' in fields && typeof fields.message === 'string' ? fields.message : JSON.stringify(error),
+      ...('path' in fields && Array.isArray(fields.path) ? { path: fields.path } : {})
+    };
+  });
+}
+
+function describeArgs(args: GraphqlInputValue[] | undefined): string {
+  if (!args?.length) return '';
+  return `(${args.map(arg => `${arg.name}: ${arg.type}${arg.defaultValue !== undefined ? ` = ${arg.defaultValue}` : ''}`).join(', ')})`;
+}
+
+export function describeGraphqlField(field: GraphqlField): string {
+  return `${field.name}${describeArgs(field.args)}: ${field.type}${field.deprecated ? ' [deprecated]' : ''}${field.description ? ` - ${field.description}` : ''}`;
+}
+
+// Root fields (the available queries, mutations or subscriptions)
+export function rootFields(schema: GraphqlSchema, root: 'query' | 'mutation' | 'subscription'): GraphqlField[] {
+  const name = root === 'query' ? schema.queryType : root === 'mutation' ? schema.mutationType : schema.subscriptionType;
+  return (name && schema.types[name]?.fields) || [];
+}
+
+// Schema header for get_api: the root fields, without every type
+export function summarizeGraphqlSchema(schema: GraphqlSchema) {
+  const queries = rootFields(schema, 'query');
+  const mutations = rootFields(schema, 'mutation');
+  const subscriptions = rootFields(schema, 'subscription');
+  return {
+    introspectedAt: schema.introspectedAt,
+    typeCount: Object.keys(schema.types).length,
+    ...(queries.length ? { queries: queries.map(describeGraphqlField) } : {}),
+    ...(mutations.length ? { mutations: mutations.map(describeGraphqlField) } : {}),
+    ...(subscriptions.length ? { subscriptions: subscriptions.map(describeGraphqlField) } : {})
+  };
+}
+
+// A type in SDL-like form, for fetch
+export function describeGraphqlType(type: GraphqlType): string {
+  const lines = [`${type.kind} ${type.name}${type.description ? ` - ${type.description}` : ''}`];
+  for (const item of type.fields || []) lines.push(`  ${describeGraphqlField(item)}`);
+  for (const item of type.inputFields || []) {
+    lines.push(`  ${item.name}: ${item.type}${item.defaultValue !== undefined ? ` = ${item.defaultValue}` : ''}${item.description ? ` - ${item.description}` : ''}`);
+  }
+  if (type.enumValues) lines.push(`  ${type.enumValues.join(' | ')}`);
+  if (type.possibleTypes) lines.push(`  possible types: ${type.possibleTypes.join(', ')}`);
+  return lines.join('\n');
+}
+
+// Named types a type refers to through its fields, arguments and members
+export function referencedGraphqlTypes(schema: GraphqlSchema, type: GraphqlType): GraphqlType[] {
+  const names = new Set<string>();
+  const add = (ref: string) => names.add(ref.replace(/[[\]!]/g, ''));
+  for (const item of type.fields || []) {
+    add(item.type);
+    item.args?.forEach(arg => add(arg.type));
+  }
+  type.inputFields?.forEach(item => add(item.type));
+  type.possibleTypes?.forEach(add);
+  names.delete(type.name);
+  return [...names].map(name => schema.types[name]).filter((found): found is GraphqlType => !!found && found.kind !== 'SCALAR');
+}
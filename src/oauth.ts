@@ -0,0 +1,194 @@
+// OAuth2 access-token acquisition and caching for saved APIs
+
+export type OAuthAuthType = 'oauth2-client-credentials' | 'oauth2-refresh-token';
+
+// Plaintext grant parameters, resolved from the (encrypted) config right before use
+export interface OAuthGrant {
+  type: OAuthAuthType;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  scopes?: string[];
+  clientAuthentication?: 'basic' | 'body';
+}
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  obtainedAt: number;
+  expiresAt?: number;
+  scopes?: string[];
+}
+
+export interface OAuthTokenStatus {
+  hasToken: boolean;
+  tokenType?: string;
+  obtainedAt?: string;
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  scopes?: string[];
+  lastError?: string;
+}
+
+// Refresh this long before the server-side expiry to avoid racing it
+const EXPIRY_SKEW_MS = 60_000;
+
+export function isOAuthAuthType(type: string | undefined): type is OAuthAuthType {
+  return type === 'oauth2-client-credentials' || type === 'oauth2-refresh-token';
+}
+
+export class OAuthTokenManager {
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly pending = new Map<string, Promise<CachedToken>>();
+  private readonly errors = new Map<string, string>();
+
+  /**
+   * Return a valid access token for an API, fetching a new one when the cache
+   * is empty or about to expire. Concurrent callers share one token request.
+   * `onRefreshToken` is called when the server rotates the refresh token.
+   */
+  async getAccessToken(
+    apiName: string,
+    resolveGrant: () => OAuthGrant,
+    timeoutMs: number,
+    onRefreshToken?: (refreshToken: string) => void
+  ): Promise<{ accessToken: string, tokenType: string }> {
+    const cached = this.tokens.get(apiName);
+    if (cached && (!cached.expiresAt || cached.expiresAt - EXPIRY_SKEW_MS > Date.now())) {
+      return cached;
+    }
+
+    let request = this.pending.get(apiName);
+    if (!request) {
+      request = this.requestToken(resolveGrant(), timeoutMs, onRefreshToken)
+        .then((token) => {
+          this.tokens.set(apiName, token);
+          this.errors.delete(apiName);
+          return token;
+        })
+        .catch((error) => {
+          this.errors.set(apiName, error.message);
+          throw error;
+        })
+        .finally(() => this.pending.delete(apiName));
+      this.pending.set(apiName, request);
+    }
+    return request;
+  }
+
+  invalidate(apiName: string): void {
+    this.tokens.delete(apiName);
+  }
+
+  forget(apiName: string): void {
+    this.tokens.delete(apiName);
+    this.errors.delete(apiName);
+  }
+
+  // Token metadata for display; never includes the token itself
+  status(apiName: string): OAuthTokenStatus {
+    const token = this.tokens.get(apiName);
+    const lastError = this.errors.get(apiName);
+    if (!token) {
+      return { hasToken: false, ...(lastError ? { lastError } : {}) };
+    }
+    return {
+      hasToken: true,
+      tokenType: token.tokenType,
+      obtainedAt: new Date(token.obtainedAt).toISOString(),
+      ...(token.expiresAt ? {
+        expiresAt: new Date(token.expiresAt).toISOString(),
+        expiresInSeconds: Math.max(0, Math.round((token.expiresAt - Date.now()) / 1000))
+      } : {}),
+      ...(token.scopes ? { scopes: token.scopes } : {}),
+      ...(lastError ? { lastError } : {})
+    };
+  }
+
+  private async requestToken(
+    grant: OAuthGrant,
+    timeoutMs: number,
+    onRefreshToken?: (refreshToken: string) => void
+  ): Promise<CachedToken> {
+    const params = new URLSearchParams();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+
+    if (grant.type === 'oauth2-client-credentials') {
+      params.set('grant_type', 'client_credentials');
+    } else {
+      if (!grant.refreshToken) {
+        throw new Error("OAuth2 refresh-token auth requires a refreshToken");
+      }
+      params.set('grant_type', 'refresh_token');
+      params.set('refresh_token', grant.refreshToken);
+    }
+    if (grant.scopes && grant.scopes.length > 0) {
+      params.set('scope', grant.scopes.join(' '));
+    }
+
+    // client_secret_basic by default, client_secret_post when asked (or for public clients)
+    if (grant.clientSecret && grant.clientAuthentication !== 'body') {
+      const encoded = Buffer.from(
+        `${encodeURIComponent(grant.clientId)}:${encodeURIComponent(grant.clientSecret)}`
+      ).toString('base64');
+      headers['Authorization'] = `Basic ${encoded}`;
+    } else {
+      params.set('client_id', grant.clientId);
+      if (grant.clientSecret) params.set('client_secret', grant.clientSecret);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(grant.tokenUrl, {
+        method: 'POST',
+        headers,
+        body: params.toString(),
+        signal: controller.signal
+      });
+    } catch (error: any) {
+      throw new Error(error.name === 'AbortError'
+        ? `OAuth2 token request to ${grant.tokenUrl} timed out after ${timeoutMs}ms`
+        : `OAuth2 token request to ${grant.tokenUrl} failed: ${error.message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const text = await response.text();
+    let payload: any;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      // Some older providers answer with a form-encoded body
+      payload = Object.fromEntries(new URLSearchParams(text));
+    }
+
+    if (!response.ok || !payload.access_token) {
+      const reason = payload.error_description || payload.error || `HTTP ${response.status}`;
+      throw new Error(`OAuth2 token request to ${grant.tokenUrl} was rejected: ${reason}`);
+    }
+
+    if (payload.refresh_token && payload.refresh_token !== grant.refreshToken) {
+      onRefreshToken?.(payload.refresh_token);
+    }
+
+    const obtainedAt = Date.now();
+    const expiresIn = Number(payload.expires_in);
+    const scopes = typeof payload.scope === 'string'
+      ? payload.scope.split(' ').filter(Boolean)
+      : grant.scopes;
+
+    return {
+      accessToken: payload.access_token,
+      tokenType: payload.token_type || 'Bearer',
+      obtainedAt,
+      ...(Number.isFinite(expiresIn) && expiresIn > 0 ? { expiresAt: obtainedAt + expiresIn * 1000 } : {}),
+      ...(scopes ? { scopes } : {})
+    };
+  }
+}
@@ -0,0 +1,554 @@
+import { parse as parseYaml } from "yaml";
+import type {
+  ApiCatalog,
+  ApiCredentials,
+  ApiOperation,
+  ApiParameter,
+  AuthType,
+  JsonSchema
+} from "./types.js";
+
+// Import of OpenAPI 3.x / Swagger 2.0 documents into an ApiCatalog
+
+export interface OpenApiImport {
+  catalog: ApiCatalog;
+  baseUrl?: string;
+  description?: string;
+  auth?: {
+    type: AuthType;
+    credentials?: ApiCredentials;
+  };
+  warnings: string[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const SCHEMA_REF_PATTERN = /^#\/(?:components\/schemas|definitions)\/([^/]+)$/;
+const MAX_INLINE_DEPTH = 20;
+
+// Swagger 2 parameter keywords that describe the parameter's schema
+const SWAGGER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf'
+];
+
+// Documents are untrusted JSON/YAML: every node is read through these guards
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function strings(value: unknown): string[] {
+  return list(value).filter((item): item is string => typeof item === 'string');
+}
+
+const PARAMETER_LOCATIONS: ApiParameter['in'][] = ['path', 'query', 'header', 'cookie'];
+
+function parameterLocation(value: unknown): ApiParameter['in'] | undefined {
+  return PARAMETER_LOCATIONS.find(location => location === value);
+}
+
+// Accept JSON or YAML text
+export function parseSpecText(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    return JSON.parse(trimmed);
+  }
+  return parseYaml(trimmed);
+}
+
+function unescapePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolvePointer(document: unknown, ref: string): unknown {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`external reference ${ref} is not supported`);
+  }
+  return ref.slice(2).split('/').map(unescapePointer).reduce<unknown>((node, key) => {
+    if (typeof node !== 'object' || node === null || !(key in node)) {
+      throw new Error(`reference ${ref} cannot be resolved`);
+    }
+    return (node as Record<string, unknown>)[key];
+  }, document);
+}
+
+class SpecReader {
+  readonly warnings: string[] = [];
+
+  constructor(private readonly document: unknown) {}
+
+  // Follow $ref chains for parameters, request bodies and responses
+  deref(node: unknown): Record<string, unknown> {
+    let current = node;
+    for (let hops = 0; isRecord(current) && typeof current.$ref === 'string'; hops++) {
+      if (hops > 10) throw new Error(`reference loop at ${current.$ref}`);
+      current = resolvePointer(this.document, current.$ref);
+    }
+    return record(current);
+  }
+
+  /**
+   * Copy a schema, keeping references to named schemas as
+   * `#/components/schemas/Name` (Swagger `definitions` are rewritten) and
+   * inlining any other internal reference.
+   */
+  normalizeSchema(schema: unknown, depth = 0): JsonSchema | undefined {
+    if (!isRecord(schema)) return undefined;
+    if (depth > MAX_INLINE_DEPTH) return {};
+
+    if (typeof schema.$ref === 'string') {
+      const named = schema.$ref.match(SCHEMA_REF_PATTERN);
+      if (named) return { $ref: `#/components/schemas/${unescapePointer(named[1]!)}` };
+      try {
+        return this.normalizeSchema(resolvePointer(this.document, schema.$ref), depth + 1) ?? {};
+      } catch (error: any) {
+        this.warnings.push(`Schema ${error.message}`);
+        return {};
+      }
+    }
+
+    const copy: JsonSchema = {};
+    for (const [key, value] of Object.entries(schema)) {
+      // Swagger 2 spells nullable as an extension
+      copy[key === 'x-nullable' ? 'nullable' : key] = this.normalizeValue(value, depth + 1);
+    }
+    return copy;
+  }
+
+  // A keyword's value: a subschema, a list of them (allOf...) or a plain value
+  normalizeValue(value: unknown, depth = 0): unknown {
+    if (Array.isArray(value)) return value.map(item => this.normalizeValue(item, depth));
+    return isRecord(value) ? this.normalizeSchema(value, depth) : value;
+  }
+}
+
+// Prefer JSON media types when an operation offers several
+function pickMediaType(types: string[]): string | undefined {
+  return types.find(type => type === 'application/json')
+    || types.find(type => /[+/]json\b/.test(type))
+    || types[0];
+}
+
+function generateOperationId(method: string, path: string): string {
+  const slug = path
+    .replace(/\{([^}]+)\}/g, 'by_$1')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `${method}_${slug || 'root'}`;
+}
+
+function mergeParameters(pathLevel: ApiParameter[], operationLevel: ApiParameter[]): ApiParameter[] {
+  const merged = new Map<string, ApiParameter>();
+  for (const parameter of [...pathLevel, ...operationLevel]) {
+    merged.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  return Array.from(merged.values());
+}
+
+function substituteServerVariables(url: string, variables: unknown): string {
+  return url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const value = record(record(variables)[name]).default;
+    return value !== undefined ? String(value) : match;
+  });
+}
+
+function resolveAgainst(url: string, sourceUrl: string | undefined): string | undefined {
+  if (/^https?:\/\//i.test(url)) return url;
+  if (!sourceUrl) return undefined;
+  try {
+    return new URL(url, sourceUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// ---- Security scheme mapping ----
+
+function mapSecurityScheme(
+  name: string,
+  scheme: Record<string, unknown>,
+  baseUrl: string | undefined,
+  warnings: string[]
+): OpenApiImport['auth'] | undefined {
+  const type = String(scheme.type || '').toLowerCase();
+
+  if (type === 'http') {
+    const httpScheme = String(scheme.scheme || '').toLowerCase();
+    if (httpScheme === 'bearer') return { type: 'bearer' };
+    if (httpScheme === 'basic') return { type: 'basic' };
+  }
+  if (type === 'basic') return { type: 'basic' };
+
+  if (type === 'apikey') {
+    const headerName = optionalString(scheme.name);
+    if (scheme.in === 'header' && headerName) {
+      return { type: 'api-key', credentials: { headerName } };
+    }
+    warnings.push(`Security scheme "${name}" sends its API key in the ${String(scheme.in)}, which is not supported; append it to the endpoint manually`);
+    return undefined;
+  }
+
+  if (type === 'oauth2') {
+    const resolveTokenUrl = (tokenUrl: string | undefined) =>
+      tokenUrl ? resolveAgainst(tokenUrl, baseUrl) || tokenUrl : undefined;
+    const withTokenUrl = (authType: AuthType, tokenUrl: unknown, scopes: unknown) => {
+      const credentials: ApiCredentials = {};
+      const resolved = resolveTokenUrl(optionalString(tokenUrl));
+      if (resolved) credentials.tokenUrl = resolved;
+      const scopeNames = Object.keys(record(scopes));
+      if (scopeNames.length > 0) credentials.scopes = scopeNames;
+      return { type: authType, credentials };
+    };
+
+    // OpenAPI 3 flows
+    const flows = record(scheme.flows);
+    if (isRecord(flows.clientCredentials)) {
+      return withTokenUrl('oauth2-client-credentials', flows.clientCredentials.tokenUrl, flows.clientCredentials.scopes);
+    }
+    const userFlow = [flows.authorizationCode, flows.password].find(isRecord);
+    if (userFlow) {
+      return withTokenUrl('oauth2-refresh-token', userFlow.tokenUrl || userFlow.refreshUrl, userFlow.scopes);
+    }
+    // Swagger 2 flows
+    if (scheme.flow === 'application') {
+      return withTokenUrl('oauth2-client-credentials', scheme.tokenUrl, scheme.scopes);
+    }
+    if (scheme.flow === 'accessCode' || scheme.flow === 'password') {
+      return withTokenUrl('oauth2-refresh-token', scheme.tokenUrl, scheme.scopes);
+    }
+    warnings.push(`OAuth2 security scheme "${name}" only offers the implicit flow, which is not supported`);
+    return undefined;
+  }
+
+  warnings.push(`Security scheme "${name}" of type ${optionalString(scheme.type) || 'unknown'} is not supported`);
+  return undefined;
+}
+
+function pickAuth(
+  document: Record<string, unknown>,
+  schemes: Record<string, Record<string, unknown>>,
+  baseUrl: string | undefined,
+  warnings: string[]
+): OpenApiImport['auth'] | undefined {
+  if (Object.keys(schemes).length === 0) return undefined;
+
+  // Schemes required at the top level first, then whatever else is declared
+  const required = list(document.security).flatMap(requirement => Object.keys(record(requirement)));
+  const candidates = [...new Set([...required, ...Object.keys(schemes)])];
+
+  for (const name of candidates) {
+    const scheme = schemes[name];
+    if (!scheme) continue;
+    const auth = mapSecurityScheme(name, scheme, baseUrl, warnings);
+    if (auth) return auth;
+  }
+  return undefined;
+}
+
+function readSecuritySchemes(schemes: unknown, reader: SpecReader): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(Object.entries(record(schemes)).map(([name, scheme]) => [name, reader.deref(scheme)]));
+}
+
+// ---- OpenAPI 3.x ----
+
+function readOpenApi3(document: Record<string, unknown>, reader: SpecReader, sourceUrl: string | undefined) {
+  const warnings = reader.warnings;
+  const server = record(list(document.servers)[0]);
+  const serverUrl = optionalString(server.url);
+  let baseUrl: string | undefined;
+  if (serverUrl) {
+    baseUrl = resolveAgainst(substituteServerVariables(serverUrl, server.variables), sourceUrl);
+    if (!baseUrl) warnings.push(`Server URL "${serverUrl}" is relative and no source URL is known; pass baseUrl explicitly`);
+  }
+
+  const toParameter = (raw: unknown): ApiParameter[] => {
+    const parameter = reader.deref(raw);
+    const name = optionalString(parameter.name);
+    const location = parameterLocation(parameter.in);
+    if (!name || !location) return [];
+    const description = optionalString(parameter.description);
+    const schema = reader.normalizeSchema(parameter.schema);
+    return [{
+      name,
+      in: location,
+      required: location === 'path' ? true : !!parameter.required,
+      ...(description ? { description } : {}),
+      ...(schema ? { schema } : {})
+    }];
+  };
+
+  const operations: ApiOperation[] = [];
+  for (const [path, rawPathItem] of Object.entries(record(document.paths))) {
+    const pathItem = reader.deref(rawPathItem);
+    const pathParameters = list(pathItem.parameters).flatMap(toParameter);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isRecord(operation)) continue;
+
+      const parameters = mergeParameters(pathParameters, list(operation.parameters).flatMap(toParameter));
+
+      let requestBody: ApiOperation['requestBody'];
+      if (operation.requestBody) {
+        const body = reader.deref(operation.requestBody);
+        const content = record(body.content);
+        const contentType = pickMediaType(Object.keys(content));
+        if (contentType) {
+          const schema = reader.normalizeSchema(record(content[contentType]).schema);
+          requestBody = { required: !!body.required, contentType, ...(schema ? { schema } : {}) };
+        }
+      }
+
+      const responses: ApiOperation['responses'] = {};
+      for (const [status, rawResponse] of Object.entries(record(operation.responses))) {
+        const response = reader.deref(rawResponse);
+        const content = record(response.content);
+        const contentType = pickMediaType(Object.keys(content));
+        const schema = contentType ? reader.normalizeSchema(record(content[contentType]).schema) : undefined;
+        const description = optionalString(response.description);
+        responses[status] = {
+          ...(description ? { description } : {}),
+          ...(contentType ? { contentType } : {}),
+          ...(schema ? { schema } : {})
+        };
+      }
+
+      operations.push(buildOperation(method, path, operation, parameters, requestBody, responses));
+    }
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  const components = record(document.components);
+  for (const [name, schema] of Object.entries(record(components.schemas))) {
+    schemas[name] = reader.normalizeSchema(schema) || {};
+  }
+
+  return { baseUrl, operations, schemas, securitySchemes: readSecuritySchemes(components.securitySchemes, reader) };
+}
+
+// ---- Swagger 2.0 ----
+
+function readSwagger2(document: Record<string, unknown>, reader: SpecReader, sourceUrl: string | undefined) {
+  const warnings = reader.warnings;
+  let baseUrl: string | undefined;
+  const source = sourceUrl ? new URL(sourceUrl) : undefined;
+  const host = optionalString(document.host) || source?.host;
+  if (host) {
+    const schemes = strings(document.schemes);
+    const scheme = (schemes.includes('https') ? 'https' : schemes[0])
+      || source?.protocol.replace(':', '')
+      || 'https';
+    baseUrl = `${scheme}://${host}${optionalString(document.basePath) || ''}`.replace(/\/$/, '');
+  } else {
+    warnings.push("Swagger document has no host and no source URL is known; pass baseUrl explicitly");
+  }
+
+  const globalConsumes = strings(document.consumes);
+  const globalProduces = strings(document.produces);
+
+  // Body and formData parameters are not ApiParameters; the request body covers them
+  const toParameter = (parameter: Record<string, unknown>): ApiParameter | undefined => {
+    const name = optionalString(parameter.name);
+    const location = parameterLocation(parameter.in);
+    if (!name || !location || location === 'cookie') return undefined;
+    const schema: JsonSchema = {};
+    for (const key of SWAGGER_SCHEMA_KEYS) {
+      if (parameter[key] !== undefined) schema[key] = reader.normalizeValue(parameter[key]);
+    }
+    const description = optionalString(parameter.description);
+    return {
+      name,
+      in: location,
+      required: location === 'path' ? true : !!parameter.required,
+      ...(description ? { description } : {}),
+      ...(Object.keys(schema).length > 0 ? { schema } : {})
+    };
+  };
+
+  const operations: ApiOperation[] = [];
+  for (const [path, rawPathItem] of Object.entries(record(document.paths))) {
+    const pathItem = reader.deref(rawPathItem);
+    const pathRawParameters = list(pathItem.parameters).map(p => reader.deref(p));
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isRecord(operation)) continue;
+
+      // Operation parameters override path parameters with the same name/location
+      const rawParameters = new Map<string, Record<string, unknown> & { name: string }>();
+      for (const parameter of [...pathRawParameters, ...list(operation.parameters).map(p => reader.deref(p))]) {
+        const name = optionalString(parameter.name);
+        if (name && parameter.in) rawParameters.set(`${String(parameter.in)}:${name}`, { ...parameter, name });
+      }
+      const allParameters = Array.from(rawParameters.values());
+      const parameters = allParameters.flatMap(parameter => toParameter(parameter) ?? []);
+
+      const consumes = Array.isArray(operation.consumes) ? strings(operation.consumes) : globalConsumes;
+      let requestBody: ApiOperation['requestBody'];
+      const bodyParameter = allParameters.find(p => p.in === 'body');
+      const formParameters = allParameters.filter(p => p.in === 'formData');
+      if (bodyParameter) {
+        const schema = reader.normalizeSchema(bodyParameter.schema);
+        requestBody = {
+          required: !!bodyParameter.required,
+          contentType: pickMediaType(consumes) || 'application/json',
+          ...(schema ? { schema } : {})
+        };
+      } else if (formParameters.length > 0) {
+        const hasFile = formParameters.some(p => p.type === 'file');
+        const properties: Record<string, JsonSchema> = {};
+        for (const parameter of formParameters) {
+          properties[parameter.name] = parameter.type === 'file'
+            ? { type: 'string', format: 'binary' }
+            : toParameter({ ...parameter, in: 'query' })?.schema || {};
+        }
+        const required = formParameters.filter(p => p.required).map(p => p.name);
+        requestBody = {
+          required: required.length > 0,
+          contentType: hasFile || consumes.includes('multipart/form-data')
+            ? 'multipart/form-data'
+            : 'application/x-www-form-urlencoded',
+          schema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+        };
+      }
+
+      const produces = Array.isArray(operation.produces) ? strings(operation.produces) : globalProduces;
+      const responses: ApiOperation['responses'] = {};
+      for (const [status, rawResponse] of Object.entries(record(operation.responses))) {
+        const response = reader.deref(rawResponse);
+        const schema = reader.normalizeSchema(response.schema);
+        const contentType = schema ? pickMediaType(produces) || 'application/json' : undefined;
+        const description = optionalString(response.description);
+        responses[status] = {
+          ...(description ? { description } : {}),
+          ...(contentType ? { contentType } : {}),
+          ...(schema ? { schema } : {})
+        };
+      }
+
+      operations.push(buildOperation(method, path, operation, parameters, requestBody, responses));
+    }
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(record(document.definitions))) {
+    schemas[name] = reader.normalizeSchema(schema) || {};
+  }
+
+  return { baseUrl, operations, schemas, securitySchemes: readSecuritySchemes(document.securityDefinitions, reader) };
+}
+
+function buildOperation(
+  method: string,
+  path: string,
+  operation: Record<string, unknown>,
+  parameters: ApiParameter[],
+  requestBody: ApiOperation['requestBody'],
+  responses: ApiOperation['responses']
+): ApiOperation {
+  const summary = optionalString(operation.summary);
+  const description = optionalString(operation.description);
+  const tags = strings(operation.tags);
+  return {
+    operationId: optionalString(operation.operationId) || generateOperationId(method, path),
+    method: method.toUpperCase(),
+    path,
+    ...(summary ? { summary } : {}),
+    ...(description ? { description } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(operation.deprecated ? { deprecated: true } : {}),
+    parameters,
+    ...(requestBody ? { requestBody } : {}),
+    responses
+  };
+}
+
+// Two operations may not share an id; later duplicates get a numeric suffix
+function dedupeOperationIds(operations: ApiOperation[]): void {
+  const seen = new Map<string, number>();
+  for (const operation of operations) {
+    const count = seen.get(operation.operationId) || 0;
+    seen.set(operation.operationId, count + 1);
+    if (count > 0) operation.operationId = `${operation.operationId}_${count + 1}`;
+  }
+}
+
+export function importOpenApiDocument(document: unknown, sourceUrl?: string): OpenApiImport {
+  if (!isRecord(document)) {
+    throw new Error("Spec is not a JSON/YAML object");
+  }
+
+  const isOpenApi3 = typeof document.openapi === 'string' && document.openapi.startsWith('3.');
+  const isSwagger2 = String(document.swagger) === '2.0';
+  if (!isOpenApi3 && !isSwagger2) {
+    throw new Error(`Unsupported spec version: expected "openapi: 3.x" or "swagger: 2.0", got ${String(document.openapi || document.swagger || 'none')}`);
+  }
+
+  const reader = new SpecReader(document);
+  const { baseUrl, operations, schemas, securitySchemes } = isOpenApi3
+    ? readOpenApi3(document, reader, sourceUrl)
+    : readSwagger2(document, reader, sourceUrl);
+  dedupeOperationIds(operations);
+
+  const auth = pickAuth(document, securitySchemes, baseUrl, reader.warnings);
+
+  const info = record(document.info);
+  const title = optionalString(info.title);
+  const catalog: ApiCatalog = {
+    format: isOpenApi3 ? 'openapi' : 'swagger',
+    specVersion: String(document.openapi || document.swagger),
+    ...(title ? { title } : {}),
+    ...(info.version ? { version: String(info.version) } : {}),
+    ...(sourceUrl ? { sourceUrl } : {}),
+    importedAt: new Date().toISOString(),
+    operations,
+    schemas
+  };
+
+  const description = optionalString(info.description) || title;
+  return {
+    catalog,
+    ...(baseUrl ? { baseUrl } : {}),
+    ...(description ? { description: description.split('\n')[0]! } : {}),
+    ...(auth ? { auth } : {}),
+    warnings: reader.warnings
+  };
+}
+
+// Named schemas an operation refers to, followed transitively
+export function referencedSchemas(operation: ApiOperation, schemas: Record<string, JsonSchema>): Record<string, JsonSchema> {
+  const found: Record<string, JsonSchema> = {};
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!isRecord(node)) return;
+    const named = typeof node.$ref === 'string' ? node.$ref.match(SCHEMA_REF_PATTERN) : null;
+    if (named) {
+      const name = named[1]!;
+      if (!(name in found) && schemas[name]) {
+        found[name] = schemas[name];
+        visit(schemas[name]);
+      }
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+
+  operation.parameters.forEach(parameter => visit(parameter.schema));
+  visit(operation.requestBody?.schema);
+  Object.values(operation.responses).forEach(response => visit(response.schema));
+  return found;
+}
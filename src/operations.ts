@@ -0,0 +1,176 @@
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import type { ApiCatalog, ApiConfig, ApiOperation, ApiParameter, BodyType, HttpMethod, JsonSchema } from "./types.js";
+
+// Typed MCP tools generated from an API's operation catalog (opt-in per API)
+
+export interface OperationCall {
+  endpoint: string;
+  method: HttpMethod;
+  queryParams?: Record<string, any>;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodyType?: BodyType;
+}
+
+export interface OperationTool {
+  name: string;
+  description: string;
+  inputShape: ZodRawShape;
+  toCall: (args: Record<string, any>) => OperationCall;
+}
+
+const SUPPORTED_METHODS: readonly string[] = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+// MCP clients commonly reject longer tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+// $ref chains deeper than this become z.any() rather than recursing forever
+const MAX_SCHEMA_DEPTH = 4;
+
+export function operationToolName(apiName: string, operationId: string): string {
+  return `${apiName}__${operationId}`
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+// Best-effort JSON Schema to Zod conversion; anything exotic is left to request validation
+function schemaToZod(schema: JsonSchema | undefined, catalog: ApiCatalog, depth = 0): ZodTypeAny {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) return z.any();
+
+  const named = typeof schema.$ref === 'string' ? schema.$ref.match(/^#\/components\/schemas\/(.+)$/) : null;
+  if (named) {
+    const target = catalog.schemas[named[1]!];
+    return target ? schemaToZod(target, catalog, depth + 1) : z.any();
+  }
+
+  let type: ZodTypeAny;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every((value: unknown) => typeof value === 'string')) {
+    type = z.enum(schema.enum as [string, ...string[]]);
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = z.string();
+        break;
+      case 'integer':
+        type = z.number().int();
+        break;
+      case 'number':
+        type = z.number();
+        break;
+      case 'boolean':
+        type = z.boolean();
+        break;
+      case 'array':
+        type = z.array(schemaToZod(schema.items, catalog, depth + 1));
+        break;
+      case 'object': {
+        const properties: Record<string, JsonSchema> = schema.properties || {};
+        if (Object.keys(properties).length === 0) {
+          type = z.record(z.any());
+          break;
+        }
+        const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+        const shape: ZodRawShape = {};
+        for (const [name, property] of Object.entries(properties)) {
+          const field = schemaToZod(property, catalog, depth + 1);
+          shape[name] = required.includes(name) ? field : field.optional();
+        }
+        type = z.object(shape).passthrough();
+        break;
+      }
+      default:
+        type = z.any();
+    }
+  }
+
+  if (schema.nullable) type = type.nullable();
+  const description = [schema.description, schema.format && `format: ${schema.format}`].filter(Boolean).join(' - ');
+  return description ? type.describe(description) : type;
+}
+
+function describeParameter(parameter: ApiParameter): string {
+  return `${parameter.in} parameter${parameter.description ? `: ${parameter.description}` : ''}`;
+}
+
+function buildOperationTool(config: ApiConfig, catalog: ApiCatalog, operation: ApiOperation): OperationTool {
+  const inputShape: ZodRawShape = {};
+  // Input property name -> where the value goes in the request
+  const bindings = new Map<string, { in: ApiParameter['in'] | 'body', name: string }>();
+
+  for (const parameter of operation.parameters) {
+    if (parameter.in === 'cookie') continue;
+    // The same name can appear in two locations (id in path and query)
+    const key = inputShape[parameter.name] ? `${parameter.in}_${parameter.name}` : parameter.name;
+    const field = schemaToZod(parameter.schema, catalog).describe(describeParameter(parameter));
+    inputShape[key] = parameter.required ? field : field.optional();
+    bindings.set(key, { in: parameter.in, name: parameter.name });
+  }
+
+  if (operation.requestBody) {
+    const key = inputShape.body ? 'requestBody' : 'body';
+    const field = schemaToZod(operation.requestBody.schema, catalog)
+      .describe(`Request body (${operation.requestBody.contentType})`);
+    inputShape[key] = operation.requestBody.required ? field : field.optional();
+    bindings.set(key, { in: 'body', name: key });
+  }
+
+  // The operation's media type picks the encoding; anything unrecognised is sent as JSON
+  const bodyType = bodyTypeFor(operation.requestBody?.contentType);
+
+  const summary = operation.summary || operation.description?.split('\n')[0] || operation.operationId;
+  const description = `${summary} (${operation.method} ${operation.path} on API "${config.name}")${operation.deprecated ? ' [deprecated]' : ''}`;
+
+  return {
+    name: operationToolName(config.name, operation.operationId),
+    description,
+    inputShape,
+    toCall: (args) => {
+      let endpoint = operation.path;
+      const queryParams: Record<string, any> = {};
+      const headers: Record<string, string> = {};
+      let body: unknown;
+
+      for (const [key, value] of Object.entries(args)) {
+        const binding = bindings.get(key);
+        if (!binding || value === undefined) continue;
+        switch (binding.in) {
+          case 'path':
+            endpoint = endpoint.split(`{${binding.name}}`).join(encodeURIComponent(String(value)));
+            break;
+          case 'query':
+            queryParams[binding.name] = value;
+            break;
+          case 'header':
+            headers[binding.name] = String(value);
+            break;
+          case 'body':
+            body = value;
+            break;
+        }
+      }
+
+      return {
+        endpoint,
+        method: operation.method as HttpMethod,
+        ...(Object.keys(queryParams).length > 0 ? { queryParams } : {}),
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        ...(body !== undefined ? { body } : {}),
+        ...(body !== undefined && bodyType ? { bodyType } : {})
+      };
+    }
+  };
+}
+
+function bodyTypeFor(contentType: string | undefined): BodyType | undefined {
+  if (contentType === 'application/x-www-form-urlencoded') return 'form';
+  if (contentType === 'multipart/form-data') return 'multipart';
+  if (contentType?.startsWith('text/')) return 'text';
+  return undefined;
+}
+
+// Tools for every operation make_request can send, or none unless the API opted in
+export function buildOperationTools(config: ApiConfig): OperationTool[] {
+  const catalog = config.catalog;
+  if (!config.operationTools || !catalog) return [];
+  return catalog.operations
+    .filter(operation => SUPPORTED_METHODS.includes(operation.method))
+    .map(operation => buildOperationTool(config, catalog, operation));
+}
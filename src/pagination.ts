@@ -0,0 +1,226 @@
+import { compact } from "./retry.js";
+import { readJsonPath } from "./session.js";
+import type { PaginationOptions } from "./types.js";
+
+// Automatic pagination for make_request: follow Link headers, body cursors,
+// offset/limit or page numbers, and merge every page's items into one result
+
+export const DEFAULT_PAGINATION_OPTIONS: PaginationOptions = {
+  style: 'link',
+  cursorParam: 'cursor',
+  offsetParam: 'offset',
+  pageParam: 'page',
+  limitParam: 'limit',
+  maxPages: 10,
+  maxItems: 1000
+};
+
+export type PaginationOverrides = { [K in keyof PaginationOptions]?: PaginationOptions[K] | undefined };
+
+export interface PaginationSummary {
+  style: PaginationOptions['style'];
+  pages: number;
+  items: number;
+  stopped: string;
+  truncated?: boolean;
+  // Endpoint of the first page that was not fetched, to continue with another make_request
+  nextEndpoint?: string;
+}
+
+// Property names tried, in order, when the items array has to be found automatically
+const ITEM_ARRAY_NAMES = ['data', 'items', 'results', 'records', 'values', 'entries', 'nodes'];
+
+/**
+ * Options for one call: `false` turns pagination off, `true` uses the API's
+ * defaults, an object overrides them. Without a call option the API default applies.
+ */
+export function resolvePagination(
+  apiDefault: Partial<PaginationOptions> | undefined,
+  option: boolean | PaginationOverrides | undefined
+): PaginationOptions | undefined {
+  if (option === false || (option === undefined && !apiDefault)) return undefined;
+  const overrides = typeof option === 'object' ? compact(option) : {};
+  // A cursor path alone is enough to pick the cursor style
+  const style = overrides.style || apiDefault?.style || (overrides.cursorPath || apiDefault?.cursorPath ? 'cursor' : 'link');
+  const options = { ...DEFAULT_PAGINATION_OPTIONS, ...apiDefault, ...overrides, style };
+  if (options.style === 'cursor' && !options.cursorPath) {
+    throw new Error("Cursor pagination requires cursorPath (where the next cursor is in the response body)");
+  }
+  return options;
+}
+
+// Ask for the configured page size on the first page unless the caller already did
+export function withPageSize(options: PaginationOptions, queryParams: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!options.pageSize || queryParams?.[options.limitParam] !== undefined) return queryParams;
+  return { ...queryParams, [options.limitParam]: options.pageSize };
+}
+
+// RFC 8288 (formerly 5988) Link header: <url>; rel="next", <url>; rel="last"
+export function parseLinkHeader(value: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const match of (value || '').matchAll(/<([^>]*)>\s*((?:;\s*[^;,]+)*)/g)) {
+    const rel = match[2]?.match(/rel\s*=\s*"?([^";]+)"?/i)?.[1];
+    if (!rel) continue;
+    for (const name of rel.toLowerCase().split(/\s+/)) {
+      links[name] ??= match[1]!;
+    }
+  }
+  return links;
+}
+
+// Endpoint for make_request when the URL lives under the API's base URL
+export function relativeEndpoint(baseUrl: string, url: string): string | undefined {
+  const base = baseUrl.replace(/\/$/, '');
+  if (!url.startsWith(base)) return undefined;
+  const rest = url.slice(base.length);
+  return rest.startsWith('/') ? rest : `/${rest}`;
+}
+
+function locateItems(body: unknown, itemsPath: string | undefined): string | undefined {
+  if (itemsPath !== undefined) return Array.isArray(readJsonPath(body, itemsPath)) ? itemsPath : undefined;
+  if (Array.isArray(body)) return '';
+  if (!body || typeof body !== 'object') return undefined;
+
+  const record = body as Record<string, unknown>;
+  const known = ITEM_ARRAY_NAMES.find(name => Array.isArray(record[name]));
+  if (known) return known;
+  const arrays = Object.keys(record).filter(name => Array.isArray(record[name]));
+  return arrays.length === 1 ? arrays[0] : undefined;
+}
+
+// Copy of the first page with its items array replaced by every merged item
+function replaceAt(body: any, path: string, items: unknown[]): any {
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  if (keys.length === 0) return items;
+  const [key, ...rest] = keys;
+  const copy = Array.isArray(body) ? [...body] : { ...body };
+  copy[key!] = replaceAt(body?.[key!], rest.join('.'), items);
+  return copy;
+}
+
+export class Paginator {
+  private readonly items: unknown[] = [];
+  private pages = 0;
+  private itemsPath: string | undefined;
+  private firstBody: unknown;
+  private stopped: string | undefined;
+  private truncated = false;
+  private nextUrl: string | undefined;
+  private offset: number;
+  private page: number;
+
+  constructor(private readonly options: PaginationOptions, private readonly baseUrl: string, firstUrl: string) {
+    const params = new URL(firstUrl).searchParams;
+    this.offset = Number(params.get(options.offsetParam)) || 0;
+    this.page = Number(params.get(options.pageParam) ?? 1);
+  }
+
+  /**
+   * Record a fetched page and return the URL of the next one, or undefined
+   * once there is nothing more to fetch or a limit was reached.
+   */
+  addPage(url: string, headers: Headers, body: unknown): string | undefined {
+    this.pages++;
+    if (this.pages === 1) {
+      this.firstBody = body;
+      this.itemsPath = locateItems(body, this.options.itemsPath);
+      if (this.itemsPath === undefined) {
+        this.stopped = 'no items array found in the response (set itemsPath)';
+        return undefined;
+      }
+    }
+
+    const found = readJsonPath(body, this.itemsPath!);
+    const pageItems: unknown[] = Array.isArray(found) ? found : [];
+    const room = this.options.maxItems - this.items.length;
+    this.items.push(...pageItems.slice(0, room));
+    if (pageItems.length > room) {
+      this.truncated = true;
+      this.stopped = `maxItems (${this.options.maxItems}) reached`;
+      return undefined;
+    }
+
+    const next = this.nextPageUrl(url, headers, body, pageItems.length);
+    if (!next) return undefined;
+    if (next === url) {
+      this.stopped = 'next page is the same as the current one';
+      return undefined;
+    }
+    if (this.items.length >= this.options.maxItems) {
+      this.stopped = `maxItems (${this.options.maxItems}) reached`;
+      this.nextUrl = next;
+      return undefined;
+    }
+    if (this.pages >= this.options.maxPages) {
+      this.stopped = `maxPages (${this.options.maxPages}) reached`;
+      this.nextUrl = next;
+      return undefined;
+    }
+    return next;
+  }
+
+  // A later page failed; what was fetched so far is still returned
+  fail(url: string, reason: string): void {
+    this.stopped = `page ${this.pages + 1} ${reason}`;
+    this.nextUrl = url;
+  }
+
+  body(): unknown {
+    return this.itemsPath === undefined ? this.firstBody : replaceAt(this.firstBody, this.itemsPath, this.items);
+  }
+
+  summary(): PaginationSummary {
+    const nextEndpoint = this.nextUrl ? relativeEndpoint(this.baseUrl, this.nextUrl) : undefined;
+    return {
+      style: this.options.style,
+      pages: this.pages,
+      items: this.items.length,
+      stopped: this.stopped || 'last page',
+      ...(this.truncated ? { truncated: true } : {}),
+      ...(nextEndpoint ? { nextEndpoint } : {})
+    };
+  }
+
+  private nextPageUrl(url: string, headers: Headers, body: unknown, pageItemCount: number): string | undefined {
+    const { options } = this;
+    switch (options.style) {
+      case 'link': {
+        const next = parseLinkHeader(headers.get('link')).next;
+        return next ? this.sameOrigin(new URL(next, url).toString()) : undefined;
+      }
+      case 'cursor': {
+        const cursor = readJsonPath(body, options.cursorPath!);
+        if (cursor === undefined || cursor === null || cursor === '' || cursor === false) return undefined;
+        // Some APIs hand out the whole next-page URL instead of a cursor
+        if (typeof cursor === 'string' && /^https?:\/\//i.test(cursor)) return this.sameOrigin(cursor);
+        return this.withParam(url, options.cursorParam, String(cursor));
+      }
+      case 'offset':
+        if (this.isLastPage(pageItemCount)) return undefined;
+        this.offset += pageItemCount;
+        return this.withParam(url, options.offsetParam, String(this.offset));
+      case 'page':
+        if (this.isLastPage(pageItemCount)) return undefined;
+        this.page += 1;
+        return this.withParam(url, options.pageParam, String(this.page));
+    }
+  }
+
+  // An empty or short page is the last one
+  private isLastPage(pageItemCount: number): boolean {
+    return pageItemCount === 0 || (!!this.options.pageSize && pageItemCount < this.options.pageSize);
+  }
+
+  private withParam(url: string, name: string, value: string): string {
+    const next = new URL(url);
+    next.searchParams.set(name, value);
+    return next.toString();
+  }
+
+  // Credentials are attached to every page, so never follow a link to another host
+  private sameOrigin(url: string): string | undefined {
+    if (new URL(url).origin === new URL(this.baseUrl).origin) return url;
+    this.stopped = `next page is on another host (${new URL(url).origin}), not followed`;
+    return undefined;
+  }
+}
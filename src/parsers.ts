@@ -0,0 +1,172 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+// Parsers for text formats the model can't use well as raw text: XML becomes a
+// JSON tree, CSV an array of row objects and NDJSON an array of values
+
+export type TextFormat = 'xml' | 'csv' | 'ndjson';
+
+export const DEFAULT_MAX_ROWS = 1000;
+
+export interface ParseOptions {
+  // CSV: whether the first row holds the column names; detected when unset
+  header?: boolean | undefined;
+  // CSV: detected from the first line when unset
+  delimiter?: string | undefined;
+  // CSV rows / NDJSON lines kept
+  maxRows?: number | undefined;
+}
+
+// How a text body was parsed, reported next to the body
+export interface ParseSummary {
+  format: TextFormat;
+  rows?: number;
+  totalRows?: number;
+  truncated?: boolean;
+  columns?: string[];
+  delimiter?: string;
+}
+
+export interface ParsedText {
+  body: unknown;
+  summary: ParseSummary;
+}
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  textNodeName: '#text',
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  // Keep values as written: "007" or "1e3" are not numbers to a SOAP schema
+  parseTagValue: false,
+  parseAttributeValue: false
+});
+
+export function parseXml(text: string): ParsedText {
+  const valid = XMLValidator.validate(text);
+  if (valid !== true) {
+    throw new Error(`Response body is not valid XML (line ${valid.err.line}: ${valid.err.msg})`);
+  }
+  return { body: xmlParser.parse(text), summary: { format: 'xml' } };
+}
+
+export function parseNdjson(text: string, options: ParseOptions = {}): ParsedText {
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+  const lines = text.split(/\r?\n/);
+  const rows: unknown[] = [];
+  let totalRows = 0;
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    totalRows++;
+    if (rows.length >= maxRows) return;
+    try {
+      rows.push(JSON.parse(line));
+    } catch (error: any) {
+      throw new Error(`Response body is not valid NDJSON (line ${index + 1}: ${error.message})`);
+    }
+  });
+  return { body: rows, summary: tableSummary('ndjson', rows.length, totalRows) };
+}
+
+// RFC 4180 records: quoted fields may hold delimiters, quotes ("") and line breaks
+function csvRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const character = text[index]!;
+    if (quoted) {
+      if (character !== '"') {
+        field += character;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (character === '"' && field === '') {
+      quoted = true;
+    } else if (character === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += character;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines are not rows
+  return records.filter(row => row.length > 1 || row[0] !== '');
+}
+
+// The candidate that splits the first line into the most fields
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// A header row has distinct, non-empty, non-numeric cells; data rows rarely do
+function looksLikeHeader(first: string[]): boolean {
+  const names = first.map(cell => cell.trim());
+  return names.every(name => name !== '' && Number.isNaN(Number(name))) && new Set(names).size === names.length;
+}
+
+export function parseCsv(text: string, options: ParseOptions = {}): ParsedText {
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+  const delimiter = options.delimiter || detectDelimiter(text);
+  const records = csvRecords(text.replace(/^\uFEFF/, ''), delimiter);
+  const header = records.length > 0 && (options.header ?? looksLikeHeader(records[0]!));
+
+  const width = records.reduce((widest, record) => Math.max(widest, record.length), 0);
+  const columns = header
+    ? records[0]!.map((name, index) => name.trim() || `column${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `column${index + 1}`);
+  const dataRows = header ? records.slice(1) : records;
+
+  const rows = dataRows.slice(0, maxRows).map(record => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = record[index] ?? '';
+    });
+    // Cells beyond the header are kept rather than dropped
+    for (let index = columns.length; index < record.length; index++) {
+      row[`column${index + 1}`] = record[index]!;
+    }
+    return row;
+  });
+
+  return {
+    body: rows,
+    summary: { ...tableSummary('csv', rows.length, dataRows.length), columns, delimiter }
+  };
+}
+
+function tableSummary(format: TextFormat, rows: number, totalRows: number): ParseSummary {
+  return {
+    format,
+    rows,
+    ...(totalRows > rows ? { totalRows, truncated: true } : {})
+  };
+}
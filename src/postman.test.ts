@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportPostmanCollection, importPostmanCollection } from "./postman.js";
+import type { ApiConfig } from "./types.js";
+
+const createdAt = '2026-01-01T00:00:00.000Z';
+
+const shop: ApiConfig = {
+  name: 'shop',
+  baseUrl: 'https://api.shop.example.com',
+  createdAt,
+  auth: { type: 'bearer', credentials: { token: 'stored-token' } },
+  headers: { 'X-Api-Key': 'literal-key', Accept: 'application/json' },
+  environments: {
+    prod: {
+      baseUrl: 'https://prod.shop.example.com',
+      variables: { tenant: 'acme', signingKey: 'plain-secret' },
+      secretVariables: ['signingKey']
+    }
+  },
+  collections: {
+    orders: {
+      requests: {
+        get: {
+          name: 'get',
+          method: 'GET',
+          endpoint: '/orders/{{orderId}}',
+          queryParams: { expand: '{{expand}}' },
+          parameters: [{ name: 'orderId', required: true }, { name: 'expand', required: true }],
+          createdAt
+        },
+        create: {
+          name: 'create',
+          method: 'POST',
+          endpoint: '/orders',
+          body: { sku: '{{sku}}', qty: 1 },
+          parameters: [{ name: 'sku', required: true }],
+          createdAt
+        }
+      }
+    }
+  }
+};
+
+function roundTrip(config: ApiConfig) {
+  const exported = exportPostmanCollection(config, [], false);
+  return { exported, imported: importPostmanCollection(exported.collection, exported.environments, undefined) };
+}
+
+describe("Postman export and import", () => {
+  it("keeps saved requests, the base URL and the auth type", () => {
+    const { exported, imported } = roundTrip(shop);
+    assert.equal(exported.requestCount, 2);
+    assert.equal(imported.baseUrl, shop.baseUrl);
+    assert.equal(imported.auth?.type, 'bearer');
+
+    const requests = imported.collections.orders!.requests;
+    assert.equal(requests.get!.method, 'GET');
+    assert.equal(requests.get!.endpoint, '/orders/{{orderId}}');
+    assert.deepEqual(requests.get!.queryParams, { expand: '{{expand}}' });
+    assert.equal(requests.create!.method, 'POST');
+    assert.deepEqual(requests.create!.body, { sku: '{{sku}}', qty: 1 });
+    assert.deepEqual(requests.create!.parameters.filter(parameter => parameter.required).map(parameter => parameter.name), ['sku']);
+  });
+
+  it("never exports credentials or credential headers", () => {
+    const { exported, imported } = roundTrip(shop);
+    const text = JSON.stringify(exported);
+    assert.ok(!text.includes('stored-token'));
+    assert.ok(!text.includes('literal-key'));
+    assert.equal(imported.auth?.credentials?.token, '');
+    assert.equal(imported.collections.orders!.requests.get!.headers!['X-Api-Key'], '{{x-api-key}}');
+    assert.equal(imported.collections.orders!.requests.get!.headers!.Accept, 'application/json');
+  });
+
+  it("exports secret variables empty and keeps them flagged on import", () => {
+    const { exported, imported } = roundTrip(shop);
+    assert.ok(!JSON.stringify(exported).includes('plain-secret'));
+    assert.deepEqual(
+      exported.environments[0].values.find((value: any) => value.key === 'signingKey'),
+      { key: 'signingKey', value: '', type: 'secret', enabled: true }
+    );
+
+    const [prod] = imported.environments;
+    assert.equal(prod!.name, 'prod');
+    assert.equal(prod!.environment.baseUrl, 'https://prod.shop.example.com');
+    assert.equal(prod!.environment.variables?.tenant, 'acme');
+    assert.deepEqual(prod!.environment.secretVariables, ['signingKey']);
+  });
+
+  it("exports headers holding secret references as variables", () => {
+    const { exported } = roundTrip({ ...shop, headers: { 'X-Tenant': '${env:SHOP_TENANT}' } });
+    assert.ok(!JSON.stringify(exported.collection.item).includes('${env:'));
+  });
+});
@@ -0,0 +1,828 @@
+import { randomUUID } from "node:crypto";
+import { isCredentialHeader } from "./curl.js";
+import { fillPlaceholders, wholePlaceholder } from "./environments.js";
+import { findSecretReferences } from "./secrets.js";
+import { DEFAULT_COLLECTION, templateParameters } from "./templates.js";
+import { isSecretCredentialField } from "./vault.js";
+import type {
+  ApiConfig,
+  ApiCredentials,
+  ApiEnvironment,
+  AuthType,
+  BodyType,
+  HttpMethod,
+  RequestCollection,
+  RequestHistory,
+  SavedRequest
+} from "./types.js";
+
+// Import of Postman Collection v2.x and environment files into an API, its saved
+// requests and environments, and export of an API back to a v2.1 collection
+
+export const POSTMAN_COLLECTION_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+export interface PostmanImport {
+  name: string;
+  description?: string;
+  baseUrl?: string;
+  baseUrlVariable?: string; // the {{variable}} request URLs start with, e.g. baseUrl
+  auth?: {
+    type: AuthType;
+    credentials?: ApiCredentials;
+  };
+  // Credential fields given as a {{variable}} the collection doesn't define, to take from an environment
+  authVariables: Record<string, keyof ApiCredentials>;
+  collections: Record<string, RequestCollection>;
+  environments: PostmanEnvironmentImport[];
+  requestCount: number;
+  warnings: string[];
+}
+
+export interface PostmanEnvironmentImport {
+  name: string;
+  environment: Omit<ApiEnvironment, 'createdAt'>;
+  warnings: string[];
+}
+
+export interface PostmanExport {
+  collection: PostmanCollection;
+  environments: PostmanEnvironment[];
+  requestCount: number;
+  warnings: string[];
+}
+
+// What exportPostmanCollection writes: the parts of the v2.1 formats it fills in
+export interface PostmanCollection {
+  info: { _postman_id: string, name: string, description?: string, schema: string };
+  item: PostmanFolder[];
+  auth: PostmanAuth;
+  variable: KeyValue[];
+}
+
+export interface PostmanEnvironment {
+  id: string;
+  name: string;
+  values: { key: string, value: string, type: string, enabled: boolean }[];
+  _postman_variable_scope: 'environment';
+}
+
+interface PostmanFolder {
+  name: string;
+  description?: string;
+  item: PostmanItem[];
+}
+
+interface PostmanItem {
+  name: string;
+  request: {
+    method: string;
+    header: KeyValue[];
+    url: PostmanUrl;
+    body?: PostmanBody;
+    description?: string;
+  };
+}
+
+// `type` names the member holding the parameters, e.g. { type: 'bearer', bearer: [...] }
+interface PostmanAuth {
+  type: string;
+  [params: string]: string | KeyValue[];
+}
+
+interface PostmanUrl {
+  raw: string;
+  host?: string[];
+  path?: string[];
+  query?: KeyValue[];
+}
+
+interface PostmanBody {
+  mode: 'raw' | 'urlencoded' | 'formdata';
+  raw?: string;
+  urlencoded?: KeyValue[];
+  formdata?: KeyValue[];
+  options?: { raw: { language: string } };
+}
+
+const SUPPORTED_METHODS: readonly HttpMethod[] = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+// Variable names taken for the base URL when importing an environment on its own
+const BASE_URL_VARIABLE_NAMES = /^(base_?url|api_?url|url|host|server)$/i;
+const DYNAMIC_VARIABLE_PATTERN = /\{\{\$\w+\}\}/;
+const RAW_LANGUAGE_TYPES: Record<string, string> = {
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain; charset=utf-8'
+};
+
+interface KeyValue {
+  key: string;
+  value?: unknown;
+  type?: string;
+}
+
+interface RawRequest {
+  name: string;
+  collection: string;
+  description?: string;
+  method: HttpMethod;
+  url: string; // without the query string
+  query: KeyValue[];
+  pathVariables: Record<string, string>;
+  request: Record<string, unknown>;
+}
+
+// Collections and environments are untrusted JSON: every node is read through these guards
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// v2.0 descriptions may be objects with a content field
+function descriptionText(description: unknown): string | undefined {
+  if (typeof description === 'string') return description || undefined;
+  if (typeof description !== 'object' || description === null || !('content' in description)) return undefined;
+  const { content } = description;
+  return typeof content === 'string' && content ? content : undefined;
+}
+
+// Tool-safe names: saved requests and collections only take [\w.-]
+function slug(name: unknown, fallback: string): string {
+  const cleaned = String(name ?? '').trim().toLowerCase().replace(/[^\w.-]+/g, '_').replace(/^[_.]+|[_.]+$/g, '');
+  return cleaned || fallback;
+}
+
+function uniqueName(name: string, taken: Record<string, unknown> | undefined): string {
+  if (!taken?.[name]) return name;
+  for (let suffix = 2; ; suffix++) {
+    if (!taken[`${name}_${suffix}`]) return `${name}_${suffix}`;
+  }
+}
+
+function enabledEntries(entries: unknown): KeyValue[] {
+  return list(entries).flatMap(entry => {
+    const { key, value, disabled, type } = record(entry);
+    if (typeof key !== 'string' || !key || disabled === true) return [];
+    return [{ key, value, ...(typeof type === 'string' ? { type } : {}) }];
+  });
+}
+
+function stringValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Auth parameters are a key/value list in v2.1 and an object in v2.0
+function authParams(auth: Record<string, unknown>): Record<string, unknown> {
+  const params = auth[String(auth.type)];
+  if (Array.isArray(params)) {
+    return Object.fromEntries(list(params).flatMap(param => {
+      const { key, value } = record(param);
+      return typeof key === 'string' && key ? [[key, value]] : [];
+    }));
+  }
+  return record(params);
+}
+
+// The collection's own variables; environments come on top of them at run time in Postman
+function collectionVariables(document: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(enabledEntries(document.variable).map(variable => [variable.key, stringValue(variable.value)]));
+}
+
+/**
+ * Map a Postman auth block onto an auth type. Values that are {{variables}} of
+ * the collection are filled in; the others are left out of the credentials and
+ * reported in `authVariables`, to be filled from an environment.
+ */
+function mapPostmanAuth(
+  block: unknown,
+  variables: Record<string, string>,
+  warnings: string[]
+): { auth?: PostmanImport['auth'], authVariables: PostmanImport['authVariables'] } {
+  const authVariables: PostmanImport['authVariables'] = {};
+  const auth = record(block);
+  if (!auth.type) return { authVariables };
+
+  const params = authParams(auth);
+  const credentials: ApiCredentials = {};
+  const set = (field: keyof ApiCredentials, value: unknown) => {
+    const text = stringValue(value);
+    if (!text) return;
+    const missing = new Set<string>();
+    const filled = fillPlaceholders(text, variables, missing) as string;
+    const variable = wholePlaceholder(text);
+    if (missing.size === 0) {
+      (credentials as Record<string, unknown>)[field] = filled;
+    } else if (variable) {
+      authVariables[variable] = field;
+    } else {
+      warnings.push(`Auth field ${field} uses undefined variables ${[...missing].join(', ')}; pass it with credentials`);
+    }
+  };
+
+  switch (auth.type) {
+    case 'noauth':
+      return { auth: { type: 'none' }, authVariables };
+    case 'bearer':
+      set('token', params.token);
+      return { auth: { type: 'bearer', credentials }, authVariables };
+    case 'basic':
+      set('username', params.username);
+      set('password', params.password);
+      return { auth: { type: 'basic', credentials }, authVariables };
+    case 'apikey':
+      if (params.in === 'query') {
+        warnings.push('The API key is sent in the query string, which is not supported; add it to the endpoints or headers manually');
+        return { authVariables };
+      }
+      set('headerName', params.key);
+      set('apiKey', params.value);
+      return { auth: { type: 'api-key', credentials }, authVariables };
+    case 'awsv4':
+      set('accessKeyId', params.accessKey);
+      set('secretAccessKey', params.secretKey);
+      set('region', params.region);
+      set('service', params.service);
+      set('sessionToken', params.sessionToken);
+      return { auth: { type: 'aws-sigv4', credentials }, authVariables };
+    case 'oauth2': {
+      const grantType = String(params.grant_type || 'authorization_code');
+      if (grantType === 'implicit') {
+        warnings.push('OAuth2 implicit grant is not supported');
+        return { authVariables };
+      }
+      set('tokenUrl', params.accessTokenUrl);
+      set('clientId', params.clientId);
+      set('clientSecret', params.clientSecret);
+      set('refreshToken', params.refreshToken);
+      const scope = stringValue(params.scope).trim();
+      if (scope) credentials.scopes = scope.split(/\s+/);
+      if (params.client_authentication === 'body') credentials.clientAuthentication = 'body';
+      if (grantType === 'client_credentials') {
+        return { auth: { type: 'oauth2-client-credentials', credentials }, authVariables };
+      }
+      if (!credentials.refreshToken) {
+        warnings.push(`OAuth2 ${grantType} grant imported as oauth2-refresh-token; pass a refreshToken with credentials`);
+      }
+      return { auth: { type: 'oauth2-refresh-token', credentials }, authVariables };
+    }
+    default:
+      warnings.push(`Postman auth type "${String(auth.type)}" is not supported`);
+      return { authVariables };
+  }
+}
+
+// Collect the requests of a folder tree; nested folders become "parent.child" collections
+function collectRequests(
+  items: unknown,
+  folder: string[],
+  requests: RawRequest[],
+  folderDescriptions: Record<string, string>,
+  warnings: string[]
+): void {
+  for (const entry of list(items)) {
+    const item = record(entry);
+    const name = stringValue(item.name);
+    if (Array.isArray(item.item)) {
+      const path = [...folder, slug(item.name, 'folder')];
+      const description = descriptionText(item.description);
+      if (description) folderDescriptions[path.join('.')] = description;
+      if (isRecord(item.auth) && item.auth.type !== 'inherit') {
+        warnings.push(`Folder "${name}" has its own auth, which is not imported; requests use the API's`);
+      }
+      collectRequests(item.item, path, requests, folderDescriptions, warnings);
+      continue;
+    }
+    if (!item.request) continue;
+
+    const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : record(item.request);
+    const methodName = String(request.method || 'GET').toUpperCase();
+    const method = SUPPORTED_METHODS.find(supported => supported === methodName);
+    if (!method) {
+      warnings.push(`Request "${name}" uses ${methodName}, which is not supported; skipped`);
+      continue;
+    }
+    if (isRecord(request.auth) && request.auth.type !== 'inherit') {
+      warnings.push(`Request "${name}" has its own auth, which is not imported; it uses the API's`);
+    }
+
+    const url = request.url;
+    const urlFields = record(url);
+    const raw = typeof url === 'string' ? url : stringValue(urlFields.raw) || rebuildRawUrl(urlFields);
+    const [withoutQuery = '', queryString] = raw.split('#')[0]!.split(/\?(.*)/s);
+    const query = Array.isArray(urlFields.query)
+      ? enabledEntries(urlFields.query)
+      : [...new URLSearchParams(queryString || '')].map(([key, value]) => ({ key, value }));
+    const pathVariables = Object.fromEntries(enabledEntries(urlFields.variable).map(variable => [variable.key, stringValue(variable.value)]));
+
+    requests.push({
+      name: name || `${method} ${withoutQuery}`,
+      collection: folder.length > 0 ? folder.join('.') : DEFAULT_COLLECTION,
+      ...(descriptionText(request.description ?? item.description) ? { description: descriptionText(request.description ?? item.description)! } : {}),
+      method,
+      url: withoutQuery,
+      query,
+      pathVariables,
+      request
+    });
+  }
+}
+
+function rebuildRawUrl(url: Record<string, unknown>): string {
+  const host = Array.isArray(url.host) ? list(url.host).map(stringValue).join('.') : stringValue(url.host);
+  const path = Array.isArray(url.path) ? list(url.path).map(stringValue).join('/') : stringValue(url.path);
+  const protocol = stringValue(url.protocol);
+  return `${protocol ? `${protocol}://` : ''}${host}${path ? `/${path}` : ''}`;
+}
+
+// What a request URL hangs from: a leading {{variable}} or the scheme and host
+function urlRoot(url: string): { root: string, rest: string } | undefined {
+  const variable = /^\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/.exec(url);
+  if (variable) return { root: `{{${variable[1]}}}`, rest: url.slice(variable[0].length) };
+  const absolute = /^(https?:\/\/)?([^/{}]+)/i.exec(url);
+  if (!absolute) return undefined;
+  return { root: `${(absolute[1] || 'https://').toLowerCase()}${absolute[2]}`, rest: url.slice(absolute[0].length) };
+}
+
+/**
+ * Split request URLs into a base URL and endpoints. The root most requests use
+ * wins; for a host, the path segments every such request starts with go to the
+ * base URL too. Requests under another root are dropped.
+ */
+function splitBaseUrl(requests: RawRequest[], warnings: string[]): { root?: string, endpoints: Map<RawRequest, string> } {
+  const roots = new Map<string, number>();
+  const split = new Map<RawRequest, { root: string, rest: string }>();
+  for (const request of requests) {
+    const parts = urlRoot(request.url);
+    if (!parts) continue;
+    split.set(request, parts);
+    roots.set(parts.root, (roots.get(parts.root) || 0) + 1);
+  }
+  const root = [...roots.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const endpoints = new Map<RawRequest, string>();
+  if (!root) return { endpoints };
+
+  const rests = requests.filter(request => split.get(request)?.root === root).map(request => split.get(request)!.rest);
+  let prefix: string[] = [];
+  if (!root.startsWith('{{')) {
+    const segmented = rests.map(rest => rest.split('/').filter(Boolean));
+    prefix = segmented[0] || [];
+    for (const segments of segmented) {
+      let index = 0;
+      // The last segment is what tells requests apart, so it never goes to the base URL
+      while (index < prefix.length && index < segments.length - 1 && segments[index] === prefix[index] && !/[{:]/.test(segments[index]!)) index++;
+      prefix = prefix.slice(0, index);
+    }
+  }
+
+  for (const request of requests) {
+    const parts = split.get(request);
+    if (parts?.root !== root) {
+      warnings.push(`Request "${request.name}" (${request.url}) is not under ${root}; skipped`);
+      continue;
+    }
+    const segments = parts.rest.split('/').filter(Boolean).slice(prefix.length);
+    endpoints.set(request, `/${segments.join('/')}`);
+  }
+  return { root: prefix.length > 0 ? `${root}/${prefix.join('/')}` : root, endpoints };
+}
+
+// A JSON body may hold unquoted placeholders ({"count": {{count}}}); quoting them keeps it parseable
+function parseJsonBody(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return JSON.parse(raw.replace(/(:\s*|\[\s*|,\s*)(\{\{\s*[A-Za-z_][\w.-]*\s*\}\})/g, '$1"$2"'));
+  }
+}
+
+function requestBody(block: unknown, name: string, warnings: string[]): { body?: unknown, bodyType?: BodyType, contentType?: string } {
+  const body = record(block);
+  if (!body.mode || body.disabled) return {};
+  switch (body.mode) {
+    case 'raw': {
+      const raw = stringValue(body.raw);
+      if (!raw) return {};
+      const language = record(record(body.options).raw).language;
+      if (language === 'json' || language === undefined) {
+        try {
+          return { body: parseJsonBody(raw) };
+        } catch {
+          if (language === 'json') warnings.push(`Request "${name}" has a JSON body that does not parse; imported as text`);
+        }
+      }
+      const contentType = typeof language === 'string' ? RAW_LANGUAGE_TYPES[language] : undefined;
+      return { body: raw, bodyType: 'text', ...(contentType ? { contentType } : {}) };
+    }
+    case 'urlencoded':
+    case 'formdata': {
+      const fields: Record<string, unknown> = {};
+      for (const field of enabledEntries(body[String(body.mode)])) {
+        if (field.type === 'file') {
+          warnings.push(`Request "${name}": file field "${field.key}" is not imported; pass it with make_request files`);
+          continue;
+        }
+        const value = stringValue(field.value);
+        const existing = fields[field.key];
+        fields[field.key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+      }
+      return { body: fields, bodyType: body.mode === 'urlencoded' ? 'form' : 'multipart' };
+    }
+    case 'graphql': {
+      const graphql = record(body.graphql);
+      const query = stringValue(graphql.query);
+      let variables: unknown;
+      try {
+        variables = graphql.variables ? parseJsonBody(stringValue(graphql.variables)) : undefined;
+      } catch {
+        warnings.push(`Request "${name}": GraphQL variables do not parse; left out`);
+      }
+      return { body: { query, ...(variables !== undefined ? { variables } : {}) } };
+    }
+    default:
+      warnings.push(`Request "${name}": ${String(body.mode)} bodies are not supported; imported without a body`);
+      return {};
+  }
+}
+
+/**
+ * Read a Postman Collection v2.0/v2.1 document and the environment files that
+ * go with it. Variables of those environments, and of the API's `environments`,
+ * are left as placeholders instead of becoming parameters.
+ */
+export function importPostmanCollection(
+  document: unknown,
+  environmentDocuments: unknown[],
+  environments: Record<string, ApiEnvironment> | undefined
+): PostmanImport {
+  if (!isRecord(document)) {
+    throw new Error("The collection must be a JSON object");
+  }
+  if (Array.isArray(document.requests) && !document.item) {
+    throw new Error("Postman Collection v1 is not supported; export the collection as v2.1 from Postman");
+  }
+  const info = record(document.info);
+  const schema = stringValue(info.schema);
+  if (!Array.isArray(document.item) || (schema && !/collection\/v2\.[01]/.test(schema))) {
+    throw new Error(`Not a Postman Collection v2.x document${schema ? ` (schema ${schema})` : ''}`);
+  }
+
+  const warnings: string[] = [];
+  const variables = collectionVariables(document);
+  const { auth, authVariables } = mapPostmanAuth(document.auth, variables, warnings);
+
+  const requests: RawRequest[] = [];
+  const folderDescriptions: Record<string, string> = {};
+  collectRequests(document.item, [], requests, folderDescriptions, warnings);
+  const { root, endpoints } = splitBaseUrl(requests, warnings);
+  const knownEnvironments: Record<string, ApiEnvironment> = { ...environments };
+  environmentDocuments.forEach((environment, index) => {
+    knownEnvironments[`postman-${index}`] = { variables: postmanEnvironmentValues(environment), createdAt: '' };
+  });
+
+  let baseUrl: string | undefined;
+  let baseUrlVariable: string | undefined;
+  if (root?.startsWith('{{')) {
+    baseUrlVariable = wholePlaceholder(root.replace(/\/.*$/, ''))!;
+    const value = variables[baseUrlVariable];
+    if (value) baseUrl = `${value.replace(/\/$/, '')}${root.slice(root.indexOf('}}') + 2)}`;
+  } else if (root) {
+    baseUrl = root;
+  }
+
+  const collections: Record<string, RequestCollection> = {};
+  let requestCount = 0;
+  let dynamicVariables = false;
+  const importedAt = new Date().toISOString();
+  for (const raw of requests) {
+    const endpoint = endpoints.get(raw);
+    if (endpoint === undefined) continue;
+
+    const headers = Object.fromEntries(enabledEntries(raw.request.header).map(header => [header.key, stringValue(header.value)]));
+    const queryParams: Record<string, unknown> = {};
+    for (const param of raw.query) {
+      const existing = queryParams[param.key];
+      const value = stringValue(param.value);
+      queryParams[param.key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+    const body = requestBody(raw.request.body, raw.name, warnings);
+    const template = {
+      // Postman path variables (:id) are placeholders here
+      endpoint: endpoint.replace(/\/:([A-Za-z_][\w.-]*)/g, '/{{$1}}'),
+      ...(Object.keys(queryParams).length > 0 ? { queryParams } : {}),
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(body.body !== undefined ? { body: body.body } : {})
+    };
+    if (DYNAMIC_VARIABLE_PATTERN.test(JSON.stringify(template))) dynamicVariables = true;
+
+    // Collection variables and path variable values become defaults
+    const defaults: Record<string, string> = { ...variables, ...raw.pathVariables };
+    const { parameters } = templateParameters(template, [], knownEnvironments);
+    const collection = (collections[raw.collection] ??= {
+      ...(folderDescriptions[raw.collection] ? { description: folderDescriptions[raw.collection]! } : {}),
+      requests: {}
+    });
+    const name = uniqueName(slug(raw.name, 'request'), collection.requests);
+    const saved: SavedRequest = {
+      name,
+      ...(raw.description ? { description: raw.description } : {}),
+      method: raw.method,
+      ...template,
+      ...(body.bodyType ? { bodyType: body.bodyType } : {}),
+      ...(body.contentType ? { contentType: body.contentType } : {}),
+      parameters: parameters.map(parameter => defaults[parameter.name] !== undefined
+        ? { ...parameter, required: false, default: defaults[parameter.name] }
+        : parameter),
+      createdAt: importedAt
+    };
+    collection.requests[name] = saved;
+    requestCount++;
+  }
+  if (dynamicVariables) {
+    warnings.push('Postman dynamic variables such as {{$guid}} or {{$timestamp}} are not supported and are sent as is');
+  }
+
+  const importedEnvironments = environmentDocuments.map(environment => importPostmanEnvironment(environment, baseUrlVariable, authVariables));
+  importedEnvironments.forEach(environment => warnings.push(...environment.warnings));
+
+  return {
+    name: stringValue(info.name) || 'Postman collection',
+    ...(descriptionText(info.description) ? { description: descriptionText(info.description)! } : {}),
+    ...(baseUrl ? { baseUrl } : {}),
+    ...(baseUrlVariable ? { baseUrlVariable } : {}),
+    ...(auth ? { auth } : {}),
+    authVariables,
+    collections,
+    environments: importedEnvironments,
+    requestCount,
+    warnings
+  };
+}
+
+function postmanEnvironmentValues(document: unknown): Record<string, string> {
+  return Object.fromEntries(list(record(document).values).flatMap(entry => {
+    const { key, value, enabled } = record(entry);
+    return typeof key === 'string' && key && enabled !== false ? [[key, stringValue(value)]] : [];
+  }));
+}
+
+/**
+ * Read a Postman environment file. The base URL variable sets the environment's
+ * baseUrl and auth variables its credentials; the rest become variables.
+ */
+export function importPostmanEnvironment(
+  document: unknown,
+  baseUrlVariable: string | undefined,
+  authVariables: PostmanImport['authVariables']
+): PostmanEnvironmentImport {
+  if (!isRecord(document) || !Array.isArray(document.values)) {
+    throw new Error("Not a Postman environment file (it has no values array)");
+  }
+
+  const warnings: string[] = [];
+  const name = slug(document.name, 'environment');
+  const environment: PostmanEnvironmentImport['environment'] = {};
+  const variables: Record<string, string> = {};
+  const credentials: Record<string, string> = {};
+  const secrets = new Set(list(document.values).map(record).filter(entry => entry.type === 'secret').map(entry => entry.key));
+  const secretVariables: string[] = [];
+  for (const [key, value] of Object.entries(postmanEnvironmentValues(document))) {
+    const field = authVariables[key];
+    if (field) {
+      if (value) credentials[field] = value;
+    } else if (baseUrlVariable ? key === baseUrlVariable : BASE_URL_VARIABLE_NAMES.test(key) && /^https?:\/\//.test(value)) {
+      environment.baseUrl = value.replace(/\/$/, '');
+    } else {
+      variables[key] = value;
+      if (secrets.has(key)) {
+        secretVariables.push(key);
+        warnings.push(`Secret variable "${key}" of environment "${name}" is stored unencrypted (and exported empty); move it to credentials or a \${env:...} reference`);
+      }
+    }
+  }
+  if (Object.keys(variables).length > 0) environment.variables = variables;
+  if (secretVariables.length > 0) environment.secretVariables = secretVariables;
+  if (Object.keys(credentials).length > 0) environment.credentials = credentials as ApiCredentials;
+  return { name, environment, warnings };
+}
+
+// ---- Export ----
+
+function keyValues(values: Record<string, unknown> | undefined): KeyValue[] {
+  return Object.entries(values || {}).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value]).map(item => ({ key, value: stringValue(item) }))
+  );
+}
+
+// Secrets become {{variables}}: literal credentials are never exported
+class ExportVariables {
+  readonly names = new Set<string>();
+
+  credential(credentials: ApiCredentials, field: keyof ApiCredentials): string {
+    const value = credentials[field];
+    if (value === undefined) return '';
+    if (isSecretCredentialField(field)) {
+      this.names.add(field);
+      return `{{${field}}}`;
+    }
+    return stringValue(value);
+  }
+
+  header(name: string, value: string): string {
+    if (!isCredentialHeader(name) && findSecretReferences(value).length === 0) return value;
+    const variable = slug(name, 'header');
+    this.names.add(variable);
+    return `{{${variable}}}`;
+  }
+}
+
+function exportAuth(config: ApiConfig, variables: ExportVariables, warnings: string[]): PostmanAuth {
+  const type = config.auth?.type;
+  // A secret only environments hold still needs its {{variable}} in the collection
+  const credentials: ApiCredentials = Object.assign(
+    {},
+    ...Object.values(config.environments || {}).map(environment => environment.credentials),
+    config.auth?.credentials
+  );
+  const params = (entries: Record<string, string>) => Object.entries(entries)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => ({ key, value, type: 'string' }));
+
+  switch (type) {
+    case undefined:
+    case 'none':
+      return { type: 'noauth' };
+    case 'bearer':
+      return { type: 'bearer', bearer: params({ token: variables.credential(credentials, 'token') }) };
+    case 'basic':
+      return {
+        type: 'basic',
+        basic: params({ username: variables.credential(credentials, 'username'), password: variables.credential(credentials, 'password') })
+      };
+    case 'api-key':
+      return {
+        type: 'apikey',
+        apikey: params({ key: variables.credential(credentials, 'headerName'), value: variables.credential(credentials, 'apiKey'), in: 'header' })
+      };
+    case 'aws-sigv4':
+      return {
+        type: 'awsv4',
+        awsv4: params({
+          accessKey: variables.credential(credentials, 'accessKeyId'),
+          secretKey: variables.credential(credentials, 'secretAccessKey'),
+          region: variables.credential(credentials, 'region'),
+          service: variables.credential(credentials, 'service'),
+          sessionToken: variables.credential(credentials, 'sessionToken')
+        })
+      };
+    case 'oauth2-client-credentials':
+    case 'oauth2-refresh-token':
+      return {
+        type: 'oauth2',
+        oauth2: params({
+          grant_type: type === 'oauth2-client-credentials' ? 'client_credentials' : 'authorization_code',
+          accessTokenUrl: variables.credential(credentials, 'tokenUrl'),
+          clientId: variables.credential(credentials, 'clientId'),
+          clientSecret: variables.credential(credentials, 'clientSecret'),
+          scope: credentials.scopes?.join(' ') || '',
+          client_authentication: credentials.clientAuthentication === 'body' ? 'body' : 'header'
+        })
+      };
+    default:
+      warnings.push(`${type} auth has no Postman equivalent; the collection is exported without auth`);
+      return { type: 'noauth' };
+  }
+}
+
+function exportUrl(endpoint: string, queryParams?: Record<string, unknown>): PostmanUrl {
+  const [path = '', queryString] = endpoint.split(/\?(.*)/s);
+  const query = [
+    ...[...new URLSearchParams(queryString || '')].map(([key, value]) => ({ key, value })),
+    ...keyValues(queryParams)
+  ];
+  const absolute = /^https?:\/\//.test(path);
+  const search = query.length > 0 ? `?${query.map(param => `${param.key}=${param.value}`).join('&')}` : '';
+  return {
+    raw: `${absolute ? '' : '{{baseUrl}}'}${path}${search}`,
+    ...(absolute ? {} : { host: ['{{baseUrl}}'], path: path.split('/').filter(Boolean) }),
+    ...(query.length > 0 ? { query } : {})
+  };
+}
+
+function exportBody(request: SavedRequest, warnings: string[]): PostmanBody | undefined {
+  if (request.body === undefined) return undefined;
+  switch (request.bodyType || 'json') {
+    case 'json':
+      return { mode: 'raw', raw: JSON.stringify(request.body, null, 2), options: { raw: { language: 'json' } } };
+    case 'form':
+      return { mode: 'urlencoded', urlencoded: keyValues(record(request.body)) };
+    case 'multipart':
+      return { mode: 'formdata', formdata: keyValues(record(request.body)).map(field => ({ ...field, type: 'text' })) };
+    case 'raw':
+      warnings.push(`Saved request "${request.name}" has a raw (base64) body, exported as text`);
+      return { mode: 'raw', raw: stringValue(request.body) };
+    case 'text':
+      return { mode: 'raw', raw: stringValue(request.body), options: { raw: { language: 'text' } } };
+  }
+}
+
+/**
+ * Export an API as a Postman Collection v2.1: its saved requests by collection,
+ * plus a History folder with the method/endpoint pairs it was called with, and
+ * one environment file per environment. Secret credentials, credential headers,
+ * header values that reference secrets and secret variables are exported empty.
+ */
+export function exportPostmanCollection(config: ApiConfig, history: RequestHistory[], includeHistory = true): PostmanExport {
+  const warnings: string[] = [];
+  const variables = new ExportVariables();
+  const auth = exportAuth(config, variables, warnings);
+  const defaultHeaders = Object.entries(config.headers || {}).map(([key, value]) => ({ key, value: variables.header(key, value) }));
+  let requestCount = 0;
+
+  const folders: PostmanFolder[] = Object.entries(config.collections || {}).map(([name, collection]) => ({
+    name,
+    ...(collection.description ? { description: collection.description } : {}),
+    item: Object.values(collection.requests).map(request => {
+      requestCount++;
+      const body = exportBody(request, warnings);
+      const headers = [
+        ...defaultHeaders.filter(header => !Object.keys(request.headers || {}).some(key => key.toLowerCase() === header.key.toLowerCase())),
+        ...Object.entries(request.headers || {}).map(([key, value]) => ({ key, value: variables.header(key, value) }))
+      ];
+      return {
+        name: request.name,
+        request: {
+          method: request.method,
+          header: headers,
+          url: exportUrl(request.endpoint, request.queryParams),
+          ...(body ? { body } : {}),
+          ...(request.description ? { description: request.description } : {})
+        }
+      };
+    })
+  }));
+
+  if (includeHistory) {
+    const seen = new Set<string>();
+    const calls = history
+      .filter(entry => entry.apiName === config.name)
+      .filter(entry => {
+        const key = `${entry.method} ${entry.endpoint}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    if (calls.length > 0) {
+      folders.push({
+        name: 'History',
+        description: 'Requests made through the API manager, without their bodies',
+        item: calls.map(entry => {
+          requestCount++;
+          return {
+            name: `${entry.method} ${entry.endpoint}`,
+            request: { method: entry.method, header: defaultHeaders, url: exportUrl(entry.endpoint) }
+          };
+        })
+      });
+    }
+  }
+
+  const collection: PostmanCollection = {
+    info: {
+      _postman_id: randomUUID(),
+      name: config.name,
+      ...(config.description ? { description: config.description } : {}),
+      schema: POSTMAN_COLLECTION_SCHEMA
+    },
+    item: folders,
+    auth,
+    variable: [
+      { key: 'baseUrl', value: config.baseUrl },
+      ...[...variables.names].map(key => ({ key, value: '' }))
+    ]
+  };
+
+  const environments = Object.entries(config.environments || {}).map(([name, environment]): PostmanEnvironment => ({
+    id: randomUUID(),
+    name,
+    values: [
+      { key: 'baseUrl', value: environment.baseUrl || config.baseUrl, type: 'default', enabled: true },
+      ...Object.entries(environment.variables || {}).map(([key, value]) => environment.secretVariables?.includes(key)
+        ? { key, value: '', type: 'secret', enabled: true }
+        : { key, value, type: 'default', enabled: true }),
+      // The environment's own secrets, empty like the collection's
+      ...Object.keys(environment.credentials || {})
+        .filter(isSecretCredentialField)
+        .map(key => ({ key, value: '', type: 'secret', enabled: true }))
+    ],
+    _postman_variable_scope: 'environment'
+  }));
+  return { collection, environments, requestCount, warnings };
+}
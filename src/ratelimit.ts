@@ -0,0 +1,296 @@
+import { parseRetryAfter } from "./retry.js";
+import type { RateLimitPolicy } from "./types.js";
+
+// Client-side rate limiting per API: token buckets, a concurrency cap and a bounded
+// FIFO queue, tightened by the X-RateLimit-* headers the upstream sends back
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  maxQueue: 100,
+  maxWaitMs: 60000,
+  adaptive: true
+};
+
+// A granted slot; release it once the response headers are in
+export interface RateLimitSlot {
+  waitedMs: number;
+  release: () => void;
+}
+
+export interface RateLimitStatus {
+  active: number;
+  queued: number;
+  tokens?: { perSecond?: number, perMinute?: number };
+  blockedUntil?: string;
+  pacingMs?: number;
+  upstream?: { remaining: number, limit?: number, resetAt?: string };
+}
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (slot: RateLimitSlot) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface UpstreamLimit {
+  remaining: number;
+  limit?: number;
+  resetAt?: number;
+}
+
+// Below this many remaining requests, spread what is left over the rest of the window
+const LOW_REMAINING_FRACTION = 0.1;
+const LOW_REMAINING_DEFAULT = 10;
+
+function headerNumber(headers: Headers, names: string[]): number | undefined {
+  for (const name of names) {
+    // IETF RateLimit headers may carry several comma-separated policies; the first is the active one
+    const value = headers.get(name)?.split(',')[0]?.trim();
+    if (value && /^\d+(\.\d+)?$/.test(value)) return Number(value);
+  }
+  return undefined;
+}
+
+// X-RateLimit-Reset is either an epoch timestamp (GitHub, Twitter) or seconds from now (IETF draft)
+function parseReset(value: number | undefined, now: number): number | undefined {
+  if (value === undefined) return undefined;
+  return value > 1_000_000_000 ? value * 1000 : now + value * 1000;
+}
+
+function bucket(perWindow: number, windowMs: number, now: number): Bucket {
+  const capacity = Math.max(1, perWindow);
+  return { capacity, tokens: capacity, refillPerMs: perWindow / windowMs, updatedAt: now };
+}
+
+class ApiRateLimiter {
+  private policy: RateLimitPolicy = { ...DEFAULT_RATE_LIMIT_POLICY };
+  private policyKey = '';
+  private perSecond: Bucket | undefined;
+  private perMinute: Bucket | undefined;
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private blockedUntil = 0;
+  private pacingMs = 0;
+  private pacingUntil = 0;
+  private lastStart = 0;
+  private upstream: UpstreamLimit | undefined;
+
+  constructor(private readonly apiName: string) {}
+
+  configure(overrides: Partial<RateLimitPolicy> | undefined): void {
+    const policy = { ...DEFAULT_RATE_LIMIT_POLICY, ...overrides };
+    const key = JSON.stringify(policy);
+    if (key === this.policyKey) return;
+
+    const now = Date.now();
+    this.policy = policy;
+    this.policyKey = key;
+    this.perSecond = policy.requestsPerSecond ? bucket(policy.requestsPerSecond, 1000, now) : undefined;
+    this.perMinute = policy.requestsPerMinute ? bucket(policy.requestsPerMinute, 60_000, now) : undefined;
+    if (!policy.adaptive) {
+      this.blockedUntil = 0;
+      this.pacingMs = 0;
+    }
+  }
+
+  acquire(): Promise<RateLimitSlot> {
+    const now = Date.now();
+    if (this.queue.length === 0 && this.nextStartDelay(now) === 0) {
+      return Promise.resolve(this.start(now, now));
+    }
+
+    if (this.queue.length >= this.policy.maxQueue) {
+      return Promise.reject(new Error(
+        `Rate limit queue for API "${this.apiName}" is full (${this.queue.length} requests waiting); try again later`
+      ));
+    }
+    if (this.blockedUntil - now > this.policy.maxWaitMs) {
+      return Promise.reject(new Error(
+        `Upstream rate limit for API "${this.apiName}" is exhausted until ${new Date(this.blockedUntil).toISOString()}; try again later`
+      ));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: now,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(new Error(
+            `Waited ${this.policy.maxWaitMs}ms for a rate limit slot on API "${this.apiName}"; try again later`
+          ));
+        }, this.policy.maxWaitMs)
+      };
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  // Adapt to what the upstream reports about its own limit
+  observe(status: number, headers: Headers): void {
+    if (!this.policy.adaptive) return;
+    const now = Date.now();
+    const remaining = headerNumber(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+    const limit = headerNumber(headers, ['x-ratelimit-limit', 'ratelimit-limit']);
+    const resetAt = parseReset(headerNumber(headers, ['x-ratelimit-reset', 'ratelimit-reset']), now);
+
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(headers.get('retry-after'), now);
+      const until = retryAfter !== undefined ? now + retryAfter : resetAt;
+      if (until) this.blockedUntil = Math.max(this.blockedUntil, until);
+    }
+
+    if (remaining === undefined) return;
+    this.upstream = {
+      remaining,
+      ...(limit !== undefined ? { limit } : {}),
+      ...(resetAt !== undefined ? { resetAt } : {})
+    };
+    if (resetAt === undefined || resetAt <= now) return;
+
+    const lowWater = limit ? Math.max(1, Math.ceil(limit * LOW_REMAINING_FRACTION)) : LOW_REMAINING_DEFAULT;
+    if (remaining <= 0) {
+      this.blockedUntil = Math.max(this.blockedUntil, resetAt);
+    } else if (remaining <= lowWater) {
+      this.pacingMs = Math.ceil((resetAt - now) / remaining);
+      this.pacingUntil = resetAt;
+    } else {
+      this.pacingMs = 0;
+    }
+    this.pump();
+  }
+
+  status(): RateLimitStatus {
+    const now = Date.now();
+    this.refill(now);
+    const tokens = {
+      ...(this.perSecond ? { perSecond: Math.floor(this.perSecond.tokens) } : {}),
+      ...(this.perMinute ? { perMinute: Math.floor(this.perMinute.tokens) } : {})
+    };
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      ...(Object.keys(tokens).length > 0 ? { tokens } : {}),
+      ...(this.blockedUntil > now ? { blockedUntil: new Date(this.blockedUntil).toISOString() } : {}),
+      ...(this.pacingMs > 0 && this.pacingUntil > now ? { pacingMs: this.pacingMs } : {}),
+      ...(this.upstream ? {
+        upstream: {
+          remaining: this.upstream.remaining,
+          ...(this.upstream.limit !== undefined ? { limit: this.upstream.limit } : {}),
+          ...(this.upstream.resetAt !== undefined ? { resetAt: new Date(this.upstream.resetAt).toISOString() } : {})
+        }
+      } : {})
+    };
+  }
+
+  // Fail everything still queued, e.g. because the API was deleted
+  close(reason: string): void {
+    clearTimeout(this.timer);
+    for (const waiter of this.queue.splice(0)) {
+      clearTimeout(waiter.timeout);
+      waiter.reject(new Error(reason));
+    }
+  }
+
+  private refill(now: number): void {
+    for (const bucket of [this.perSecond, this.perMinute]) {
+      if (!bucket) continue;
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+      bucket.updatedAt = now;
+    }
+  }
+
+  // Milliseconds until another request may start, or undefined while waiting on the concurrency cap
+  private nextStartDelay(now: number): number | undefined {
+    if (this.policy.maxConcurrent && this.active >= this.policy.maxConcurrent) return undefined;
+    this.refill(now);
+
+    let delay = Math.max(0, this.blockedUntil - now);
+    if (this.pacingMs > 0 && now < this.pacingUntil) {
+      delay = Math.max(delay, this.lastStart + this.pacingMs - now);
+    }
+    for (const bucket of [this.perSecond, this.perMinute]) {
+      if (bucket && bucket.tokens < 1) {
+        delay = Math.max(delay, (1 - bucket.tokens) / bucket.refillPerMs);
+      }
+    }
+    return Math.ceil(delay);
+  }
+
+  private start(now: number, enqueuedAt: number): RateLimitSlot {
+    if (this.perSecond) this.perSecond.tokens -= 1;
+    if (this.perMinute) this.perMinute.tokens -= 1;
+    this.active++;
+    this.lastStart = now;
+
+    let released = false;
+    return {
+      waitedMs: now - enqueuedAt,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.pump();
+      }
+    };
+  }
+
+  // Start as many queued requests as the limits allow, then sleep until the next one can go
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      const delay = this.nextStartDelay(now);
+      if (delay === undefined) return;
+      if (delay > 0) {
+        this.timer = setTimeout(() => this.pump(), delay);
+        return;
+      }
+      const waiter = this.queue.shift()!;
+      clearTimeout(waiter.timeout);
+      waiter.resolve(this.start(now, waiter.enqueuedAt));
+    }
+  }
+}
+
+// One limiter per API name, shared by every MCP session of this process
+export class RateLimitManager {
+  private readonly limiters = new Map<string, ApiRateLimiter>();
+
+  acquire(apiName: string, policy: Partial<RateLimitPolicy> | undefined): Promise<RateLimitSlot> {
+    return this.limiter(apiName, policy).acquire();
+  }
+
+  observe(apiName: string, status: number, headers: Headers): void {
+    this.limiters.get(apiName)?.observe(status, headers);
+  }
+
+  status(apiName: string): RateLimitStatus | undefined {
+    return this.limiters.get(apiName)?.status();
+  }
+
+  forget(apiName: string): void {
+    this.limiters.get(apiName)?.close(`API "${apiName}" was deleted`);
+    this.limiters.delete(apiName);
+  }
+
+  private limiter(apiName: string, policy: Partial<RateLimitPolicy> | undefined): ApiRateLimiter {
+    let limiter = this.limiters.get(apiName);
+    if (!limiter) {
+      limiter = new ApiRateLimiter(apiName);
+      this.limiters.set(apiName, limiter);
+    }
+    limiter.configure(policy);
+    return limiter;
+  }
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { captureBody, captureParsedBody, DEFAULT_RECORDING_POLICY, readBodyPrefix, recordedBodyText, redactBodyText, redactUrl } from "./recording.js";
+
+const policy = DEFAULT_RECORDING_POLICY;
+
+describe("captureBody", () => {
+  it("masks sensitive JSON fields at any depth, whatever their case", () => {
+    const raw = JSON.stringify({ user: 'alice', Password: 'pw', auth: { access_token: 't', scopes: ['read'] }, items: [{ apiKey: 'k' }] });
+    assert.deepEqual(captureBody(raw, 'application/json; charset=utf-8', policy), {
+      body: { user: 'alice', Password: '[REDACTED]', auth: { access_token: '[REDACTED]', scopes: ['read'] }, items: [{ apiKey: '[REDACTED]' }] },
+      bodyType: 'json',
+      bodySize: raw.length
+    });
+  });
+
+  it("masks the API's own fields and leaves empty values alone", () => {
+    const recorded = captureBody('{"ssn":"123","token":""}', 'application/json', { ...policy, redactFields: ['SSN'] });
+    assert.deepEqual(recorded.body, { ssn: '[REDACTED]', token: '' });
+  });
+
+  it("masks url-encoded form fields", () => {
+    const recorded = captureBody('user=alice&password=pw', 'application/x-www-form-urlencoded', policy);
+    assert.deepEqual(recorded.body, { user: 'alice', password: '[REDACTED]' });
+    assert.equal(recordedBodyText(recorded), 'user=alice&password=%5BREDACTED%5D');
+  });
+
+  it("keeps text as is and only the size of binary bodies", () => {
+    assert.deepEqual(captureBody('not json', 'application/json', policy), { body: 'not json', bodyType: 'text', bodySize: 8 });
+    assert.deepEqual(captureBody(new Uint8Array([0xff, 0xfe, 0x00]), 'application/octet-stream', policy), { bodySize: 3 });
+    assert.deepEqual(captureBody('', 'text/plain', policy), {});
+  });
+
+  it("cuts bodies past maxBodyChars, after masking", () => {
+    const recorded = captureBody(JSON.stringify({ password: 'pw', data: 'x'.repeat(100) }), 'application/json', { ...policy, maxBodyChars: 30 });
+    assert.equal(recorded.bodyTruncated, true);
+    assert.equal(recorded.body, '{"password":"[REDACTED]","data');
+    assert.equal(recordedBodyText(recorded), undefined);
+  });
+});
+
+describe("captureParsedBody", () => {
+  it("masks parsed JSON and keeps only the size of binaries", () => {
+    assert.deepEqual(captureParsedBody({ refresh_token: 'r', id: 1 }, policy), { body: { refresh_token: '[REDACTED]', id: 1 } });
+    assert.deepEqual(captureParsedBody({ mimeType: 'image/png', bytes: new Uint8Array(4) }, policy), { bodySize: 4 });
+    assert.deepEqual(captureParsedBody('x'.repeat(20), { ...policy, maxBodyChars: 5 }), { body: 'xxxxx', bodyTruncated: true });
+  });
+});
+
+describe("redactUrl", () => {
+  it("masks sensitive query parameters only", () => {
+    assert.equal(
+      redactUrl('https://api.example.com/items?api_key=k&page=2&Token=t', policy),
+      'https://api.example.com/items?api_key=[REDACTED]&page=2&Token=[REDACTED]'
+    );
+    assert.equal(redactUrl('https://api.example.com/items?page=2', policy), 'https://api.example.com/items?page=2');
+  });
+
+  it("masks the names the API adds, like its API key header", () => {
+    assert.equal(
+      redactUrl('https://api.example.com/items?X-Api-Key=k&page=2', { ...policy, redactFields: ['X-Api-Key'] }),
+      'https://api.example.com/items?X-Api-Key=[REDACTED]&page=2'
+    );
+  });
+});
+
+describe("redactBodyText", () => {
+  it("masks secret fields of forms and JSON bodies", () => {
+    assert.equal(
+      redactBodyText('grant_type=client_credentials&client_id=app&client_secret=s3', 'application/x-www-form-urlencoded', policy),
+      'grant_type=client_credentials&client_id=app&client_secret=%5BREDACTED%5D'
+    );
+    assert.equal(redactBodyText('{"user":"alice","access_token":"t"}', 'application/json', policy), '{"user":"alice","access_token":"[REDACTED]"}');
+  });
+
+  it("returns other bodies, and those with nothing to mask, as they were", () => {
+    const json = '{\n  "name": "widget"\n}';
+    assert.equal(redactBodyText(json, 'application/json', policy), json);
+    assert.equal(redactBodyText('password=pw', 'text/plain', policy), 'password=pw');
+    assert.equal(redactBodyText(undefined, undefined, policy), undefined);
+  });
+});
+
+describe("readBodyPrefix", () => {
+  it("stops reading once enough of the body arrived", async () => {
+    let pulls = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode('a'.repeat(64)));
+      }
+    });
+    const prefix = await readBodyPrefix(new Response(stream), 10);
+    assert.equal(typeof prefix, 'string');
+    assert.ok((prefix as string).startsWith('a'.repeat(10)));
+    assert.ok(pulls <= 2);
+  });
+
+  it("returns short bodies whole, as bytes", async () => {
+    const prefix = await readBodyPrefix(new Response('busy'), 100);
+    assert.equal(new TextDecoder().decode(prefix as Uint8Array), 'busy');
+  });
+});
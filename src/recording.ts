@@ -0,0 +1,171 @@
+import { isBinaryBody, mediaType } from "./binary.js";
+import { MASKED_VALUE } from "./curl.js";
+import type { RecordedBody, RecordingPolicy } from "./types.js";
+
+// Opt-in full capture of requests and responses in the history, with sensitive
+// body fields and query parameters masked before anything is kept (credential
+// headers are masked by the caller)
+
+export const DEFAULT_RECORDING_POLICY: RecordingPolicy = {
+  enabled: true,
+  redactFields: [],
+  maxBodyChars: 10000
+};
+
+// Always masked; field names are compared without case, '-' or '_'
+const DEFAULT_REDACTED_FIELDS = [
+  'password', 'passwd', 'secret', 'clientsecret', 'token', 'accesstoken', 'refreshtoken',
+  'idtoken', 'apikey', 'privatekey'
+];
+
+// Recording is off unless the API has a recording config
+export function resolveRecordingPolicy(overrides: Partial<RecordingPolicy> | undefined): RecordingPolicy | undefined {
+  if (!overrides) return undefined;
+  const policy = { ...DEFAULT_RECORDING_POLICY, ...overrides };
+  return policy.enabled ? policy : undefined;
+}
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[-_]/g, '');
+}
+
+function redactedFields(policy: RecordingPolicy): Set<string> {
+  return new Set([...DEFAULT_REDACTED_FIELDS, ...policy.redactFields].map(fieldKey));
+}
+
+function redact(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map(item => redact(item, fields));
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([name, item]) => [
+    name,
+    fields.has(fieldKey(name)) && item !== null && item !== '' ? MASKED_VALUE : redact(item, fields)
+  ]));
+}
+
+/**
+ * Body as kept in the history. JSON and url-encoded forms are parsed so their
+ * sensitive fields can be masked, other text is kept as is, and bodies that are
+ * not UTF-8 text only keep their size. Anything past maxBodyChars is cut.
+ */
+export function captureBody(raw: string | Uint8Array | undefined, contentType: string | undefined, policy: RecordingPolicy): RecordedBody {
+  if (raw === undefined) return {};
+  const bytes = typeof raw === 'string' ? new TextEncoder().encode(raw) : raw;
+  if (bytes.length === 0) return {};
+
+  let text: string;
+  try {
+    text = typeof raw === 'string' ? raw : new TextDecoder('utf-8', { fatal: true }).decode(raw);
+  } catch {
+    return { bodySize: bytes.length };
+  }
+
+  const fields = redactedFields(policy);
+  const type = contentType ? mediaType(contentType) : '';
+  let body: unknown = text;
+  let bodyType: RecordedBody['bodyType'] = 'text';
+  let serialized = text;
+  if (type === 'application/json' || type.endsWith('+json')) {
+    try {
+      body = redact(JSON.parse(text), fields);
+      bodyType = 'json';
+      serialized = JSON.stringify(body);
+    } catch {
+      // Not actually JSON, kept as text
+    }
+  } else if (type === 'application/x-www-form-urlencoded') {
+    body = redact(Object.fromEntries(new URLSearchParams(text)), fields);
+    bodyType = 'form';
+    serialized = new URLSearchParams(body as Record<string, string>).toString();
+  }
+
+  if (serialized.length > policy.maxBodyChars) {
+    return { body: serialized.slice(0, policy.maxBodyChars), bodySize: bytes.length, bodyTruncated: true };
+  }
+  return { body, bodyType, bodySize: bytes.length };
+}
+
+/**
+ * Response body as make_request parsed it: text as is, JSON (and XML or CSV read
+ * as JSON) masked like request bodies, and binary bodies as their size only.
+ */
+export function captureParsedBody(value: unknown, policy: RecordingPolicy): RecordedBody {
+  if (value === undefined || value === '') return {};
+  if (isBinaryBody(value)) return { bodySize: value.bytes.byteLength };
+  const body = typeof value === 'string' ? value : redact(value, redactedFields(policy));
+  const serialized = typeof body === 'string' ? body : JSON.stringify(body);
+  if (serialized.length > policy.maxBodyChars) {
+    return { body: serialized.slice(0, policy.maxBodyChars), bodyTruncated: true };
+  }
+  return { body };
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * The start of a body nobody else will read, enough for maxChars characters.
+ * The rest is never downloaded: the stream is cancelled once that much arrived.
+ */
+export async function readBodyPrefix(response: Response, maxChars: number): Promise<string | Uint8Array> {
+  if (!response.body) return new Uint8Array();
+  // A UTF-8 character takes at most 4 bytes
+  const maxBytes = maxChars * 4 + 4;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) return concatBytes(chunks);
+      chunks.push(value);
+      size += value.byteLength;
+    }
+    await reader.cancel();
+  } finally {
+    reader.releaseLock();
+  }
+  // Possibly cut mid-character; captureBody cuts it to maxChars anyway
+  return new TextDecoder().decode(concatBytes(chunks));
+}
+
+// The URL with its sensitive query parameters (token, api_key...) masked
+export function redactUrl(url: string, policy: RecordingPolicy): string {
+  const parsed = new URL(url);
+  const fields = redactedFields(policy);
+  const names = [...new Set(parsed.searchParams.keys())].filter(name => fields.has(fieldKey(name)));
+  if (names.length === 0) return url;
+  names.forEach(name => parsed.searchParams.set(name, MASKED_VALUE));
+  // Readable in get_request and curl commands; replay_request refuses it either way
+  return parsed.toString().replaceAll(encodeURIComponent(MASKED_VALUE), MASKED_VALUE);
+}
+
+// A request body with the sensitive fields of a JSON or url-encoded form masked;
+// returned as is when there was nothing to mask
+export function redactBodyText(raw: string | Uint8Array | undefined, contentType: string | undefined, policy: RecordingPolicy): string | Uint8Array | undefined {
+  const captured = captureBody(raw, contentType, { ...policy, maxBodyChars: Infinity });
+  if (captured.bodyType !== 'json' && captured.bodyType !== 'form') return raw;
+  return redactedPaths(captured.body).length > 0 ? recordedBodyText(captured) : raw;
+}
+
+// The recorded body as it would go on the wire again, when it was kept whole
+export function recordedBodyText(recorded: RecordedBody): string | undefined {
+  if (recorded.body === undefined || recorded.bodyTruncated) return undefined;
+  if (recorded.bodyType === 'json') return JSON.stringify(recorded.body);
+  if (recorded.bodyType === 'form') return new URLSearchParams(recorded.body as Record<string, string>).toString();
+  return String(recorded.body);
+}
+
+// Paths of the values that were masked when a body was recorded
+export function redactedPaths(value: unknown, path = ''): string[] {
+  if (value === MASKED_VALUE) return [path || '(body)'];
+  if (value === null || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([name, item]) =>
+    redactedPaths(item, Array.isArray(value) ? `${path}[${name}]` : path ? `${path}.${name}` : name));
+}
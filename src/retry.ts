@@ -0,0 +1,109 @@
+import type { HttpMethod, RetryableError, RetryPolicy } from "./types.js";
+
+// Retry policy for make_request: exponential backoff with jitter, honoring Retry-After
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnErrors: ['network', 'timeout'],
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export type RetryOverrides = { [K in keyof RetryPolicy]?: RetryPolicy[K] | undefined };
+
+// Drop unset fields so they don't shadow the defaults or a policy underneath
+export function compact<T>(overrides: { [K in keyof T]?: T[K] | undefined }): Partial<T> {
+  const compacted: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(overrides)) {
+    if (value !== undefined) compacted[field] = value;
+  }
+  return compacted as Partial<T>;
+}
+
+// Defaults, then the API's policy, then the per-call override
+export function resolveRetryPolicy(...layers: Array<RetryOverrides | undefined>): RetryPolicy {
+  return layers.reduce<RetryPolicy>(
+    (policy, layer) => layer ? { ...policy, ...compact(layer) } : policy,
+    { ...DEFAULT_RETRY_POLICY }
+  );
+}
+
+export function hasIdempotencyKey(headers: Record<string, string>): boolean {
+  return Object.keys(headers).some(name => name.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase());
+}
+
+// Replaying a POST/PATCH could apply it twice, unless the server deduplicates by key
+export function canRetryMethod(method: HttpMethod | string, headers: Record<string, string>, policy: RetryPolicy): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase()) || policy.retryNonIdempotent || hasIdempotencyKey(headers);
+}
+
+// Transport failures fetch reports, as opposed to errors from our own request preparation
+export function classifyError(error: any): RetryableError | undefined {
+  if (error?.name === 'AbortError' || error?.name === 'TimeoutError') return 'timeout';
+  if (error instanceof TypeError && error.message === 'fetch failed') return 'network';
+  return undefined;
+}
+
+// Retry-After as delta-seconds or an HTTP date, in milliseconds
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Half fixed, half random ("equal jitter") so clients don't retry in lockstep
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+export type RetryDecision =
+  | { retry: true, delayMs: number }
+  | { retry: false, reason?: string };
+
+/**
+ * Decide whether attempt number `attempt` (1-based), which ended with either
+ * an HTTP status or an error, should be followed by another one.
+ */
+export function nextRetry(
+  policy: RetryPolicy,
+  attempt: number,
+  methodRetryable: boolean,
+  outcome: { status: number, retryAfter: string | null } | { error: any }
+): RetryDecision {
+  if ('status' in outcome) {
+    if (!policy.retryOnStatus.includes(outcome.status)) return { retry: false };
+  } else {
+    const kind = classifyError(outcome.error);
+    if (!kind || !policy.retryOnErrors.includes(kind)) return { retry: false };
+  }
+
+  if (attempt >= policy.maxAttempts) {
+    return { retry: false, ...(policy.maxAttempts > 1 ? { reason: `gave up after ${attempt} attempts` } : {}) };
+  }
+  if (!methodRetryable) {
+    return { retry: false, reason: `not retried: non-idempotent request without an ${IDEMPOTENCY_KEY_HEADER} header` };
+  }
+
+  if ('status' in outcome && (outcome.status === 429 || outcome.status === 503)) {
+    const retryAfter = parseRetryAfter(outcome.retryAfter);
+    if (retryAfter !== undefined) {
+      if (retryAfter > policy.maxDelayMs) {
+        return { retry: false, reason: `not retried: Retry-After of ${Math.ceil(retryAfter / 1000)}s exceeds maxDelayMs` };
+      }
+      return { retry: true, delayMs: retryAfter };
+    }
+  }
+  return { retry: true, delayMs: backoffDelay(attempt, policy) };
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
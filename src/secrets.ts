@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+// ${env:NAME} or ${file:/absolute/path}
+const REFERENCE_PATTERN = /\$\{(env|file):([^}]+)\}/g;
+const SINGLE_REFERENCE_PATTERN = /^\$\{(env|file):([^}]+)\}$/;
+
+// The server's own settings are never resolvable, even when allowlisted, otherwise a
+// saved config could exfiltrate the vault key
+const PROTECTED_ENV_VARS = new Set([
+  'MASTER_KEY', 'MASTER_KEY_PREVIOUS', 'SECRET_ENV_ALLOWLIST', 'SECRET_FILE_ROOTS',
+  'STORAGE_BACKEND', 'STORAGE_PATH', 'HISTORY_MAX_ENTRIES', 'HISTORY_MAX_AGE_DAYS', 'PORT', 'HOST'
+]);
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// True when the whole value is a single reference (stored as-is, never encrypted)
+export function isSecretReference(value: string): boolean {
+  return SINGLE_REFERENCE_PATTERN.test(value);
+}
+
+export function findSecretReferences(value: string): string[] {
+  return value.match(REFERENCE_PATTERN) || [];
+}
+
+function resolveEnvReference(name: string, env: NodeJS.ProcessEnv): string {
+  if (PROTECTED_ENV_VARS.has(name)) {
+    throw new Error(`environment variable ${name} cannot be referenced`);
+  }
+  // Only the variables listed can be read; with no list, none can
+  const allowlist = listFromEnv(env.SECRET_ENV_ALLOWLIST);
+  if (!allowlist.includes(name)) {
+    throw new Error(allowlist.length > 0
+      ? `environment variable ${name} is not in SECRET_ENV_ALLOWLIST`
+      : `SECRET_ENV_ALLOWLIST is not set, so no environment variable (${name} here) can be referenced`);
+  }
+  const value = env[name];
+  if (value === undefined || value === '') {
+    throw new Error(`environment variable ${name} is not set`);
+  }
+  return value;
+}
+
+function resolveFileReference(filePath: string, env: NodeJS.ProcessEnv): string {
+  if (!path.isAbsolute(filePath)) {
+    throw new Error(`file path ${filePath} must be absolute`);
+  }
+  const resolved = path.resolve(filePath);
+  const roots = listFromEnv(env.SECRET_FILE_ROOTS);
+  const allowedRoots = (roots.length > 0 ? roots : ['/run/secrets']).map(root => path.resolve(root));
+  if (!allowedRoots.some(root => resolved === root || resolved.startsWith(root + path.sep))) {
+    throw new Error(`file ${resolved} is outside SECRET_FILE_ROOTS (${allowedRoots.join(', ')})`);
+  }
+  try {
+    // Secret files usually end with a newline that must not reach the header
+    return readFileSync(resolved, 'utf8').replace(/\r?\n$/, '');
+  } catch (error: any) {
+    throw new Error(`file ${resolved} could not be read (${error.code || error.message})`);
+  }
+}
+
+// Replace every reference in a value with its current contents
+export function resolveSecretReferences(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(REFERENCE_PATTERN, (reference, source: string, target: string) => {
+    try {
+      return source === 'env'
+        ? resolveEnvReference(target.trim(), env)
+        : resolveFileReference(target.trim(), env);
+    } catch (error: any) {
+      throw new Error(`Secret reference ${reference} could not be resolved: ${error.message}`);
+    }
+  });
+}
@@ -1,9 +1,66 @@
 import express from "express";
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createStorage, historyId, pruneHistory, resolveHistoryRetention, STORAGE_SCHEMA_VERSION } from "./storage.js";
+import { createVault, isEncryptedSecret, isSecretCredentialField, SECRET_CREDENTIAL_FIELDS } from "./vault.js";
+import { findSecretReferences, isSecretReference, resolveSecretReferences } from "./secrets.js";
+import { isOAuthAuthType, OAuthTokenManager, type OAuthGrant } from "./oauth.js";
+import { signAwsSigV4, signHmac, type SignableRequest, type SignedRequest } from "./signing.js";
+import { SessionManager, type LoginSpec } from "./session.js";
+import { importOpenApiDocument, parseSpecText, referencedSchemas } from "./openapi.js";
+import { matchOperation, validateRequest, validateResponse } from "./validation.js";
+import { buildOperationTools } from "./operations.js";
+import {
+  canRetryMethod,
+  classifyError,
+  compact,
+  IDEMPOTENCY_KEY_HEADER,
+  nextRetry,
+  resolveRetryPolicy,
+  sleep,
+  type RetryOverrides
+} from "./retry.js";
+import { RateLimitManager, type RateLimitSlot } from "./ratelimit.js";
+import { requestCacheDirectives, resolveCachePolicy, ResponseCache, type CacheStatus } from "./cache.js";
+import { Paginator, relativeEndpoint, resolvePagination, withPageSize, type PaginationOverrides, type PaginationSummary } from "./pagination.js";
+import { DEFAULT_MAX_ROWS, type ParseOptions } from "./parsers.js";
+import {
+  condenseIntrospection,
+  DEFAULT_GRAPHQL_ENDPOINT,
+  describeGraphqlField,
+  describeGraphqlType,
+  graphqlErrors,
+  INTROSPECTION_QUERY,
+  referencedGraphqlTypes,
+  rootFields,
+  summarizeGraphqlSchema
+} from "./graphql.js";
+import { DEFAULT_STREAM_OPTIONS, readStream, resolveStreamOptions, type StreamOverrides, type StreamSummary } from "./streaming.js";
+import { encodeBody, hasHeader, withoutHeader, type MultipartFile } from "./body.js";
+import { BINARY_URI_PREFIX, BinaryStore, canInlineImage, isBinaryBody, parseResponseBody, sha256, type BinarySummary, type ParsedResponse, type ResponseType } from "./binary.js";
+import { DEFAULT_MAX_RESPONSE_CHARS, invalidSelect, limitOutput, ResponseStore, selectJson } from "./shaping.js";
+import { DEFAULT_COLLECTION, describeSavedRequest, findSavedRequest, renderSavedRequest, templateParameters } from "./templates.js";
+import { allCredentials, credentialsHolding, fillVariables, withEnvironment } from "./environments.js";
+import { exportPostmanCollection, importPostmanCollection, importPostmanEnvironment } from "./postman.js";
+import { formatCurl, maskHeaders, MASKED_VALUE, parseCurl, type ParsedCurl } from "./curl.js";
+import {
+  captureBody,
+  captureParsedBody,
+  DEFAULT_RECORDING_POLICY,
+  readBodyPrefix,
+  recordedBodyText,
+  redactBodyText,
+  redactedPaths,
+  redactUrl,
+  resolveRecordingPolicy
+} from "./recording.js";
+import { CircuitBreakerManager, isUpstreamFailure, type CircuitTicket } from "./breaker.js";
+import type { ApiCatalog, ApiConfig, ApiOperation, ApiCredentials, AuthType, BodyType, GraphqlSchema, HttpMethod, RecordedRequest, RecordedResponse, RecordingPolicy, RequestHistory, RetryPolicy, SavedRequest } from "./types.js";
 
 // Environment configuration
 const PORT = process.env.PORT || 3000;
@@ -20,50 +77,200 @@ function addToLog(message: string) {
   console.log(`[LOG] ${message}`);
 }
 
-// TypeScript Interfaces
-interface ApiConfig {
-  name: string;
-  baseUrl: string;
-  description?: string;
-  auth?: {
-    type: 'bearer' | 'api-key' | 'basic' | 'none';
-    credentials?: {
-      token?: string;
-      apiKey?: string;
-      username?: string;
-      password?: string;
-      headerName?: string; // for api-key custom
-    }
-  };
-  headers?: Record<string, string>;
-  timeout?: number;
-  createdAt: string;
-  lastUsed?: string;
-}
-
-interface RequestHistory {
-  timestamp: string;
-  apiName: string;
-  method: string;
-  endpoint: string;
-  status: number;
-  responseTime: number;
-  success: boolean;
-}
-
 // Storage and state management
+// The Map/array are the working set; every change is written through to the
+// configured storage backend (STORAGE_BACKEND=memory|file|sqlite)
+const historyRetention = resolveHistoryRetention();
+const storage = createStorage();
+// Secret credentials are sealed with MASTER_KEY before they reach apiConfigs or storage
+const vault = createVault();
+// OAuth2 access tokens are cached in memory only and re-fetched after a restart
+const oauthTokens = new OAuthTokenManager();
+// Session logins and per-API cookie jars, also memory-only
+const sessions = new SessionManager();
+// Rate limiters live here, not in a session, so every MCP client shares the same budget
+const rateLimits = new RateLimitManager();
+// Cached GET responses, memory-only like the rest of the per-API runtime state
+const responseCache = new ResponseCache();
+// Full text of make_request results that were cut to fit maxResponseChars, for read_response
+const storedResponses = new ResponseStore();
+// Binary response bodies, exposed as binary://responses/{id} resources
+const binaryResponses = new BinaryStore();
 const apiConfigs = new Map<string, ApiConfig>();
 const requestHistory: RequestHistory[] = [];
+// Circuit breakers trip on the failures recorded in requestHistory
+const breakers = new CircuitBreakerManager(
+  () => requestHistory,
+  (apiName, state, reason) => addToLog(`Circuit for ${apiName} is now ${state}: ${reason}`)
+);
 
 // Helper functions
 function getApiConfig(name: string): ApiConfig | undefined {
   return apiConfigs.get(name);
 }
 
-function buildHeaders(config: ApiConfig, customHeaders?: Record<string, string>): Record<string, string> {
+// Decrypt a stored secret and resolve ${env:...}/${file:...} references at request time
+function revealCredential(config: ApiConfig, value: string): string {
+  let plaintext: string;
+  try {
+    plaintext = vault.open(value);
+  } catch (error: any) {
+    throw new Error(`Cannot decrypt credentials for API "${config.name}": ${error.message}`);
+  }
+  return resolveConfigReferences(config, plaintext);
+}
+
+function resolveConfigReferences(config: ApiConfig, value: string): string {
+  try {
+    return resolveSecretReferences(value);
+  } catch (error: any) {
+    throw new Error(`Cannot resolve credentials for API "${config.name}": ${error.message}`);
+  }
+}
+
+// References are stored verbatim so get_api can show them; literal secrets are encrypted
+function sealSecret(value: string): string {
+  return isSecretReference(value) ? value : vault.seal(value);
+}
+
+function redactSecret(value: string): string {
+  return isSecretReference(value) ? value : '[REDACTED]';
+}
+
+// Encrypt secret credential fields that are plaintext (or, unless plaintextOnly,
+// sealed with an old key). Returns the number of fields that changed.
+function resealCredentials(config: ApiConfig, plaintextOnly = false): number {
+  let changed = 0;
+  for (const credentials of allCredentials(config)) {
+    for (const field of SECRET_CREDENTIAL_FIELDS) {
+      const value = credentials[field];
+      if (!value || isSecretReference(value)) continue;
+      if (plaintextOnly ? !isEncryptedSecret(value) : vault.needsReseal(value)) {
+        credentials[field] = vault.reseal(value);
+        changed++;
+      }
+    }
+  }
+  return changed;
+}
+
+// Decrypted OAuth2 grant parameters, only built when a new token must be fetched
+function resolveOAuthGrant(config: ApiConfig): OAuthGrant {
+  const type = config.auth?.type;
+  const credentials = config.auth?.credentials || {};
+  if (!isOAuthAuthType(type) || !credentials.tokenUrl || !credentials.clientId) {
+    throw new Error(`API "${config.name}" is missing OAuth2 tokenUrl or clientId`);
+  }
+  return {
+    type,
+    tokenUrl: credentials.tokenUrl,
+    clientId: credentials.clientId,
+    ...(credentials.clientSecret ? { clientSecret: revealCredential(config, credentials.clientSecret) } : {}),
+    ...(credentials.refreshToken ? { refreshToken: revealCredential(config, credentials.refreshToken) } : {}),
+    ...(credentials.scopes ? { scopes: credentials.scopes } : {}),
+    ...(credentials.clientAuthentication ? { clientAuthentication: credentials.clientAuthentication } : {})
+  };
+}
+
+function cookieJarEnabled(config: ApiConfig): boolean {
+  return config.auth?.type === 'session' || config.cookieJar === true;
+}
+
+// Fill {{username}} / {{password}} placeholders anywhere in the login body
+function fillLoginPlaceholders(value: unknown, values: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(username|password)\}\}/g, (_, key: string) => values[key] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillLoginPlaceholders(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillLoginPlaceholders(item, values)]));
+  }
+  return value;
+}
+
+// Decrypted login request for session auth, only built when a login is needed
+function resolveLoginSpec(config: ApiConfig): LoginSpec {
+  const credentials = config.auth?.credentials || {};
+  if (!credentials.loginEndpoint) {
+    throw new Error(`API "${config.name}" is missing its session loginEndpoint`);
+  }
+
+  const values = {
+    username: credentials.username || '',
+    password: credentials.password ? revealCredential(config, credentials.password) : ''
+  };
+  const template = credentials.loginBody || { username: '{{username}}', password: '{{password}}' };
+  const loginBody = fillLoginPlaceholders(template, values) as Record<string, unknown>;
+  const method = credentials.loginMethod || 'POST';
+
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+  let body: string | undefined;
+  if (method !== 'GET') {
+    if (credentials.loginContentType === 'form') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      body = new URLSearchParams(
+        Object.entries(loginBody).map(([key, value]) => [key, String(value ?? '')])
+      ).toString();
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(loginBody);
+    }
+  }
+
+  return {
+    url: /^https?:\/\//.test(credentials.loginEndpoint)
+      ? credentials.loginEndpoint
+      : buildUrl(config.baseUrl, credentials.loginEndpoint),
+    method,
+    headers,
+    ...(body !== undefined ? { body } : {}),
+    extract: credentials.sessionExtract || 'cookie',
+    ...(credentials.tokenPath ? { tokenPath: credentials.tokenPath } : {}),
+    ...(credentials.tokenResponseHeader ? { tokenResponseHeader: credentials.tokenResponseHeader } : {}),
+    timeoutMs: config.timeout || 30000
+  };
+}
+
+// Server-side expiry of tokens/sessions shows up as these statuses
+function needsReauthentication(config: ApiConfig, status: number): boolean {
+  const type = config.auth?.type;
+  if (isOAuthAuthType(type)) return status === 401;
+  if (type === 'session') return status === 401 || status === 403;
+  return false;
+}
+
+function invalidateAuthentication(config: ApiConfig): void {
+  oauthTokens.invalidate(config.name);
+  sessions.invalidate(config.name);
+}
+
+// Tokens, cookies and cached responses belong to the credentials and URL they came
+// from, so they are dropped when the active environment changes
+function forgetEnvironmentState(apiName: string): void {
+  oauthTokens.forget(apiName);
+  sessions.forget(apiName);
+  responseCache.purge(apiName);
+}
+
+// With authenticate false, OAuth2 and session auth add nothing rather than fetch a token or log in
+async function buildHeaders(
+  config: ApiConfig,
+  customHeaders?: Record<string, string>,
+  contentType = 'application/json',
+  authenticate = true
+): Promise<Record<string, string>> {
+  const defaultHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers || {})) {
+    defaultHeaders[name] = resolveConfigReferences(config, value);
+  }
+
+  // The body's Content-Type applies unless the API or the request set one, in whatever case
+  const requestSetsType = hasHeader(customHeaders, 'Content-Type');
   const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...config.headers,
+    ...(requestSetsType || hasHeader(defaultHeaders, 'Content-Type') ? {} : { 'Content-Type': contentType }),
+    ...(requestSetsType ? withoutHeader(defaultHeaders, 'Content-Type') : defaultHeaders),
     ...customHeaders
   };
 
@@ -73,26 +280,118 @@ function buildHeaders(config: ApiConfig, customHeaders?: Record<string, string>)
     switch (type) {
       case 'bearer':
         if (credentials.token) {
-          headers['Authorization'] = `Bearer ${credentials.token}`;
+          headers['Authorization'] = `Bearer ${revealCredential(config, credentials.token)}`;
         }
         break;
       case 'api-key':
         if (credentials.apiKey && credentials.headerName) {
-          headers[credentials.headerName] = credentials.apiKey;
+          headers[credentials.headerName] = revealCredential(config, credentials.apiKey);
         }
         break;
       case 'basic':
         if (credentials.username && credentials.password) {
-          const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+          const password = revealCredential(config, credentials.password);
+          const encoded = Buffer.from(`${credentials.username}:${password}`).toString('base64');
           headers['Authorization'] = `Basic ${encoded}`;
         }
         break;
+      case 'oauth2-client-credentials':
+      case 'oauth2-refresh-token': {
+        if (!authenticate) break;
+        const token = await oauthTokens.getAccessToken(
+          config.name,
+          () => resolveOAuthGrant(config),
+          config.timeout || 30000,
+          (refreshToken) => {
+            // The provider rotated the refresh token; the old one is likely revoked.
+            // It is stored where it came from, the API or its active environment
+            const stored = apiConfigs.get(config.name) || config;
+            const sealed = sealSecret(refreshToken);
+            credentials.refreshToken = sealed;
+            const holder = credentialsHolding(stored, 'refreshToken');
+            if (holder) holder.refreshToken = sealed;
+            persistApiInBackground(stored);
+            addToLog(`Stored rotated OAuth2 refresh token for ${config.name}`);
+          }
+        );
+        const tokenType = token.tokenType.toLowerCase() === 'bearer' ? 'Bearer' : token.tokenType;
+        headers['Authorization'] = `${tokenType} ${token.accessToken}`;
+        break;
+      }
+      case 'session': {
+        if (!authenticate) break;
+        await sessions.ensureLoggedIn(config.name, () => resolveLoginSpec(config));
+        // Cookie-based sessions are replayed from the jar in prepareRequest
+        const token = sessions.token(config.name);
+        if (token) {
+          headers[credentials.tokenHeader || 'Authorization'] = `${credentials.tokenPrefix ?? 'Bearer '}${token}`;
+        }
+        break;
+      }
     }
   }
 
   return headers;
 }
 
+// Sign the finished request for aws-sigv4 / hmac auth; other auth types pass through
+function signRequest(config: ApiConfig, request: SignableRequest): SignedRequest {
+  const type = config.auth?.type;
+  const credentials = config.auth?.credentials || {};
+
+  if (type === 'aws-sigv4') {
+    if (!credentials.accessKeyId || !credentials.secretAccessKey || !credentials.region || !credentials.service) {
+      throw new Error(`API "${config.name}" is missing AWS SigV4 accessKeyId, secretAccessKey, region or service`);
+    }
+    return signAwsSigV4(request, {
+      accessKeyId: revealCredential(config, credentials.accessKeyId),
+      secretAccessKey: revealCredential(config, credentials.secretAccessKey),
+      region: credentials.region,
+      service: credentials.service,
+      ...(credentials.sessionToken ? { sessionToken: revealCredential(config, credentials.sessionToken) } : {})
+    });
+  }
+
+  if (type === 'hmac') {
+    if (!credentials.hmacSecret) {
+      throw new Error(`API "${config.name}" is missing its HMAC secret`);
+    }
+    return signHmac(request, {
+      secret: revealCredential(config, credentials.hmacSecret),
+      ...(credentials.algorithm ? { algorithm: credentials.algorithm } : {}),
+      ...(credentials.canonicalTemplate ? { canonicalTemplate: credentials.canonicalTemplate } : {}),
+      ...(credentials.signatureHeader ? { signatureHeader: credentials.signatureHeader } : {}),
+      ...(credentials.signatureEncoding ? { signatureEncoding: credentials.signatureEncoding } : {}),
+      ...(credentials.signatureFormat ? { signatureFormat: credentials.signatureFormat } : {}),
+      ...(credentials.timestampHeader ? { timestampHeader: credentials.timestampHeader } : {}),
+      ...(credentials.nonceHeader ? { nonceHeader: credentials.nonceHeader } : {})
+    });
+  }
+
+  return { url: request.url, headers: request.headers };
+}
+
+// Headers, cookies and signature for one attempt at a request
+async function prepareRequest(
+  config: ApiConfig,
+  method: string,
+  url: string,
+  customHeaders?: Record<string, string>,
+  body?: string | Uint8Array,
+  contentType?: string
+): Promise<SignedRequest> {
+  const headers = await buildHeaders(config, customHeaders, contentType);
+
+  if (cookieJarEnabled(config)) {
+    const cookie = sessions.jar(config.name).headerFor(url);
+    if (cookie) {
+      headers['Cookie'] = headers['Cookie'] ? `${headers['Cookie']}; ${cookie}` : cookie;
+    }
+  }
+
+  return signRequest(config, { method, url, headers, ...(body !== undefined ? { body } : {}) });
+}
+
 function buildUrl(baseUrl: string, endpoint: string, queryParams?: Record<string, any>): string {
   // Ensure baseUrl doesn't end with slash and endpoint starts with slash
   const cleanBase = baseUrl.replace(/\/$/, '');
@@ -112,41 +411,67 @@ function buildUrl(baseUrl: string, endpoint: string, queryParams?: Record<string
   return url;
 }
 
-async function parseResponse(response: Response): Promise<any> {
-  const contentType = response.headers.get('content-type') || '';
+// Catalog header without the operations and schemas themselves
+function summarizeCatalog(catalog: ApiCatalog) {
+  return {
+    format: catalog.format,
+    specVersion: catalog.specVersion,
+    ...(catalog.title ? { title: catalog.title } : {}),
+    ...(catalog.version ? { version: catalog.version } : {}),
+    ...(catalog.sourceUrl ? { sourceUrl: catalog.sourceUrl } : {}),
+    importedAt: catalog.importedAt,
+    operationCount: catalog.operations.length,
+    schemaCount: Object.keys(catalog.schemas).length
+  };
+}
 
-  if (contentType.includes('application/json')) {
-    return await response.json();
-  } else if (contentType.includes('text/')) {
-    return await response.text();
-  } else {
-    // Try to parse as text first, fallback to json
-    const text = await response.text();
-    try {
-      return JSON.parse(text);
-    } catch {
-      return text;
-    }
-  }
+function describeOperation(operation: ApiOperation): string {
+  return `${operation.method} ${operation.path} (${operation.operationId})${operation.summary ? ` - ${operation.summary}` : ''}${operation.deprecated ? ' [deprecated]' : ''}`;
 }
 
 function sanitizeConfig(config: ApiConfig): any {
-  const sanitized = { ...config };
+  const { catalog, graphql, ...rest } = config;
+  const sanitized: any = { ...rest };
+  if (catalog) {
+    sanitized.catalog = summarizeCatalog(catalog);
+  }
+  if (graphql) {
+    sanitized.graphql = {
+      endpoint: graphql.endpoint,
+      ...(graphql.schema ? { schema: { introspectedAt: graphql.schema.introspectedAt, typeCount: Object.keys(graphql.schema.types).length } } : {})
+    };
+  }
   if (sanitized.auth?.credentials) {
-    const creds = sanitized.auth.credentials;
-    const newCredentials: Record<string, string> = {};
-
-    if (creds.username) newCredentials.username = creds.username;
-    if (creds.headerName) newCredentials.headerName = creds.headerName;
-    if (creds.token) newCredentials.token = '[REDACTED]';
-    if (creds.apiKey) newCredentials.apiKey = '[REDACTED]';
-    if (creds.password) newCredentials.password = '[REDACTED]';
-
-    sanitized.auth.credentials = newCredentials;
+    // Copy auth rather than mutating the stored (and persisted) config
+    sanitized.auth = { ...sanitized.auth, credentials: redactCredentials(sanitized.auth.credentials) };
+  }
+  if (config.collections) {
+    sanitized.collections = Object.fromEntries(Object.entries(config.collections).map(([name, collection]) => [
+      name,
+      {
+        ...(collection.description ? { description: collection.description } : {}),
+        requests: Object.values(collection.requests).map(request => describeSavedRequest(name, request))
+      }
+    ]));
+  }
+  if (config.environments) {
+    sanitized.environments = Object.fromEntries(Object.entries(config.environments).map(([name, environment]) => [
+      name,
+      environment.credentials ? { ...environment, credentials: redactCredentials(environment.credentials) } : environment
+    ]));
   }
   return sanitized;
 }
 
+function redactCredentials(credentials: ApiCredentials): ApiCredentials {
+  const redacted: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(credentials)) {
+    if (value === undefined) continue;
+    redacted[field] = isSecretCredentialField(field) ? redactSecret(value as string) : value;
+  }
+  return redacted as ApiCredentials;
+}
+
 function validateUrl(url: string): boolean {
   try {
     new URL(url);
@@ -156,489 +481,2770 @@ function validateUrl(url: string): boolean {
   }
 }
 
-function addRequestToHistory(request: RequestHistory): void {
+function addRequestToHistory(entry: Omit<RequestHistory, 'id'>): RequestHistory {
+  const request: RequestHistory = { id: historyId(), ...entry };
   requestHistory.push(request);
-  if (requestHistory.length > 100) {
-    requestHistory.shift(); // Keep only last 100 requests
-  }
+  pruneHistory(requestHistory, historyRetention);
+  storage.appendHistory(request, historyRetention).catch((error) => {
+    addToLog(`Failed to persist request history: ${error.message}`);
+  });
+  return request;
 }
 
-// Create MCP server instance
-const mcp = new McpServer({
-  name: "api-manager-mcp",
-  version: "1.0.0",
-  description: "Universal API Manager for MCP - Save configurations and execute HTTP requests to any API"
-}, {
-  capabilities: {
-    tools: {},
-    resources: {}
+// Persist a config change without failing the calling request
+function persistApiInBackground(config: ApiConfig): void {
+  storage.saveApi(config).catch((error) => {
+    addToLog(`Failed to persist API ${config.name}: ${error.message}`);
+  });
+}
+
+async function loadStoredState(): Promise<void> {
+  const state = await storage.load();
+  state.apis.forEach(config => apiConfigs.set(config.name, config));
+  requestHistory.push(...state.history);
+  pruneHistory(requestHistory, historyRetention);
+  addToLog(`Loaded ${apiConfigs.size} APIs and ${requestHistory.length} history entries from ${storage.kind} storage${storage.location ? ` (${storage.location})` : ''}`);
+
+  if (!vault.enabled) {
+    if (storage.kind !== 'memory') {
+      addToLog("WARNING: MASTER_KEY is not set, credentials are persisted in plaintext");
+    }
+    return;
+  }
+
+  // Encrypt credentials that were stored before MASTER_KEY was configured
+  for (const config of apiConfigs.values()) {
+    if (resealCredentials(config, true) > 0) {
+      await storage.saveApi(config);
+      addToLog(`Encrypted plaintext credentials for API ${config.name}`);
+    }
   }
+}
+
+// Credential fields shared by save_api and import_openapi
+const credentialsSchema = z.object({
+  token: z.string().optional().describe("Bearer token, or a reference like ${env:GITHUB_TOKEN} (the variable must be listed in SECRET_ENV_ALLOWLIST)"),
+  apiKey: z.string().optional().describe("API key, or a reference like ${file:/run/secrets/api_key}"),
+  username: z.string().optional().describe("Username for basic auth"),
+  password: z.string().optional().describe("Password for basic auth (literal or ${env:...}/${file:...} reference)"),
+  headerName: z.string().optional().describe("Custom header name for API key"),
+  tokenUrl: z.string().optional().describe("OAuth2 token endpoint URL"),
+  clientId: z.string().optional().describe("OAuth2 client ID"),
+  clientSecret: z.string().optional().describe("OAuth2 client secret (literal or ${env:...}/${file:...} reference)"),
+  refreshToken: z.string().optional().describe("OAuth2 refresh token for oauth2-refresh-token (literal or reference)"),
+  scopes: z.array(z.string()).optional().describe("OAuth2 scopes to request"),
+  clientAuthentication: z.enum(['basic', 'body']).optional().describe("How to send the OAuth2 client credentials: HTTP Basic header (default) or form body"),
+  accessKeyId: z.string().optional().describe("AWS access key ID for aws-sigv4"),
+  secretAccessKey: z.string().optional().describe("AWS secret access key for aws-sigv4 (literal or reference)"),
+  sessionToken: z.string().optional().describe("Optional AWS session token for temporary credentials"),
+  region: z.string().optional().describe("AWS region, e.g. us-east-1"),
+  service: z.string().optional().describe("AWS service signing name, e.g. execute-api, s3, sqs"),
+  hmacSecret: z.string().optional().describe("Shared secret for hmac auth (literal or reference)"),
+  algorithm: z.enum(['sha1', 'sha256', 'sha512']).optional().describe("HMAC algorithm (default: sha256)"),
+  canonicalTemplate: z.string().optional().describe("String to sign, with placeholders {method} {url} {path} {query} {host} {timestamp} {isoTimestamp} {nonce} {body} {bodySha256} {header:Name}"),
+  signatureHeader: z.string().optional().describe("Header that carries the HMAC signature (default: X-Signature)"),
+  signatureEncoding: z.enum(['hex', 'base64']).optional().describe("Signature encoding (default: hex)"),
+  signatureFormat: z.string().optional().describe("Signature header value template (default: {signature})"),
+  timestampHeader: z.string().optional().describe("Header to send the {timestamp} in"),
+  nonceHeader: z.string().optional().describe("Header to send the {nonce} in"),
+  loginEndpoint: z.string().optional().describe("Session login endpoint, relative to baseUrl or absolute"),
+  loginMethod: z.enum(['POST', 'PUT', 'GET']).optional().describe("Session login HTTP method (default: POST)"),
+  loginBody: z.record(z.any()).optional().describe("Session login body; {{username}} and {{password}} are filled in (default: {username, password})"),
+  loginContentType: z.enum(['json', 'form']).optional().describe("Encode the login body as JSON (default) or form-urlencoded"),
+  sessionExtract: z.enum(['cookie', 'body', 'header']).optional().describe("Where the login response carries the session: Set-Cookie (default), a JSON body field or a response header"),
+  tokenPath: z.string().optional().describe("JSON path of the session token in the login response body (default: token)"),
+  tokenResponseHeader: z.string().optional().describe("Login response header holding the session token"),
+  tokenHeader: z.string().optional().describe("Request header to send the session token in (default: Authorization)"),
+  tokenPrefix: z.string().optional().describe("Prefix for the session token header value (default: 'Bearer ')")
+});
+type ApiCredentialsInput = z.infer<typeof credentialsSchema>;
+
+// Retry policy fields shared by save_api and make_request
+const retrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).optional().describe("Total attempts including the first one (default: 3; 1 disables retries)"),
+  retryOnStatus: z.array(z.number().int()).optional().describe("HTTP statuses to retry (default: 408, 429, 500, 502, 503, 504)"),
+  retryOnErrors: z.array(z.enum(['network', 'timeout'])).optional().describe("Transport failures to retry (default: network and timeout)"),
+  baseDelayMs: z.number().min(0).optional().describe("First backoff delay, doubled on every attempt with jitter (default: 500)"),
+  maxDelayMs: z.number().min(0).optional().describe("Longest backoff, and the longest Retry-After worth waiting for (default: 30000)"),
+  retryNonIdempotent: z.boolean().optional().describe("Also retry POST/PATCH requests that have no Idempotency-Key (default: false)")
 });
 
-// TOOL: save_api - Save API configuration
-mcp.tool(
-  "save_api",
-  "Save a new API configuration for future use. Store base URL, authentication, and default headers.",
-  {
-    name: z.string().describe("Unique identifier for this API"),
-    baseUrl: z.string().describe("Base URL of the API (e.g., https://api.example.com)"),
-    description: z.string().optional().describe("Description of what this API does"),
-    auth: z.object({
-      type: z.enum(['bearer', 'api-key', 'basic', 'none']).describe("Authentication type"),
-      credentials: z.object({
-        token: z.string().optional().describe("Bearer token"),
-        apiKey: z.string().optional().describe("API key"),
-        username: z.string().optional().describe("Username for basic auth"),
-        password: z.string().optional().describe("Password for basic auth"),
-        headerName: z.string().optional().describe("Custom header name for API key")
-      }).optional().describe("Authentication credentials")
-    }).optional().describe("Authentication configuration"),
-    headers: z.record(z.string()).optional().describe("Default headers to include in all requests"),
-    timeout: z.number().optional().describe("Request timeout in milliseconds (default: 30000)")
-  },
-  async ({ name, baseUrl, description, auth, headers, timeout = 30000 }) => {
-    try {
-      // Validations
-      if (apiConfigs.has(name)) {
-        throw new Error(`API "${name}" already exists. Use a different name or delete the existing one first.`);
-      }
+// Client-side rate limit for save_api
+const rateLimitSchema = z.object({
+  requestsPerSecond: z.number().positive().optional().describe("Sustained requests per second, with bursts of the same size"),
+  requestsPerMinute: z.number().positive().optional().describe("Requests per minute, with bursts of the same size"),
+  maxConcurrent: z.number().int().min(1).optional().describe("Requests allowed in flight at once"),
+  maxQueue: z.number().int().min(0).optional().describe("Calls that may wait for a slot before new ones fail immediately (default: 100)"),
+  maxWaitMs: z.number().min(0).optional().describe("Longest a queued call waits for its slot (default: 60000)"),
+  adaptive: z.boolean().optional().describe("Slow down or pause according to X-RateLimit-Remaining/X-RateLimit-Reset and 429 responses (default: true)")
+});
 
-      if (!validateUrl(baseUrl)) {
-        throw new Error("Invalid baseUrl. Must start with http:// or https://");
-      }
+// Response cache settings for save_api
+const cacheSchema = z.object({
+  enabled: z.boolean().optional().describe("Cache GET responses for this API (default: true once cache is set)"),
+  ttlMs: z.number().min(0).optional().describe("How long a response stays fresh when it has no Cache-Control max-age or Expires (default: 60000)"),
+  maxEntries: z.number().int().min(1).optional().describe("Most responses kept for this API; the least recently used go first (default: 200)")
+});
 
-      // Validate auth requirements
-      if (auth && auth.type !== 'none' && auth.credentials) {
-        const { type, credentials } = auth;
-        switch (type) {
-          case 'bearer':
-            if (!credentials.token) {
-              throw new Error("Bearer authentication requires a token");
-            }
-            break;
-          case 'api-key':
-            if (!credentials.apiKey || !credentials.headerName) {
-              throw new Error("API key authentication requires both apiKey and headerName");
-            }
-            break;
-          case 'basic':
-            if (!credentials.username || !credentials.password) {
-              throw new Error("Basic authentication requires both username and password");
-            }
-            break;
-        }
-      }
+// Request recording settings for save_api
+const recordingSchema = z.object({
+  enabled: z.boolean().optional().describe("Keep the headers and bodies of requests and responses in the history (default: true once recording is set)"),
+  redactFields: z.array(z.string()).optional().describe("Body fields and query parameters to mask besides password, secret, token, apiKey and the like (case, - and _ are ignored)"),
+  maxBodyChars: z.number().int().min(100).optional().describe("Longer bodies are cut, and can then only be replayed with a new body (default: 10000)")
+});
 
-      // Create and store configuration
-      const config: ApiConfig = {
-        name,
-        baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash
-        createdAt: new Date().toISOString(),
-        timeout
-      };
+// Pagination options, a per-API default in save_api and a per-call override in make_request
+const paginationSchema = z.object({
+  style: z.enum(['link', 'cursor', 'offset', 'page']).optional().describe("link: follow Link rel=\"next\" headers (default); cursor: read the next cursor from the body; offset: offset/limit; page: page numbers"),
+  itemsPath: z.string().optional().describe("Path to the items array in each page, e.g. data.items (default: the body itself if it is an array, else data/items/results...)"),
+  cursorPath: z.string().optional().describe("Cursor style: path to the next cursor (or next page URL) in the body, e.g. meta.next_cursor"),
+  cursorParam: z.string().optional().describe("Cursor style: query parameter the cursor is sent in (default: cursor)"),
+  offsetParam: z.string().optional().describe("Offset style: query parameter for the offset (default: offset)"),
+  pageParam: z.string().optional().describe("Page style: query parameter for the page number (default: page)"),
+  limitParam: z.string().optional().describe("Query parameter for the page size (default: limit)"),
+  pageSize: z.number().int().min(1).optional().describe("Page size to request; a shorter page is taken as the last one"),
+  maxPages: z.number().int().min(1).optional().describe("Most pages to fetch, including the first (default: 10)"),
+  maxItems: z.number().int().min(1).optional().describe("Most items to return (default: 1000)")
+});
 
-      if (description) config.description = description;
-      if (headers) config.headers = headers;
+// How make_request reads CSV and NDJSON responses
+const parseOptionsSchema = z.object({
+  header: z.boolean().optional().describe("CSV: whether the first row holds the column names (detected by default)"),
+  delimiter: z.string().length(1).optional().describe("CSV: field delimiter (detected from the first line by default)"),
+  maxRows: z.number().int().min(1).optional().describe(`CSV rows or NDJSON lines to keep (default: ${DEFAULT_MAX_ROWS})`)
+});
 
-      // Handle auth configuration properly
-      if (auth) {
-        config.auth = {
-          type: auth.type
-        };
-        if (auth.credentials) {
-          config.auth.credentials = {};
-          if (auth.credentials.token) config.auth.credentials.token = auth.credentials.token;
-          if (auth.credentials.apiKey) config.auth.credentials.apiKey = auth.credentials.apiKey;
-          if (auth.credentials.username) config.auth.credentials.username = auth.credentials.username;
-          if (auth.credentials.password) config.auth.credentials.password = auth.credentials.password;
-          if (auth.credentials.headerName) config.auth.credentials.headerName = auth.credentials.headerName;
-        }
-      }
+// When make_request stops reading a streamed response
+const streamSchema = z.object({
+  maxEvents: z.number().int().min(1).optional().describe(`Stop after this many events (default: ${DEFAULT_STREAM_OPTIONS.maxEvents})`),
+  maxDurationMs: z.number().int().min(100).optional().describe(`Stop reading after this many milliseconds (default: ${DEFAULT_STREAM_OPTIONS.maxDurationMs})`)
+});
 
-      apiConfigs.set(name, config);
-      addToLog(`API configuration saved: ${name} (${baseUrl})`);
+// A file part of a multipart/form-data body
+const multipartFileSchema = z.object({
+  field: z.string().describe("Form field name of the file"),
+  filename: z.string().optional().describe("File name sent to the API (default: the field name)"),
+  contentType: z.string().optional().describe("Content-Type of the file (default: the stored binary's, or application/octet-stream)"),
+  base64: z.string().optional().describe("File content, base64-encoded"),
+  resourceUri: z.string().optional().describe("A binary://responses/{id} resource from an earlier make_request, instead of base64")
+});
 
-      return {
-        content: [{
-          type: "text",
-          text: `✅ API "${name}" saved successfully!\n\nConfiguration:\n${JSON.stringify(sanitizeConfig(config), null, 2)}`
-        }]
-      };
+// Options for the curl command make_request can add
+const curlSchema = z.object({
+  showSecrets: z.boolean().optional().describe("Show credentials in the command instead of [REDACTED] (default: false)")
+});
 
-    } catch (error: any) {
-      addToLog(`Error saving API ${name}: ${error.message}`);
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error saving API: ${error.message}`
-        }],
-        isError: true
-      };
+// Circuit breaker settings for save_api
+const circuitBreakerSchema = z.object({
+  enabled: z.boolean().optional().describe("Short-circuit requests while the API keeps failing (default: true)"),
+  failureThreshold: z.number().int().min(1).optional().describe("Failed requests (network errors, timeouts, 5xx) within windowMs that open the circuit (default: 5)"),
+  failureRate: z.number().min(0).max(1).optional().describe("Share of the requests in the window that must have failed, 0-1 (default: 0.5)"),
+  windowMs: z.number().min(1000).optional().describe("How far back failures are counted (default: 60000)"),
+  openMs: z.number().min(0).optional().describe("How long the circuit stays open before one probe request is let through (default: 30000)")
+});
+
+// Validate auth requirements
+function validateAuth(auth: { type: AuthType, credentials?: ApiCredentialsInput | undefined } | undefined): void {
+  if (auth && auth.type !== 'none' && auth.credentials) {
+    const { type, credentials } = auth;
+    switch (type) {
+      case 'bearer':
+        if (!credentials.token) {
+          throw new Error("Bearer authentication requires a token");
+        }
+        break;
+      case 'api-key':
+        if (!credentials.apiKey || !credentials.headerName) {
+          throw new Error("API key authentication requires both apiKey and headerName");
+        }
+        break;
+      case 'basic':
+        if (!credentials.username || !credentials.password) {
+          throw new Error("Basic authentication requires both username and password");
+        }
+        break;
+      case 'oauth2-client-credentials':
+        if (!credentials.tokenUrl || !credentials.clientId || !credentials.clientSecret) {
+          throw new Error("OAuth2 client-credentials authentication requires tokenUrl, clientId and clientSecret");
+        }
+        break;
+      case 'oauth2-refresh-token':
+        if (!credentials.tokenUrl || !credentials.clientId || !credentials.refreshToken) {
+          throw new Error("OAuth2 refresh-token authentication requires tokenUrl, clientId and refreshToken");
+        }
+        break;
+      case 'aws-sigv4':
+        if (!credentials.accessKeyId || !credentials.secretAccessKey || !credentials.region || !credentials.service) {
+          throw new Error("AWS SigV4 authentication requires accessKeyId, secretAccessKey, region and service");
+        }
+        break;
+      case 'hmac':
+        if (!credentials.hmacSecret) {
+          throw new Error("HMAC authentication requires hmacSecret");
+        }
+        break;
+      case 'session':
+        if (!credentials.loginEndpoint) {
+          throw new Error("Session authentication requires loginEndpoint");
+        }
+        if (credentials.sessionExtract === 'header' && !credentials.tokenResponseHeader) {
+          throw new Error("Session authentication with sessionExtract 'header' requires tokenResponseHeader");
+        }
+        break;
+    }
+    if (credentials.tokenUrl && !validateUrl(credentials.tokenUrl)) {
+      throw new Error("Invalid tokenUrl. Must start with http:// or https://");
     }
   }
-);
-
-// TOOL: make_request - Execute HTTP request
-mcp.tool(
-  "make_request",
-  "Execute an HTTP request to a saved API. Supports GET, POST, PUT, DELETE, PATCH methods with custom body and headers.",
-  {
-    apiName: z.string().describe("Name of the saved API configuration to use"),
-    endpoint: z.string().describe("API endpoint relative to base URL (e.g., /users/123)"),
-    method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH"]).describe("HTTP method"),
-    body: z.any().optional().describe("Request body for POST/PUT/PATCH (will be JSON.stringified)"),
-    queryParams: z.record(z.any()).optional().describe("Query parameters as key-value pairs"),
-    headers: z.record(z.string()).optional().describe("Additional headers for this specific request")
-  },
-  async ({ apiName, endpoint, method, body, queryParams, headers: customHeaders }) => {
-    const startTime = Date.now();
+}
 
-    try {
-      // 1. Recuperar configuración
-      const config = getApiConfig(apiName);
-      if (!config) {
-        throw new Error(`API "${apiName}" not found. Use save_api first.`);
-      }
+// Keep only the provided fields, encrypting the secret ones
+function sealCredentials(input: ApiCredentialsInput): ApiCredentials {
+  const credentials: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(input)) {
+    if (value === undefined) continue;
+    credentials[field] = isSecretCredentialField(field) ? sealSecret(value as string) : value;
+  }
+  return credentials as ApiCredentials;
+}
 
-      // 2. Construir URL completa
-      const url = buildUrl(config.baseUrl, endpoint, queryParams);
+// Download a document to import (OpenAPI, Postman) as text
+async function downloadDocument(url: string, timeout: number | undefined): Promise<string> {
+  if (!validateUrl(url)) {
+    throw new Error("Invalid url. Must start with http:// or https://");
+  }
+  const controller = new AbortController();
+  const downloadTimeout = setTimeout(() => controller.abort(), timeout || 30000);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Downloading ${url} failed with HTTP ${response.status}`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(downloadTimeout);
+  }
+}
 
-      // 3. Construir headers
-      const headers = buildHeaders(config, customHeaders);
+interface SentRequest {
+  response: Response;
+  prepared: SignedRequest; // what went on the wire, for the recording
+}
 
-      // 4. Preparar request options
-      const controller = new AbortController();
-      const timeout = setTimeout(
-        () => controller.abort(),
-        config.timeout || 30000
-      );
+// One attempt: sign and send the request, re-authenticating once if the token or session expired.
+// Errors carry the last signed request in error.prepared.
+async function sendRequest(
+  config: ApiConfig,
+  method: string,
+  url: string,
+  customHeaders: Record<string, string> | undefined,
+  requestBody: string | Uint8Array | undefined,
+  contentType: string | undefined
+): Promise<SentRequest> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeout || 30000);
+  const options: RequestInit = {
+    method,
+    signal: controller.signal,
+    ...(requestBody !== undefined ? { body: requestBody as BodyInit } : {})
+  };
 
-      const options: RequestInit = {
-        method,
-        headers,
-        signal: controller.signal
-      };
+  let prepared: SignedRequest | undefined;
+  try {
+    // Headers, cookies and signature are rebuilt per attempt (timestamps, refreshed tokens)
+    prepared = await prepareRequest(config, method, url, customHeaders, requestBody, contentType);
+    let response = await fetch(prepared.url, { ...options, headers: prepared.headers });
+    if (cookieJarEnabled(config)) {
+      sessions.jar(config.name).storeFromResponse(prepared.url, response.headers);
+    }
 
-      if (body && method !== "GET") {
-        options.body = JSON.stringify(body);
+    if (needsReauthentication(config, response.status)) {
+      addToLog(`Got ${response.status} from ${config.name}, re-authenticating and retrying`);
+      await response.body?.cancel();
+      invalidateAuthentication(config);
+      prepared = await prepareRequest(config, method, url, customHeaders, requestBody, contentType);
+      response = await fetch(prepared.url, { ...options, headers: prepared.headers });
+      if (cookieJarEnabled(config)) {
+        sessions.jar(config.name).storeFromResponse(prepared.url, response.headers);
       }
+    }
+    return { response, prepared };
+  } catch (error: any) {
+    throw Object.assign(error, { prepared });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
 
-      // 5. Ejecutar request
-      addToLog(`Executing ${method} ${url} [API: ${apiName}]`);
-      const response = await fetch(url, options);
-      clearTimeout(timeout);
-
-      // 6. Parsear respuesta
-      const responseBody = await parseResponse(response);
-      const responseTime = Date.now() - startTime;
+interface AttemptSummary {
+  attempt: number;
+  status?: number;
+  error?: string;
+  responseTime: number;
+  retryInMs?: number;
+}
 
-      // 7. Actualizar stats
-      config.lastUsed = new Date().toISOString();
-      addRequestToHistory({
-        timestamp: config.lastUsed,
-        apiName,
-        method,
-        endpoint,
-        status: response.status,
-        responseTime,
-        success: response.ok
-      });
+interface OutgoingRequest {
+  method: HttpMethod;
+  endpoint: string; // as given, for the request history
+  url: string;
+  headers: Record<string, string> | undefined;
+  body: string | Uint8Array | undefined;
+  contentType: string | undefined; // the body's default, see buildHeaders
+}
 
-      // 8. Retornar resultado
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            status: response.status,
-            statusText: response.statusText,
-            headers: Object.fromEntries(response.headers),
-            body: responseBody,
-            responseTime
-          }, null, 2)
-        }]
-      };
+interface RetriedResponse {
+  response: Response;
+  prepared: SignedRequest;
+  attempts: AttemptSummary[];
+  retryStoppedReason: string | undefined;
+  rateLimitWaitMs: number;
+}
 
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
+interface RequestParams {
+  apiName: string;
+  endpoint: string;
+  method: HttpMethod;
+  body?: any;
+  bodyType?: BodyType | undefined;
+  files?: MultipartFile[] | undefined;
+  contentType?: string | undefined;
+  queryParams?: Record<string, any> | undefined;
+  headers?: Record<string, string> | undefined;
+  validate?: boolean | undefined;
+  validateResponse?: boolean | undefined;
+  retry?: RetryOverrides | undefined;
+  idempotencyKey?: string | undefined;
+  cache?: boolean | undefined;
+  paginate?: boolean | PaginationOverrides | undefined;
+  select?: string | string[] | undefined;
+  includeHeaders?: boolean | undefined;
+  maxResponseChars?: number | undefined;
+  responseType?: ResponseType | undefined;
+  parseOptions?: ParseOptions | undefined;
+  stream?: boolean | StreamOverrides | undefined;
+  curl?: boolean | { showSecrets?: boolean | undefined } | undefined;
+}
 
-      if (error.name === 'AbortError') {
-        return {
-          content: [{
-            type: "text",
-            text: `⏱️ Request timeout after ${responseTime}ms`
-          }],
-          isError: true
-        };
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Streamed events are previewed in progress notifications up to this many characters
+const STREAM_PREVIEW_CHARS = 1000;
+
+// Forward each streamed event as an MCP progress notification, if the client asked for progress
+function progressNotifier(extra: ToolCallExtra | undefined): (event: unknown, count: number) => Promise<void> {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) return async () => {};
+  return (event, count) => {
+    const preview = typeof event === 'string' ? event : JSON.stringify(event);
+    return extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: count,
+        message: preview.length > STREAM_PREVIEW_CHARS ? `${preview.slice(0, STREAM_PREVIEW_CHARS)}…` : preview
       }
+    });
+  };
+}
 
-      addToLog(`Request failed for ${apiName}: ${error.message}`);
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Request failed: ${error.message}`
-        }],
-        isError: true
-      };
+// Send a request under the API's circuit breaker and rate limit, retrying according to the policy.
+// Errors carry what happened so far in error.attempts and error.retryStoppedReason.
+async function sendWithRetries(config: ApiConfig, request: OutgoingRequest, policy: RetryPolicy): Promise<RetriedResponse> {
+  const { method, endpoint, url, headers: requestHeaders, body: requestBody, contentType } = request;
+  const apiName = config.name;
+  const methodRetryable = canRetryMethod(method, { ...config.headers, ...requestHeaders }, policy);
+  const attempts: AttemptSummary[] = [];
+  let response: Response;
+  let prepared: SignedRequest;
+  let retryStoppedReason: string | undefined;
+  let rateLimitWaitMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    // Every attempt, retries included, is short-circuited while the API's circuit is open
+    // and otherwise waits for a slot under its rate limit
+    let ticket: CircuitTicket;
+    let slot: RateLimitSlot;
+    try {
+      ticket = breakers.check(apiName, config.circuitBreaker);
+    } catch (error: any) {
+      throw Object.assign(error, { attempts });
     }
-  }
-);
-
-// TOOL: list_apis - List all saved APIs
-mcp.tool(
-  "list_apis",
-  "List all saved API configurations with their details",
-  {},
-  async () => {
     try {
-      const apis = Array.from(apiConfigs.values())
-        .sort((a, b) => {
-          // Sort by lastUsed (most recent first), then by createdAt
-          if (a.lastUsed && b.lastUsed) {
-            return new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime();
-          }
-          if (a.lastUsed && !b.lastUsed) return -1;
-          if (!a.lastUsed && b.lastUsed) return 1;
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        })
-        .map(config => ({
-          name: config.name,
-          baseUrl: config.baseUrl,
-          description: config.description,
-          authType: config.auth?.type || 'none',
-          hasDefaultHeaders: !!config.headers && Object.keys(config.headers).length > 0,
-          createdAt: config.createdAt,
-          lastUsed: config.lastUsed
-        }));
-
-      addToLog(`Listed ${apis.length} saved APIs`);
-
-      return {
-        content: [{
-          type: "text",
-          text: apis.length > 0
-            ? `📋 Saved APIs (${apis.length}):\n\n${JSON.stringify(apis, null, 2)}`
-            : "📋 No APIs saved yet. Use save_api to add your first API configuration."
-        }]
-      };
-
+      slot = await rateLimits.acquire(apiName, config.rateLimit);
     } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error listing APIs: ${error.message}`
-        }],
-        isError: true
-      };
+      breakers.settle(apiName, ticket, 'cancelled');
+      throw Object.assign(error, { attempts });
+    }
+    rateLimitWaitMs += slot.waitedMs;
+    if (slot.waitedMs > 0) {
+      addToLog(`${apiName}: waited ${slot.waitedMs}ms for a rate limit slot`);
     }
-  }
-);
 
-// TOOL: get_api - Get specific API configuration
-mcp.tool(
-  "get_api",
-  "Get detailed configuration of a specific saved API",
-  {
-    name: z.string().describe("Name of the API to retrieve")
-  },
-  async ({ name }) => {
+    const attemptStart = Date.now();
+    addToLog(`Executing ${method} ${url} [API: ${apiName}]${attempt > 1 ? ` (attempt ${attempt})` : ''}`);
     try {
-      const config = getApiConfig(name);
-      if (!config) {
-        throw new Error(`API "${name}" not found`);
+      ({ response, prepared } = await sendRequest(config, method, url, requestHeaders, requestBody, contentType));
+      slot.release();
+      rateLimits.observe(apiName, response.status, response.headers);
+      breakers.settle(apiName, ticket, isUpstreamFailure(response.status) ? 'failure' : 'success', `HTTP ${response.status}`);
+    } catch (error: any) {
+      slot.release();
+      const responseTime = Date.now() - attemptStart;
+      const errorKind = classifyError(error);
+      // fetch hides the reason (ECONNREFUSED, ENOTFOUND...) in error.cause
+      const cause = error.cause?.code || error.cause?.message;
+      const message = errorKind === 'timeout'
+        ? `timeout after ${config.timeout || 30000}ms`
+        : `${error.message}${errorKind === 'network' && cause ? ` (${cause})` : ''}`;
+      breakers.settle(apiName, ticket, errorKind ? 'failure' : 'cancelled', message);
+      if (errorKind) {
+        const recorded = recordedRequest(config, request, error.prepared);
+        addRequestToHistory({
+          timestamp: new Date().toISOString(),
+          apiName,
+          method,
+          endpoint,
+          status: 0,
+          responseTime,
+          success: false,
+          ...(attempt > 1 || policy.maxAttempts > 1 ? { attempt } : {}),
+          error: message,
+          ...(config.activeEnvironment ? { environment: config.activeEnvironment } : {}),
+          ...(recorded ? { request: recorded } : {})
+        });
       }
+      const decision = nextRetry(policy, attempt, methodRetryable, { error });
+      attempts.push({ attempt, error: message, responseTime, ...(decision.retry ? { retryInMs: decision.delayMs } : {}) });
+      if (!decision.retry) {
+        throw Object.assign(error, { message, attempts, retryStoppedReason: decision.reason });
+      }
+      addToLog(`${apiName}: ${message}, retrying in ${decision.delayMs}ms`);
+      await sleep(decision.delayMs);
+      continue;
+    }
 
-      addToLog(`Retrieved API configuration: ${name}`);
+    const decision = nextRetry(policy, attempt, methodRetryable, {
+      status: response.status,
+      retryAfter: response.headers.get('retry-after')
+    });
+    attempts.push({
+      attempt,
+      status: response.status,
+      responseTime: Date.now() - attemptStart,
+      ...(decision.retry ? { retryInMs: decision.delayMs } : {})
+    });
+    if (!decision.retry) {
+      retryStoppedReason = decision.reason;
+      break;
+    }
 
-      return {
-        content: [{
-          type: "text",
-          text: `🔍 API Configuration: ${name}\n\n${JSON.stringify(sanitizeConfig(config), null, 2)}`
-        }]
-      };
+    const responseTime = Date.now() - attemptStart;
+    const recorded = recordedRequest(config, request, prepared);
+    const recordedAnswer = recorded ? await recordedResponse(config, response, 'discarded') : undefined;
+    addRequestToHistory({
+      timestamp: new Date().toISOString(),
+      apiName,
+      method,
+      endpoint,
+      status: response.status,
+      responseTime,
+      success: false,
+      attempt,
+      ...(config.activeEnvironment ? { environment: config.activeEnvironment } : {}),
+      ...(recorded ? { request: recorded } : {}),
+      ...(recordedAnswer ? { response: recordedAnswer } : {})
+    });
+    addToLog(`${apiName} answered ${response.status}, retrying in ${decision.delayMs}ms`);
+    await response.body?.cancel();
+    await sleep(decision.delayMs);
+  }
 
-    } catch (error: any) {
+  return { response, prepared, attempts, retryStoppedReason, rateLimitWaitMs };
+}
+
+interface FetchedResponse {
+  response: Response;
+  sent: RetriedResponse | undefined; // undefined when the cache answered
+  cacheStatus: CacheStatus | undefined;
+  cacheAgeSeconds: number | undefined;
+}
+
+// Answer from the response cache when possible; otherwise send the request
+// (revalidating a stale entry) and cache what comes back
+async function fetchResponse(
+  config: ApiConfig,
+  request: OutgoingRequest,
+  retryPolicy: RetryPolicy,
+  useCache: boolean
+): Promise<FetchedResponse> {
+  const { method, url } = request;
+  const apiName = config.name;
+  const cacheHeaders = { ...config.headers, ...request.headers };
+  const cacheDirectives = requestCacheDirectives(cacheHeaders);
+  const cachePolicy = method === "GET" && useCache && !cacheDirectives.bypass ? resolveCachePolicy(config.cache) : undefined;
+  const cached = cachePolicy ? responseCache.lookup(apiName, method, url, cacheHeaders) : undefined;
+
+  if (cached?.fresh && !cacheDirectives.revalidate) {
+    addToLog(`Cache hit for ${method} ${url} [API: ${apiName}]`);
+    return {
+      response: responseCache.toResponse(cached.entry),
+      sent: undefined,
+      cacheStatus: 'hit',
+      cacheAgeSeconds: Math.round((Date.now() - cached.entry.storedAt) / 1000)
+    };
+  }
+
+  // A stale entry is revalidated with its ETag/Last-Modified; headers given by the caller win
+  const conditionalHeaders = cached ? responseCache.conditionalHeaders(cached.entry) : {};
+  const sent = await sendWithRetries(config, { ...request, headers: { ...conditionalHeaders, ...request.headers } }, retryPolicy);
+  let response = sent.response;
+  let cacheStatus: CacheStatus | undefined;
+
+  if (cachePolicy && cached && response.status === 304) {
+    response = responseCache.revalidate(apiName, cached, response, cachePolicy);
+    cacheStatus = 'revalidated';
+  } else if (cachePolicy) {
+    await responseCache.store(apiName, method, url, cacheHeaders, response, cachePolicy);
+    cacheStatus = 'fresh';
+  } else if (!SAFE_METHODS.includes(method) && response.status < 400) {
+    responseCache.invalidate(apiName, url);
+  }
+  return { response, sent, cacheStatus, cacheAgeSeconds: undefined };
+}
+
+function sentContentType(headers: Record<string, string>, request: OutgoingRequest): string | undefined {
+  const typeHeader = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+  return (typeHeader && headers[typeHeader]) || request.contentType;
+}
+
+// Full capture of a request as it was sent, for APIs with recording on
+function recordedRequest(config: ApiConfig, request: OutgoingRequest, prepared: SignedRequest | undefined): RecordedRequest | undefined {
+  const policy = resolveRecordingPolicy(config.recording);
+  if (!policy) return undefined;
+  const headers = prepared?.headers ?? { ...config.headers, ...request.headers };
+  const contentType = sentContentType(headers, request);
+  return {
+    url: redactUrl(prepared?.url ?? request.url, policy),
+    headers: maskHeaders(headers, credentialHeaders(config)),
+    ...(request.body !== undefined && contentType ? { contentType } : {}),
+    ...captureBody(request.body, contentType, policy)
+  };
+}
+
+// What to record of a response body: the body executeRequest parsed, the start of one that
+// is about to be discarded (read off the wire here), or nothing (streamed, or unreadable)
+type ResponseBodyCapture = { parsed: unknown } | 'discarded' | undefined;
+
+// Response headers and body, for APIs with recording on
+async function recordedResponse(config: ApiConfig, response: Response, body: ResponseBodyCapture): Promise<RecordedResponse | undefined> {
+  const policy = resolveRecordingPolicy(config.recording);
+  if (!policy) return undefined;
+  const headers = maskHeaders(Object.fromEntries(response.headers), ['Set-Cookie']);
+  if (body === undefined) return { headers };
+  if (body !== 'discarded') return { headers, ...captureParsedBody(body.parsed, policy) };
+  try {
+    const prefix = await readBodyPrefix(response, policy.maxBodyChars);
+    const { bodyType, ...captured } = captureBody(prefix, response.headers.get('content-type') ?? undefined, policy);
+    return { headers, ...captured };
+  } catch (error: any) {
+    addToLog(`Could not record the response body from ${config.name}: ${error.message}`);
+    return { headers };
+  }
+}
+
+// History entry for a response that came from the API (failed retries are recorded as they happen)
+async function recordResponse(
+  config: ApiConfig,
+  request: OutgoingRequest,
+  fetched: FetchedResponse,
+  body: ResponseBodyCapture
+): Promise<RequestHistory | undefined> {
+  if (!fetched.sent) return undefined;
+  const { attempts, prepared } = fetched.sent;
+  const recorded = recordedRequest(config, request, prepared);
+  const recordedAnswer = recorded ? await recordedResponse(config, fetched.response, body) : undefined;
+  return addRequestToHistory({
+    timestamp: new Date().toISOString(),
+    apiName: config.name,
+    method: request.method,
+    endpoint: request.endpoint,
+    // What the API answered: a revalidation's 304, not the cached response returned for it
+    status: fetched.sent.response.status,
+    responseTime: attempts[attempts.length - 1]!.responseTime,
+    success: fetched.response.ok,
+    ...(attempts.length > 1 ? { attempt: attempts.length } : {}),
+    ...(config.activeEnvironment ? { environment: config.activeEnvironment } : {}),
+    ...(fetched.cacheStatus === 'revalidated' ? { servedFromCache: true } : {}),
+    ...(recorded ? { request: recorded } : {}),
+    ...(recordedAnswer ? { response: recordedAnswer } : {})
+  });
+}
+
+// Parse a response and record it with its parsed body; one that fails to parse is recorded without it
+async function parseAndRecord(
+  config: ApiConfig,
+  request: OutgoingRequest,
+  fetched: FetchedResponse,
+  responseType: ResponseType | undefined,
+  parseOptions?: ParseOptions
+): Promise<{ parsed: ParsedResponse, entry: RequestHistory | undefined }> {
+  let parsed: ParsedResponse;
+  try {
+    parsed = await parseResponseBody(fetched.response, responseType, parseOptions);
+  } catch (error) {
+    await recordResponse(config, request, fetched, undefined);
+    throw error;
+  }
+  return { parsed, entry: await recordResponse(config, request, fetched, { parsed: parsed.body }) };
+}
+
+// Fetch and condense the schema of a GraphQL API with the introspection query
+async function introspectGraphql(config: ApiConfig): Promise<GraphqlSchema> {
+  const endpoint = config.graphql?.endpoint || DEFAULT_GRAPHQL_ENDPOINT;
+  const request: OutgoingRequest = {
+    method: "POST",
+    endpoint,
+    url: buildUrl(config.baseUrl, endpoint),
+    headers: undefined,
+    body: JSON.stringify({ query: INTROSPECTION_QUERY, operationName: 'IntrospectionQuery' }),
+    contentType: 'application/json'
+  };
+  const fetched = await fetchResponse(config, request, resolveRetryPolicy(config.retry, undefined), false);
+  const { response } = fetched;
+  if (!response.ok) {
+    await recordResponse(config, request, fetched, 'discarded');
+    await response.body?.cancel();
+    throw new Error(`Introspection query failed with HTTP ${response.status}`);
+  }
+
+  const { parsed: { body } } = await parseAndRecord(config, request, fetched, 'json');
+  const errors = graphqlErrors(body);
+  const data = typeof body === 'object' && body !== null && 'data' in body ? body.data : undefined;
+  if (errors && !(typeof data === 'object' && data !== null && '__schema' in data)) {
+    throw new Error(`Introspection query failed: ${errors.map(error => error.message).join('; ')}`);
+  }
+  return condenseIntrospection(body);
+}
+
+// Methods that don't change the resource, so they leave its cached responses alone
+const SAFE_METHODS: readonly HttpMethod[] = ["GET", "HEAD", "OPTIONS"];
+
+// Headers that carry the API's credentials besides Authorization, masked in curl commands
+function credentialHeaders(config: ApiConfig): string[] {
+  const credentials = config.auth?.credentials || {};
+  const names = Object.entries(config.headers || {})
+    .filter(([, value]) => findSecretReferences(value).length > 0)
+    .map(([name]) => name);
+  switch (config.auth?.type) {
+    case 'api-key':
+      if (credentials.headerName) names.push(credentials.headerName);
+      break;
+    case 'session':
+      names.push(credentials.tokenHeader || 'Authorization');
+      break;
+    case 'hmac':
+      names.push(credentials.signatureHeader || 'X-Signature');
+      break;
+  }
+  return names;
+}
+
+// Query parameters and body fields masked in curl commands: those recording masks
+// (api_key, access_token, client_secret...) and the API's credential header names
+function curlRedactionPolicy(config: ApiConfig): RecordingPolicy {
+  const policy = resolveRecordingPolicy(config.recording) ?? DEFAULT_RECORDING_POLICY;
+  return { ...policy, redactFields: [...policy.redactFields, ...credentialHeaders(config)] };
+}
+
+// A curl command for a request as it went out: default, auth and signature headers included
+function curlCommand(config: ApiConfig, request: OutgoingRequest, prepared: SignedRequest, showSecrets: boolean): string {
+  if (showSecrets) {
+    return formatCurl({ method: request.method, url: prepared.url, headers: prepared.headers, body: request.body });
+  }
+  const policy = curlRedactionPolicy(config);
+  return formatCurl({
+    method: request.method,
+    url: redactUrl(prepared.url, policy),
+    headers: maskHeaders(prepared.headers, credentialHeaders(config)),
+    body: redactBodyText(request.body, sentContentType(prepared.headers, request), policy)
+  });
+}
+
+// Auth whose headers only exist once a request is sent (tokens, logins, signatures)
+const SEND_TIME_AUTH_TYPES: readonly AuthType[] = ['oauth2-client-credentials', 'oauth2-refresh-token', 'session', 'aws-sigv4', 'hmac'];
+
+// GET and HEAD requests never carry a body
+function hasRequestBody(method: HttpMethod): boolean {
+  return method !== "GET" && method !== "HEAD";
+}
+
+// Execute a request against a saved API; shared by make_request and the per-operation tools
+async function executeRequest({
+  apiName,
+  endpoint,
+  method,
+  body,
+  bodyType = 'json',
+  files,
+  contentType,
+  queryParams,
+  headers: customHeaders,
+  validate = true,
+  validateResponse: checkResponse = false,
+  retry: retryOverrides,
+  idempotencyKey,
+  cache: useCache = true,
+  paginate,
+  select,
+  includeHeaders = true,
+  maxResponseChars = DEFAULT_MAX_RESPONSE_CHARS,
+  responseType = 'auto',
+  parseOptions,
+  stream,
+  curl: curlOption
+}: RequestParams, extra?: ToolCallExtra): Promise<CallToolResult> {
+  const startTime = Date.now();
+
+  try {
+    const selectError = select ? invalidSelect(select) : undefined;
+    if (selectError) {
+      return { content: [{ type: "text", text: `❌ ${selectError}; nothing was sent` }], isError: true };
+    }
+
+    // 1. Recuperar configuración, con el entorno activo aplicado y sus {{variables}} rellenadas
+    const storedConfig = getApiConfig(apiName);
+    if (!storedConfig) {
+      throw new Error(`API "${apiName}" not found. Use save_api first.`);
+    }
+    const config = withEnvironment(storedConfig);
+    ({ endpoint, queryParams, headers: customHeaders, body } = fillVariables(storedConfig, { endpoint, queryParams, headers: customHeaders, body }));
+
+    // 2. Validar contra el catálogo OpenAPI, si la API tiene uno
+    const operationMatch = config.catalog ? matchOperation(config.catalog, method, endpoint) : undefined;
+    if (config.catalog && operationMatch && validate) {
+      const { operation } = operationMatch;
+      const issues = validateRequest(config.catalog, operationMatch, {
+        queryParams,
+        headers: { ...config.headers, ...customHeaders },
+        body: body && hasRequestBody(method) ? body : undefined
+      });
+      if (issues.length > 0) {
+        addToLog(`Request validation failed for ${apiName} ${operation.operationId}: ${issues.length} issues, not sent`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Request does not match ${operation.operationId} (${operation.method} ${operation.path}), nothing was sent:\n\n${JSON.stringify({ operationId: operation.operationId, errors: issues }, null, 2)}\n\nFix the request, or pass validate: false to send it anyway.`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    // 3. Construir URL completa (pidiendo el tamaño de página configurado, si se pagina)
+    const pagination = method === "GET" ? resolvePagination(config.paginate, paginate) : undefined;
+    const url = buildUrl(config.baseUrl, endpoint, pagination ? withPageSize(pagination, queryParams) : queryParams);
+
+    // 4. Preparar body en el formato pedido, con el Content-Type que le corresponde
+    const encoded = hasRequestBody(method) ? encodeBody(bodyType, body, files, contentType, binaryResponses) : undefined;
+    const overridesHeaders = encoded?.precedence === 'forced' ||
+      (encoded?.precedence === 'encoding' && !hasHeader(customHeaders, 'Content-Type'));
+    const requestHeaders = {
+      ...(overridesHeaders
+        ? { ...withoutHeader(customHeaders, 'Content-Type'), 'Content-Type': encoded!.contentType }
+        : customHeaders),
+      ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {})
+    };
+    const request: OutgoingRequest = {
+      method,
+      endpoint,
+      url,
+      headers: requestHeaders,
+      body: encoded?.body,
+      contentType: encoded?.contentType
+    };
+    const retryPolicy = resolveRetryPolicy(config.retry, retryOverrides);
+
+    // 5. Ejecutar request: desde la caché o contra la API, con reintentos (un stream nunca se cachea)
+    const fetched = await fetchResponse(config, request, retryPolicy, useCache && !stream);
+    const { response, sent } = fetched;
+
+    // 6. Parsear respuesta (y guardarla en el historial), o leerla como stream notificando cada evento
+    const streamOptions = response.ok ? resolveStreamOptions(stream, response.headers.get('content-type')) : undefined;
+    let parsedResponse: ParsedResponse;
+    let streamSummary: StreamSummary | undefined;
+    let historyEntry: RequestHistory | undefined;
+    if (streamOptions) {
+      historyEntry = await recordResponse(config, request, fetched, undefined);
+      const streamed = await readStream(response, streamOptions, progressNotifier(extra), extra?.signal);
+      parsedResponse = { body: streamed.events };
+      streamSummary = streamed.summary;
+    } else {
+      ({ parsed: parsedResponse, entry: historyEntry } = await parseAndRecord(config, request, fetched, responseType, parseOptions));
+    }
+    let responseBody = parsedResponse.body;
+    const binary = isBinaryBody(responseBody) ? responseBody : undefined;
+    const responseIssues = config.catalog && operationMatch && checkResponse && !binary && !streamSummary
+      ? validateResponse(config.catalog, operationMatch.operation, response.status, response.headers.get('content-type'), responseBody)
+      : undefined;
+
+    // 7. Recorrer las páginas siguientes y unir sus items
+    let paginationSummary: PaginationSummary | undefined;
+    if (pagination && response.ok && !binary && !streamSummary) {
+      const paginator = new Paginator(pagination, config.baseUrl, url);
+      let nextUrl = paginator.addPage(url, response.headers, responseBody);
+      while (nextUrl) {
+        const pageUrl = nextUrl;
+        const pageRequest: OutgoingRequest = { ...request, endpoint: relativeEndpoint(config.baseUrl, pageUrl) || pageUrl, url: pageUrl };
+        try {
+          const page = await fetchResponse(config, pageRequest, retryPolicy, useCache);
+          if (!page.response.ok) {
+            await recordResponse(config, pageRequest, page, 'discarded');
+            await page.response.body?.cancel();
+            paginator.fail(pageUrl, `answered ${page.response.status}`);
+            break;
+          }
+          const { parsed: { body: pageBody } } = await parseAndRecord(config, pageRequest, page, responseType, parseOptions);
+          if (isBinaryBody(pageBody)) {
+            paginator.fail(pageUrl, `returned a binary body (${pageBody.mimeType})`);
+            break;
+          }
+          nextUrl = paginator.addPage(pageUrl, page.response.headers, pageBody);
+        } catch (error: any) {
+          // Keep the pages fetched so far
+          paginator.fail(pageUrl, `failed: ${error.message}`);
+          break;
+        }
+      }
+      responseBody = paginator.body();
+      paginationSummary = paginator.summary();
+    }
+    // GraphQL reports failures in an errors array, usually with HTTP 200
+    const errors = config.graphql && endpoint.split('?')[0] === config.graphql.endpoint ? graphqlErrors(responseBody) : undefined;
+    if (errors) {
+      addToLog(`GraphQL errors from ${apiName}: ${errors.map(error => error.message).join('; ')}`);
+    }
+
+    // Only a successful JSON body is selected from; anything else comes back whole
+    let selectSkipped: string | undefined;
+    if (select) {
+      if (!response.ok) {
+        selectSkipped = `not applied to a ${response.status} response`;
+      } else if (binary || responseBody === null || typeof responseBody !== 'object') {
+        selectSkipped = `not applied: the body is not JSON${binary ? ` (${binary.mimeType})` : ''}`;
+      } else {
+        try {
+          responseBody = selectJson(responseBody, select);
+        } catch (error: any) {
+          selectSkipped = `not applied: ${error.message}`;
+        }
+      }
+    }
+
+    // Images go back inline; other binaries are stored and linked as a resource
+    const label = `${method} ${apiName} ${endpoint}`;
+    const binaryContent: CallToolResult['content'] = [];
+    let binarySummary: BinarySummary | undefined;
+    if (binary) {
+      const hash = sha256(binary.bytes);
+      binarySummary = { mimeType: binary.mimeType, size: binary.bytes.byteLength, sha256: hash };
+      if (canInlineImage(binary)) {
+        binarySummary.inlined = true;
+        binaryContent.push({ type: "image", data: Buffer.from(binary.bytes).toString('base64'), mimeType: binary.mimeType });
+      } else {
+        const stored = binaryResponses.save(label, binary, hash);
+        binarySummary.resourceUri = stored.uri;
+        binaryContent.push({ type: "resource_link", uri: stored.uri, name: label, mimeType: stored.mimeType, size: binarySummary.size });
+      }
+    }
+    const responseTime = Date.now() - startTime;
+
+    // 8. Actualizar stats, sobre la config actual: pudo cambiar o borrarse mientras tanto
+    const currentConfig = apiConfigs.get(apiName);
+    if (currentConfig) {
+      currentConfig.lastUsed = new Date().toISOString();
+      persistApiInBackground(currentConfig);
+    }
+
+    // 9. Retornar resultado, recortado a maxResponseChars (el body va al final para no perder lo demás)
+    const showSecrets = typeof curlOption === 'object' && curlOption.showSecrets === true;
+    // What was sent, not a new signature or token; a cache hit sent nothing
+    const curl = curlOption && sent ? curlCommand(config, request, sent.prepared, showSecrets) : undefined;
+    const result = JSON.stringify({
+      status: response.status,
+      statusText: response.statusText,
+      ...(includeHeaders ? { headers: Object.fromEntries(response.headers) } : {}),
+      responseTime,
+      ...(historyEntry ? { requestId: historyEntry.id } : {}),
+      ...(parsedResponse.parsed ? { parsed: parsedResponse.parsed } : {}),
+      ...(streamSummary ? { stream: streamSummary } : {}),
+      ...(paginationSummary ? { pagination: paginationSummary } : {}),
+      ...(fetched.cacheStatus ? { cache: fetched.cacheStatus } : {}),
+      ...(fetched.cacheAgeSeconds !== undefined ? { cacheAgeSeconds: fetched.cacheAgeSeconds } : {}),
+      ...(sent && sent.rateLimitWaitMs > 0 ? { rateLimitWaitMs: sent.rateLimitWaitMs } : {}),
+      ...(sent && (sent.attempts.length > 1 || sent.retryStoppedReason) ? {
+        retries: { attempts: sent.attempts, ...(sent.retryStoppedReason ? { stopped: sent.retryStoppedReason } : {}) }
+      } : {}),
+      ...(operationMatch ? { operationId: operationMatch.operation.operationId } : {}),
+      ...(config.catalog && !operationMatch ? { validationWarning: `No operation in the imported catalog matches ${method} ${endpoint}; the request was sent unvalidated` } : {}),
+      ...(responseIssues ? { responseValidation: { valid: responseIssues.length === 0, errors: responseIssues } } : {}),
+      ...(errors ? { graphqlErrors: errors } : {}),
+      ...(selectSkipped ? { select: selectSkipped } : {}),
+      ...(binarySummary ? { binary: binarySummary } : { body: responseBody })
+    }, null, 2);
+    return {
+      content: [{
+        type: "text",
+        text: `${errors ? `❌ GraphQL returned ${errors.length} error${errors.length > 1 ? 's' : ''}: ${errors.map(error => error.message).join('; ')}\n\n` : ''}` +
+          `${curl ? `💻 Equivalent curl command${showSecrets ? '' : ' (secrets masked)'}:\n\n${curl}\n\n` : ''}` +
+          `${curlOption && !sent ? '💻 No curl command: the response came from the cache, nothing was sent\n\n' : ''}` +
+          limitOutput(result, maxResponseChars, storedResponses, label)
+      }, ...binaryContent],
+      ...(errors ? { isError: true } : {})
+    };
+
+  } catch (error: any) {
+    const responseTime = Date.now() - startTime;
+    const attempts: AttemptSummary[] = error.attempts || [];
+    const retrySummary = attempts.length > 1 || error.retryStoppedReason
+      ? `\n\n${JSON.stringify({ attempts, ...(error.retryStoppedReason ? { stopped: error.retryStoppedReason } : {}) }, null, 2)}`
+      : '';
+
+    if (classifyError(error) === 'timeout') {
       return {
         content: [{
           type: "text",
-          text: `❌ Error retrieving API: ${error.message}`
+          text: `⏱️ Request timeout after ${responseTime}ms${attempts.length > 1 ? ` (${attempts.length} attempts)` : ''}${retrySummary}`
         }],
         isError: true
       };
     }
+
+    addToLog(`Request failed for ${apiName}: ${error.message}`);
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Request failed${attempts.length > 1 ? ` after ${attempts.length} attempts` : ''}: ${error.message}${retrySummary}`
+      }],
+      isError: true
+    };
   }
-);
+}
 
-// TOOL: delete_api - Delete API configuration
-mcp.tool(
-  "delete_api",
-  "Delete a saved API configuration permanently",
-  {
-    name: z.string().describe("Name of the API to delete")
-  },
-  async ({ name }) => {
+// McpServer that also owns the tools generated from each API's operation catalog
+class ApiManagerMcpServer extends McpServer {
+  private readonly operationTools = new Map<string, RegisteredTool[]>();
+  private batchingToolChanges = false;
+  private toolListChangePending = false;
+
+  // Registering N tools would otherwise notify the client N times
+  override sendToolListChanged(): void {
+    if (this.batchingToolChanges) {
+      this.toolListChangePending = true;
+      return;
+    }
+    super.sendToolListChanged();
+  }
+
+  // Replace the generated tools of an API; none when it was deleted or did not opt in
+  syncOperationTools(apiName: string, config: ApiConfig | undefined): void {
+    this.batchingToolChanges = true;
     try {
-      const config = getApiConfig(name);
-      if (!config) {
-        throw new Error(`API "${name}" not found`);
+      this.operationTools.get(apiName)?.forEach(tool => tool.remove());
+      this.operationTools.delete(apiName);
+
+      const registered: RegisteredTool[] = [];
+      for (const tool of config ? buildOperationTools(config) : []) {
+        try {
+          registered.push(this.tool(tool.name, tool.description, tool.inputShape,
+            (args, extra) => executeRequest({ apiName, ...tool.toCall(args) }, extra)));
+        } catch (error: any) {
+          // Name clash with a built-in tool or another API's operation
+          addToLog(`Skipped operation tool ${tool.name}: ${error.message}`);
+        }
       }
+      if (registered.length > 0) this.operationTools.set(apiName, registered);
+    } finally {
+      this.batchingToolChanges = false;
+    }
 
-      apiConfigs.delete(name);
-      addToLog(`API configuration deleted: ${name}`);
+    if (this.toolListChangePending) {
+      this.toolListChangePending = false;
+      super.sendToolListChanged();
+    }
+  }
+}
 
-      return {
-        content: [{
-          type: "text",
-          text: `✅ API "${name}" deleted successfully`
-        }]
-      };
+// Servers of the currently connected MCP sessions
+const sessionServers = new Set<ApiManagerMcpServer>();
+
+// make_request arguments for a parsed curl command, sent through a saved API
+function curlRequestArgs(parsed: ParsedCurl, apiName: string | undefined): RequestParams {
+  let config: ApiConfig | undefined;
+  let baseUrl: string | undefined;
+  const underBase = (candidate: string) => parsed.url === candidate || parsed.url.startsWith(`${candidate}/`) || parsed.url.startsWith(`${candidate}?`);
+  if (apiName) {
+    config = getApiConfig(apiName);
+    if (!config) {
+      throw new Error(`API "${apiName}" not found. Use save_api first, or import_curl with mode save_api`);
+    }
+    baseUrl = withEnvironment(config).baseUrl.replace(/\/$/, '');
+    if (!underBase(baseUrl)) {
+      throw new Error(`The URL ${parsed.url} is not under the baseUrl of API "${apiName}" (${baseUrl})`);
+    }
+  } else {
+    // The longest matching baseUrl is the most specific API
+    for (const candidate of apiConfigs.values()) {
+      const candidateBase = withEnvironment(candidate).baseUrl.replace(/\/$/, '');
+      if (underBase(candidateBase) && (!baseUrl || candidateBase.length > baseUrl.length)) {
+        config = candidate;
+        baseUrl = candidateBase;
+      }
+    }
+    if (!config || !baseUrl) {
+      throw new Error(`No saved API has a baseUrl that ${parsed.url} starts with; pass apiName, or use mode save_api to create one`);
+    }
+  }
 
-    } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error deleting API: ${error.message}`
-        }],
-        isError: true
-      };
+  const headers = { ...parsed.headers };
+  const authType = config.auth?.type || 'none';
+  if (authType !== 'none') {
+    const replaced = Object.keys(headers).filter(name => ['authorization', config!.auth?.credentials?.headerName?.toLowerCase()].includes(name.toLowerCase()));
+    replaced.forEach(name => delete headers[name]);
+    if (replaced.length > 0 || parsed.username !== undefined) {
+      parsed.warnings.push(`The command's credentials were left out; the request uses the ${authType} auth of API "${config.name}"`);
     }
+  } else if (parsed.username !== undefined) {
+    headers['Authorization'] = `Basic ${Buffer.from(`${parsed.username}:${parsed.password ?? ''}`).toString('base64')}`;
   }
-);
 
-// TOOL: search - ChatGPT Deep Research compatibility
-mcp.tool(
-  "search",
-  "Search through saved API configurations and their usage history for ChatGPT Deep Research",
-  {
-    query: z.string().describe("Search query to find relevant API configurations, endpoints, or usage data")
-  },
-  async ({ query }) => {
-    try {
-      const searchResults: Array<{id: string, title: string, url: string}> = [];
-      const queryLower = query.toLowerCase();
+  return {
+    apiName: config.name,
+    method: parsed.method,
+    endpoint: parsed.url.slice(baseUrl.length) || '/',
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+    ...(parsed.body !== undefined ? { body: parsed.body } : {}),
+    ...(parsed.bodyType ? { bodyType: parsed.bodyType } : {}),
+    ...(parsed.contentType ? { contentType: parsed.contentType } : {})
+  };
+}
 
-      // Search through API configurations
-      for (const [name, config] of apiConfigs.entries()) {
-        let relevanceScore = 0;
-        let matchReasons: string[] = [];
+// Header names that usually hold an API key
+const API_KEY_HEADER_PATTERN = /^(x-)?api[-_]?key$|^x-(auth|access)-token$/i;
 
-        // Check if query matches API name
-        if (name.toLowerCase().includes(queryLower)) {
-          relevanceScore += 10;
-          matchReasons.push("name");
-        }
+// Save the API a curl command talks to: base URL, auth and the remaining headers as defaults
+async function saveCurlApi(parsed: ParsedCurl, apiName: string | undefined, baseUrl: string | undefined): Promise<CallToolResult> {
+  const url = new URL(parsed.url);
+  const name = apiName || url.hostname;
+  if (apiConfigs.has(name)) {
+    throw new Error(`API "${name}" already exists; pass another apiName, or change it with save_api`);
+  }
+  const resolvedBaseUrl = (baseUrl || url.origin).replace(/\/$/, '');
+  if (!validateUrl(resolvedBaseUrl)) {
+    throw new Error("Invalid baseUrl. Must start with http:// or https://");
+  }
+  if (parsed.url !== resolvedBaseUrl && !parsed.url.startsWith(`${resolvedBaseUrl}/`) && !parsed.url.startsWith(`${resolvedBaseUrl}?`)) {
+    throw new Error(`The URL ${parsed.url} is not under baseUrl ${resolvedBaseUrl}`);
+  }
+
+  const headers = { ...parsed.headers };
+  let auth: { type: AuthType, credentials: ApiCredentialsInput } | undefined;
+  const authorization = Object.keys(headers).find(header => header.toLowerCase() === 'authorization');
+  const apiKeyHeader = Object.keys(headers).find(header => API_KEY_HEADER_PATTERN.test(header));
+  const scheme = authorization ? /^(\w+)\s+(.+)$/.exec(headers[authorization]!) : undefined;
+  if (parsed.username !== undefined) {
+    auth = { type: 'basic', credentials: { username: parsed.username, password: parsed.password ?? '' } };
+  } else if (scheme?.[1]!.toLowerCase() === 'bearer') {
+    auth = { type: 'bearer', credentials: { token: scheme[2]! } };
+  } else if (scheme?.[1]!.toLowerCase() === 'basic') {
+    const decoded = Buffer.from(scheme[2]!, 'base64').toString('utf8');
+    const colon = decoded.indexOf(':');
+    auth = { type: 'basic', credentials: { username: decoded.slice(0, Math.max(colon, 0)), password: decoded.slice(colon + 1) } };
+  } else if (apiKeyHeader) {
+    auth = { type: 'api-key', credentials: { headerName: apiKeyHeader, apiKey: headers[apiKeyHeader]! } };
+  }
+  if (auth) {
+    if (authorization && auth.type !== 'api-key') delete headers[authorization];
+    if (auth.type === 'api-key') delete headers[apiKeyHeader!];
+    validateAuth(auth);
+  }
+
+  const config: ApiConfig = {
+    name,
+    baseUrl: resolvedBaseUrl,
+    createdAt: new Date().toISOString(),
+    timeout: parsed.timeoutMs ?? 30000
+  };
+  if (Object.keys(headers).length > 0) config.headers = headers;
+  if (auth) config.auth = { type: auth.type, credentials: sealCredentials(auth.credentials) };
+
+  await storage.saveApi(config);
+  apiConfigs.set(name, config);
+  refreshOperationTools(name);
+  addToLog(`API configuration saved from a curl command: ${name} (${resolvedBaseUrl})`);
+
+  const request = {
+    apiName: name,
+    method: parsed.method,
+    endpoint: parsed.url.slice(resolvedBaseUrl.length) || '/',
+    ...(parsed.body !== undefined ? { body: parsed.body } : {}),
+    ...(parsed.bodyType ? { bodyType: parsed.bodyType } : {}),
+    ...(parsed.contentType ? { contentType: parsed.contentType } : {})
+  };
+  return {
+    content: [{
+      type: "text",
+      text: `✅ API "${name}" saved from the curl command!\n\nConfiguration:\n${JSON.stringify(sanitizeConfig(config), null, 2)}\n\nThe command's request, for make_request:\n${JSON.stringify(request, null, 2)}${parsed.warnings.length > 0 ? `\n\n⚠️ Warnings:\n${parsed.warnings.map(warning => `- ${warning}`).join('\n')}` : ''}`
+    }]
+  };
+}
+
+function findHistoryEntry(id: string): RequestHistory {
+  const entry = requestHistory.find(candidate => candidate.id === id);
+  if (!entry) {
+    throw new Error(`No request "${id}" in the history (it keeps the last ${historyRetention.maxEntries}${historyRetention.maxAgeMs ? ` within ${Math.round(historyRetention.maxAgeMs / 86400000)} days` : ''})`);
+  }
+  return entry;
+}
+
+// curl command for a recorded request, with the credentials masked as they were stored
+function recordedCurl(method: string, recorded: RecordedRequest): string {
+  return formatCurl({ method, url: recorded.url, headers: recorded.headers, body: recordedBodyText(recorded) });
+}
+
+// Headers that make_request, the auth or the signer set again on every request
+const REPLAY_SKIPPED_HEADERS = [
+  'content-type', 'content-length', 'host', 'cookie', 'x-amz-date', 'x-amz-content-sha256', 'x-amz-security-token',
+  IDEMPOTENCY_KEY_HEADER.toLowerCase()
+];
+
+// make_request arguments that send a history entry again: the recorded query, headers and body when
+// the API had recording on, else only the method and endpoint. Masked headers are left to the API's auth.
+function replayRequestArgs(
+  entry: RequestHistory,
+  config: ApiConfig
+): { args: RequestParams; bodyProblem: string | undefined; maskedQuery: string[]; maskedHeaders: string[] } {
+  const method = entry.method as HttpMethod;
+  const recorded = entry.request;
+  if (!recorded) {
+    return {
+      args: { apiName: entry.apiName, method, endpoint: entry.endpoint },
+      bodyProblem: hasRequestBody(method) ? `its body was not recorded (turn recording on for "${entry.apiName}" with save_api)` : undefined,
+      maskedQuery: [],
+      maskedHeaders: []
+    };
+  }
+
+  const url = new URL(recorded.url);
+  const endpoint = relativeEndpoint(withEnvironment(config).baseUrl, `${url.origin}${url.pathname}`) || entry.endpoint.split('?')[0]!;
+  const query = Object.entries(Object.fromEntries(url.searchParams));
+  const queryParams = Object.fromEntries(query.filter(([, value]) => value !== MASKED_VALUE));
+  const maskedQuery = query.filter(([, value]) => value === MASKED_VALUE).map(([name]) => name);
+  const skipped = new Set([
+    ...REPLAY_SKIPPED_HEADERS,
+    ...[...Object.keys(config.headers || {}), ...credentialHeaders(config)].map(name => name.toLowerCase()),
+    ...(config.auth && config.auth.type !== 'none' ? ['authorization'] : [])
+  ]);
+  const replayed = Object.entries(recorded.headers).filter(([name]) => !skipped.has(name.toLowerCase()));
+  const headers = Object.fromEntries(replayed.filter(([, value]) => !value.includes(MASKED_VALUE)));
+  // Credentials given per call, which the API's auth won't add again
+  const maskedHeaders = replayed.filter(([, value]) => value.includes(MASKED_VALUE)).map(([name]) => name);
+
+  let bodyProblem: string | undefined;
+  const masked = redactedPaths(recorded.body);
+  if (recorded.bodyTruncated) {
+    bodyProblem = `its body was cut when recorded (${recorded.bodySize} bytes)`;
+  } else if (recorded.body === undefined && recorded.bodySize !== undefined) {
+    bodyProblem = `its body was binary, only its size was recorded (${recorded.bodySize} bytes)`;
+  } else if (masked.length > 0) {
+    bodyProblem = `${masked.join(', ')} ${masked.length === 1 ? 'was' : 'were'} masked when recorded`;
+  }
+
+  return {
+    args: {
+      apiName: entry.apiName,
+      method,
+      endpoint,
+      ...(Object.keys(queryParams).length > 0 ? { queryParams } : {}),
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(recorded.body !== undefined && !bodyProblem ? {
+        body: recorded.body,
+        bodyType: recorded.bodyType || 'text',
+        ...(recorded.contentType ? { contentType: recorded.contentType } : {})
+      } : {})
+    },
+    bodyProblem,
+    maskedQuery,
+    maskedHeaders
+  };
+}
+
+// Re-register an API's operation tools on every connected session
+function refreshOperationTools(apiName: string): void {
+  const config = apiConfigs.get(apiName);
+  sessionServers.forEach(server => server.syncOperationTools(apiName, config));
+}
 
-        // Check if query matches description
-        if (config.description?.toLowerCase().includes(queryLower)) {
-          relevanceScore += 8;
-          matchReasons.push("description");
+// Build an MCP server with every tool and resource. Each client session gets
+// its own server, so notifications such as tools/list_changed reach all of them.
+function createMcpServer(): ApiManagerMcpServer {
+  const mcp = new ApiManagerMcpServer({
+    name: "api-manager-mcp",
+    version: "1.0.0",
+    description: "Universal API Manager for MCP - Save configurations and execute HTTP requests to any API"
+  }, {
+    capabilities: {
+      tools: { listChanged: true },
+      resources: {}
+    }
+  });
+
+  // TOOL: save_api - Save API configuration
+  mcp.tool(
+    "save_api",
+    "Save a new API configuration for future use. Store base URL, authentication, and default headers.",
+    {
+      name: z.string().describe("Unique identifier for this API"),
+      baseUrl: z.string().describe("Base URL of the API (e.g., https://api.example.com)"),
+      description: z.string().optional().describe("Description of what this API does"),
+      auth: z.object({
+        type: z.enum(['bearer', 'api-key', 'basic', 'oauth2-client-credentials', 'oauth2-refresh-token', 'aws-sigv4', 'hmac', 'session', 'none']).describe("Authentication type"),
+        credentials: credentialsSchema.optional().describe("Authentication credentials")
+      }).optional().describe("Authentication configuration"),
+      headers: z.record(z.string()).optional().describe("Default headers to include in all requests (values may contain ${env:...}/${file:...} references)"),
+      cookieJar: z.boolean().optional().describe("Capture Set-Cookie from responses and replay cookies on later calls (always on for session auth)"),
+      operationTools: z.boolean().optional().describe("Register one MCP tool per operation (e.g. github__list_repos) once an OpenAPI document is imported with import_openapi"),
+      timeout: z.number().optional().describe("Request timeout in milliseconds (default: 30000)"),
+      retry: retrySchema.optional().describe("Retry policy for requests to this API (default: 3 attempts for idempotent requests)"),
+      rateLimit: rateLimitSchema.optional().describe("Client-side throttling shared by all sessions; excess calls are queued, then rejected"),
+      circuitBreaker: circuitBreakerSchema.optional().describe("When to stop calling this API after repeated failures (on by default)"),
+      cache: cacheSchema.optional().describe("Cache GET responses, revalidating them with ETag/Last-Modified (off unless set)"),
+      paginate: paginationSchema.optional().describe("Follow pages of every GET to this API and merge their items (make_request can turn it off per call)"),
+      recording: recordingSchema.optional().describe("Record full requests and responses (headers, query and bodies, credentials masked) for get_request and replay_request (off unless set)"),
+      graphql: z.object({
+        endpoint: z.string().optional().describe(`GraphQL endpoint relative to baseUrl (default: ${DEFAULT_GRAPHQL_ENDPOINT})`),
+        introspect: z.boolean().optional().describe("Fetch and cache the schema right away (default: true)")
+      }).optional().describe("Mark this as a GraphQL API, to call with graphql_query")
+    },
+    async ({ name, baseUrl, description, auth, headers, cookieJar, operationTools, timeout = 30000, retry, rateLimit, circuitBreaker, cache, paginate, recording, graphql }) => {
+      try {
+        // Validations
+        if (apiConfigs.has(name)) {
+          throw new Error(`API "${name}" already exists. Use a different name or delete the existing one first.`);
         }
 
-        // Check if query matches base URL
-        if (config.baseUrl.toLowerCase().includes(queryLower)) {
-          relevanceScore += 6;
-          matchReasons.push("baseUrl");
+        if (!validateUrl(baseUrl)) {
+          throw new Error("Invalid baseUrl. Must start with http:// or https://");
         }
 
-        // Check if query matches auth type
-        if (config.auth?.type.toLowerCase().includes(queryLower)) {
-          relevanceScore += 4;
-          matchReasons.push("auth");
+        validateAuth(auth);
+        if (paginate) resolvePagination(compact(paginate), true);
+
+        // Create and store configuration
+        const config: ApiConfig = {
+          name,
+          baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash
+          createdAt: new Date().toISOString(),
+          timeout
+        };
+
+        if (description) config.description = description;
+        if (headers) config.headers = headers;
+        if (cookieJar !== undefined) config.cookieJar = cookieJar;
+        if (operationTools !== undefined) config.operationTools = operationTools;
+        if (retry) config.retry = compact(retry);
+        if (rateLimit) config.rateLimit = compact(rateLimit);
+        if (circuitBreaker) config.circuitBreaker = compact(circuitBreaker);
+        if (cache) config.cache = compact(cache);
+        if (paginate) config.paginate = compact(paginate);
+        if (recording) config.recording = compact(recording);
+        if (graphql) config.graphql = { endpoint: graphql.endpoint || DEFAULT_GRAPHQL_ENDPOINT };
+
+        // Handle auth configuration properly
+        if (auth) {
+          config.auth = {
+            type: auth.type
+          };
+          if (auth.credentials) {
+            config.auth.credentials = sealCredentials(auth.credentials);
+          }
         }
 
-        // Check request history for this API
-        const apiRequests = requestHistory.filter(r => r.apiName === name);
-        for (const request of apiRequests) {
-          if (request.endpoint.toLowerCase().includes(queryLower) ||
-              request.method.toLowerCase().includes(queryLower)) {
-            relevanceScore += 2;
-            matchReasons.push("endpoints");
-            break;
+        // A GraphQL schema is a convenience; the API is saved even if introspection fails
+        let introspectionWarning = '';
+        if (config.graphql && graphql?.introspect !== false) {
+          try {
+            config.graphql.schema = await introspectGraphql(config);
+          } catch (error: any) {
+            introspectionWarning = `\n\n⚠️ Could not introspect the GraphQL schema (${error.message}); graphql_query still works, retry with introspect_graphql`;
           }
         }
 
-        if (relevanceScore > 0) {
-          searchResults.push({
-            id: `api-${name}`,
-            title: `${name} API - ${config.description || 'API Configuration'} (${matchReasons.join(', ')})`,
-            url: `${config.baseUrl}/info`
-          });
+        await storage.saveApi(config);
+        apiConfigs.set(name, config);
+        refreshOperationTools(name);
+        addToLog(`API configuration saved: ${name} (${baseUrl})`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ API "${name}" saved successfully!\n\nConfiguration:\n${JSON.stringify(sanitizeConfig(config), null, 2)}${introspectionWarning}`
+          }]
+        };
+
+      } catch (error: any) {
+        addToLog(`Error saving API ${name}: ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error saving API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: import_openapi - Create or refresh an API from an OpenAPI/Swagger document
+  mcp.tool(
+    "import_openapi",
+    "Import an OpenAPI 3.x or Swagger 2.0 document (JSON or YAML) as a saved API: base URL, auth scheme and a catalog of operations with their parameters and schemas. Re-importing an existing API refreshes its catalog and keeps its credentials.",
+    {
+      name: z.string().describe("Name of the API to create, or of a saved API to refresh"),
+      spec: z.union([z.string(), z.record(z.any())]).optional().describe("The document as JSON/YAML text or as an object"),
+      url: z.string().optional().describe("URL to download the document from, instead of spec"),
+      baseUrl: z.string().optional().describe("Override the base URL taken from the document's servers/host"),
+      description: z.string().optional().describe("Description of what this API does (default: the document's info)"),
+      credentials: credentialsSchema.optional().describe("Credentials for the auth scheme declared in the document"),
+      headers: z.record(z.string()).optional().describe("Default headers to include in all requests"),
+      operationTools: z.boolean().optional().describe("Register one MCP tool per imported operation, e.g. petstore__getPetById (default: keep the current setting)"),
+      timeout: z.number().optional().describe("Request timeout in milliseconds (default: 30000)")
+    },
+    async ({ name, spec, url, baseUrl, description, credentials, headers, operationTools, timeout }) => {
+      try {
+        if ((spec === undefined) === (url === undefined)) {
+          throw new Error("Provide either spec or url");
+        }
+
+        let document: unknown = spec;
+        if (url !== undefined) {
+          document = parseSpecText(await downloadDocument(url, timeout));
+        } else if (typeof spec === 'string') {
+          document = parseSpecText(spec);
+        }
+
+        const imported = importOpenApiDocument(document, url);
+        const existing = apiConfigs.get(name);
+
+        const resolvedBaseUrl = baseUrl || imported.baseUrl || existing?.baseUrl;
+        if (!resolvedBaseUrl || !validateUrl(resolvedBaseUrl)) {
+          throw new Error(`The document does not declare an absolute server URL${resolvedBaseUrl ? ` (got ${resolvedBaseUrl})` : ''}; pass baseUrl`);
+        }
+
+        // Saved credentials survive a re-import as long as the auth scheme is unchanged
+        const authType: AuthType = imported.auth?.type || existing?.auth?.type || 'none';
+        const keptCredentials = existing?.auth?.type === authType ? existing.auth.credentials : undefined;
+        const mergedCredentials: ApiCredentials = {
+          ...imported.auth?.credentials,
+          ...keptCredentials,
+          ...(credentials ? sealCredentials(credentials) : {})
+        };
+
+        const warnings = [...imported.warnings];
+        try {
+          validateAuth({ type: authType, credentials: mergedCredentials });
+        } catch (error: any) {
+          if (credentials) throw error;
+          warnings.push(`${error.message}; re-run import_openapi with credentials before calling this API`);
+        }
+        if (mergedCredentials.tokenUrl && !validateUrl(mergedCredentials.tokenUrl)) {
+          throw new Error("Invalid tokenUrl. Must start with http:// or https://");
+        }
+
+        const config: ApiConfig = existing
+          ? structuredClone(existing)
+          : { name, baseUrl: resolvedBaseUrl, createdAt: new Date().toISOString(), timeout: 30000 };
+        config.baseUrl = resolvedBaseUrl.replace(/\/$/, '');
+        const resolvedDescription = description || existing?.description || imported.description;
+        if (resolvedDescription) config.description = resolvedDescription;
+        if (headers) config.headers = headers;
+        if (timeout !== undefined) config.timeout = timeout;
+        if (operationTools !== undefined) config.operationTools = operationTools;
+        config.auth = Object.keys(mergedCredentials).length > 0
+          ? { type: authType, credentials: mergedCredentials }
+          : { type: authType };
+        config.catalog = imported.catalog;
+
+        await storage.saveApi(config);
+        apiConfigs.set(name, config);
+        refreshOperationTools(name);
+        if (existing && (credentials || existing.auth?.type !== authType)) {
+          oauthTokens.forget(name);
+          sessions.forget(name);
+        }
+        addToLog(`API ${existing ? 'refreshed' : 'imported'} from ${imported.catalog.format} ${imported.catalog.specVersion}: ${name} (${imported.catalog.operations.length} operations)`);
+
+        const operations = imported.catalog.operations;
+        return {
+          content: [{
+            type: "text",
+            text: `✅ API "${name}" ${existing ? 'refreshed' : 'imported'} with ${operations.length} operations!\n\nConfiguration:\n${JSON.stringify(sanitizeConfig(config), null, 2)}\n\nOperations:\n${operations.slice(0, 50).map(operation => `- ${describeOperation(operation)}`).join('\n')}${operations.length > 50 ? `\n... and ${operations.length - 50} more (see get_api)` : ''}${warnings.length > 0 ? `\n\n⚠️ Warnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}` : ''}`
+          }]
+        };
+
+      } catch (error: any) {
+        addToLog(`Error importing API ${name}: ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error importing API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: import_postman - Create or update an API from a Postman collection
+  mcp.tool(
+    "import_postman",
+    "Import a Postman Collection v2.0/v2.1 and its environment files into a saved API: the collection's base URL and auth, its requests as saved requests (one collection per folder, run with run_request) and its environments with their variables. Re-importing replaces the collections and environments of the same name and keeps the API's credentials; environments alone can be imported into a saved API.",
+    {
+      name: z.string().describe("Name of the API to create, or of a saved API to update"),
+      collection: z.union([z.string(), z.record(z.any())]).optional().describe("The collection as JSON text or as an object"),
+      url: z.string().optional().describe("URL to download the collection from, instead of collection"),
+      environments: z.array(z.union([z.string(), z.record(z.any())])).optional().describe("Postman environment files (JSON text or objects); each becomes an environment of the API"),
+      activate: z.string().optional().describe("Environment to make active (default: the first imported one when the API has no active environment)"),
+      baseUrl: z.string().optional().describe("Override the base URL taken from the collection"),
+      credentials: credentialsSchema.optional().describe("Credentials for the collection's auth, over those taken from it"),
+      timeout: z.number().optional().describe("Request timeout in milliseconds (default: 30000)")
+    },
+    async ({ name, collection, url, environments = [], activate, baseUrl, credentials, timeout }) => {
+      try {
+        if (collection !== undefined && url !== undefined) {
+          throw new Error("Provide either collection or url, not both");
+        }
+        const existing = apiConfigs.get(name);
+        const environmentDocuments = environments.map(environment => typeof environment === 'string' ? JSON.parse(environment) : environment);
+
+        let document: unknown = collection;
+        if (url !== undefined) {
+          document = JSON.parse(await downloadDocument(url, timeout));
+        } else if (typeof collection === 'string') {
+          document = JSON.parse(collection);
+        }
+        if (document === undefined && (!existing || environmentDocuments.length === 0)) {
+          throw new Error(existing ? "Provide a collection, url or environments" : "Provide a collection or url; environments alone can only be imported into a saved API");
+        }
+
+        const imported = document !== undefined ? importPostmanCollection(document, environmentDocuments, existing?.environments) : undefined;
+        const importedEnvironments = imported?.environments
+          ?? environmentDocuments.map(environment => importPostmanEnvironment(environment, undefined, {}));
+        const warnings = imported?.warnings ?? importedEnvironments.flatMap(environment => environment.warnings);
+
+        const activeName = activate ?? (existing?.activeEnvironment ? undefined : importedEnvironments[0]?.name);
+        if (activate && !importedEnvironments.some(environment => environment.name === activate) && !existing?.environments?.[activate]) {
+          throw new Error(`Environment "${activate}" is not in the imported files nor saved for API "${name}"`);
+        }
+        const resolvedBaseUrl = baseUrl || imported?.baseUrl || existing?.baseUrl
+          || importedEnvironments.find(environment => environment.name === activeName)?.environment.baseUrl
+          || importedEnvironments.find(environment => environment.environment.baseUrl)?.environment.baseUrl;
+        if (!resolvedBaseUrl || !validateUrl(resolvedBaseUrl)) {
+          throw new Error(`The collection has no absolute base URL${resolvedBaseUrl ? ` (got ${resolvedBaseUrl})` : ''}; pass baseUrl or an environment that sets it`);
+        }
+
+        // Saved credentials survive a re-import as long as the auth scheme is unchanged
+        const authType: AuthType = imported?.auth?.type || existing?.auth?.type || 'none';
+        const keptCredentials = existing?.auth?.type === authType ? existing.auth.credentials : undefined;
+        const mergedCredentials: ApiCredentials = {
+          ...(imported?.auth?.credentials ? sealCredentials(imported.auth.credentials) : {}),
+          ...keptCredentials,
+          ...(credentials ? sealCredentials(credentials) : {})
+        };
+
+        const config: ApiConfig = existing
+          ? structuredClone(existing)
+          : { name, baseUrl: resolvedBaseUrl, createdAt: new Date().toISOString(), timeout: 30000 };
+        config.baseUrl = resolvedBaseUrl.replace(/\/$/, '');
+        if (!config.description && imported?.description) config.description = imported.description;
+        if (timeout !== undefined) config.timeout = timeout;
+        config.auth = Object.keys(mergedCredentials).length > 0
+          ? { type: authType, credentials: mergedCredentials }
+          : { type: authType };
+        if (imported) config.collections = { ...config.collections, ...imported.collections };
+        for (const { name: environmentName, environment } of importedEnvironments) {
+          config.environments = {
+            ...config.environments,
+            [environmentName]: {
+              ...environment,
+              ...(environment.credentials ? { credentials: sealCredentials(environment.credentials) } : {}),
+              createdAt: new Date().toISOString()
+            }
+          };
+        }
+        if (activeName) config.activeEnvironment = activeName;
+
+        try {
+          validateAuth({ type: authType, credentials: withEnvironment(config).auth?.credentials ?? {} });
+        } catch (error: any) {
+          if (credentials) throw error;
+          warnings.push(`${error.message}; pass credentials, or set them in an environment with save_environment`);
+        }
+        if (mergedCredentials.tokenUrl && !validateUrl(mergedCredentials.tokenUrl)) {
+          throw new Error("Invalid tokenUrl. Must start with http:// or https://");
+        }
+
+        await storage.saveApi(config);
+        apiConfigs.set(name, config);
+        if (existing) forgetEnvironmentState(name);
+        addToLog(`API ${existing ? 'updated' : 'imported'} from Postman: ${name} (${imported?.requestCount ?? 0} requests, ${importedEnvironments.length} environments)`);
+
+        const requests = Object.entries(imported?.collections || {})
+          .flatMap(([collectionName, requestCollection]) => Object.values(requestCollection.requests).map(request => describeSavedRequest(collectionName, request)));
+        const summary = [
+          `✅ API "${name}" ${existing ? 'updated' : 'imported'} from Postman${imported ? ` collection "${imported.name}"` : ''} with ${[
+            ...(imported ? [`${imported.requestCount} saved requests`] : []),
+            ...(importedEnvironments.length > 0 ? [`${importedEnvironments.length} environment${importedEnvironments.length > 1 ? 's' : ''}`] : [])
+          ].join(' and ') || 'no requests'}!`,
+          `Configuration:\n${JSON.stringify(sanitizeConfig(config), null, 2)}`,
+          ...(requests.length > 0 ? [`Saved requests (run with run_request):\n${requests.slice(0, 50).map(request => `- ${request}`).join('\n')}${requests.length > 50 ? `\n... and ${requests.length - 50} more (see list_requests)` : ''}`] : []),
+          ...(warnings.length > 0 ? [`⚠️ Warnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}`] : [])
+        ];
+        return {
+          content: [{
+            type: "text",
+            text: summary.join('\n\n')
+          }]
+        };
+
+      } catch (error: any) {
+        addToLog(`Error importing Postman collection into ${name}: ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error importing Postman collection: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: export_postman - Export an API as a Postman collection
+  mcp.tool(
+    "export_postman",
+    "Export a saved API as a Postman Collection v2.1 with environment files for its environments: its saved requests (one folder per collection) and the requests made to it (History folder). Secret credentials are never exported; they become empty {{variables}} to fill in Postman.",
+    {
+      name: z.string().describe("Name of the API to export"),
+      includeHistory: z.boolean().optional().describe("Add a History folder with the method/endpoint pairs called through make_request (default: true)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ name, includeHistory = true, maxResponseChars = DEFAULT_MAX_RESPONSE_CHARS }) => {
+      try {
+        const config = getApiConfig(name);
+        if (!config) {
+          throw new Error(`API "${name}" not found`);
+        }
+
+        const exported = exportPostmanCollection(config, requestHistory, includeHistory);
+        addToLog(`API exported to Postman: ${name} (${exported.requestCount} requests)`);
+        const result = JSON.stringify({ collection: exported.collection, environments: exported.environments }, null, 2);
+        return {
+          content: [{
+            type: "text",
+            text: `✅ API "${name}" exported as a Postman collection with ${exported.requestCount} requests${exported.environments.length > 0 ? ` and ${exported.environments.length} environment${exported.environments.length > 1 ? 's' : ''}` : ''}. Save "collection" and each of "environments" as .json files and import them in Postman.` +
+              `${exported.warnings.length > 0 ? `\n\n⚠️ Warnings:\n${exported.warnings.map(warning => `- ${warning}`).join('\n')}` : ''}\n\n` +
+              limitOutput(result, maxResponseChars, storedResponses, `export_postman ${name}`)
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error exporting API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: import_curl - Run a curl command, or save its API
+  mcp.tool(
+    "import_curl",
+    "Parse a curl command (method, URL, -H, -d/--data-raw/--json, -u, -F) and either send it through a saved API like make_request, or save its base URL, auth and headers as a new API. In request mode the API's own auth replaces the command's.",
+    {
+      command: z.string().describe("The curl command line, as copied from docs or a browser; line continuations are fine"),
+      mode: z.enum(['request', 'save_api']).optional().describe("request: send it through a saved API (default); save_api: create an API from it"),
+      apiName: z.string().optional().describe("request: the API to send it through (default: the saved API whose baseUrl the URL starts with); save_api: name of the new API (default: the URL's host)"),
+      baseUrl: z.string().optional().describe("save_api: base URL of the new API (default: the URL's scheme and host)"),
+      select: z.union([z.string(), z.array(z.string())]).optional().describe("request: JSONPath or JMESPath expression(s) to return instead of the whole body"),
+      includeHeaders: z.boolean().optional().describe("request: include the response headers in the result (default: true)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`request: cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ command, mode = 'request', apiName, baseUrl, select, includeHeaders, maxResponseChars }, extra) => {
+      let parsed: ParsedCurl;
+      let requestArgs: RequestParams;
+      try {
+        parsed = parseCurl(command);
+        if (mode === 'save_api') {
+          return await saveCurlApi(parsed, apiName, baseUrl);
+        }
+        requestArgs = curlRequestArgs(parsed, apiName);
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error importing curl command: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      const shown = {
+        ...requestArgs,
+        ...(requestArgs.headers ? { headers: maskHeaders(requestArgs.headers, []) } : {})
+      };
+      const result = await executeRequest({
+        ...requestArgs,
+        ...(select !== undefined ? { select } : {}),
+        ...(includeHeaders !== undefined ? { includeHeaders } : {}),
+        ...(maxResponseChars !== undefined ? { maxResponseChars } : {})
+      }, extra);
+      return {
+        ...result,
+        content: [{
+          type: "text",
+          text: `🔍 Sent as make_request:\n${JSON.stringify(shown, null, 2)}${parsed.warnings.length > 0 ? `\n\n⚠️ Warnings:\n${parsed.warnings.map(warning => `- ${warning}`).join('\n')}` : ''}`
+        }, ...result.content]
+      };
+    }
+  );
+
+  // TOOL: export_curl - Write past requests of an API as curl commands
+  mcp.tool(
+    "export_curl",
+    "Write the most recent requests made to a saved API as copy-pastable curl commands, with the API's base URL, default headers and auth. Credentials, and query parameters or body fields named like them, are masked unless showSecrets is true; requests recorded with their bodies keep them masked as stored.",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      last: z.number().int().min(1).max(20).optional().describe("How many of the latest requests to export (default: 1)"),
+      showSecrets: z.boolean().optional().describe("Show credentials instead of [REDACTED] (default: false)")
+    },
+    async ({ apiName, last = 1, showSecrets = false }) => {
+      try {
+        const config = getApiConfig(apiName);
+        if (!config) {
+          throw new Error(`API "${apiName}" not found`);
+        }
+        const entries = requestHistory.filter(entry => entry.apiName === apiName).slice(-last).reverse();
+        if (entries.length === 0) {
+          throw new Error(`No requests to API "${apiName}" in the history yet`);
+        }
+
+        const commands: string[] = [];
+        for (const entry of entries) {
+          // Sent with the environment active at the time, if it still exists
+          const environment = entry.environment && config.environments?.[entry.environment] ? entry.environment : undefined;
+          const entryConfig = withEnvironment(environment ? { ...config, activeEnvironment: environment } : config);
+          const title = `# ${entry.id} ${entry.timestamp} → ${entry.error || entry.status}${environment ? ` [${environment}]` : ''}`;
+          if (entry.request) {
+            commands.push(`${title}\n${recordedCurl(entry.method, entry.request)}`);
+            continue;
+          }
+
+          // Not recorded: rebuilt from the API without logging in or signing again
+          const url = /^https?:\/\//.test(entry.endpoint) ? entry.endpoint : buildUrl(entryConfig.baseUrl, entry.endpoint);
+          const headers = await buildHeaders(entryConfig, undefined, undefined, false);
+          const authType = entryConfig.auth?.type;
+          const missing = [
+            'its body and queryParams were not recorded',
+            ...(authType && SEND_TIME_AUTH_TYPES.includes(authType) ? [`${authType} headers are only made when sending`] : [])
+          ];
+          const curl = formatCurl({
+            method: entry.method,
+            url: showSecrets ? url : redactUrl(url, curlRedactionPolicy(entryConfig)),
+            headers: showSecrets ? headers : maskHeaders(headers, credentialHeaders(entryConfig))
+          });
+          commands.push(`${title}\n# Incomplete: ${missing.join('; ')}\n${curl}`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: `💻 ${entries.length === 1 ? 'Latest request' : `Latest ${entries.length} requests`} to "${apiName}"${showSecrets ? '' : ' (secrets masked)'}:\n\n${commands.join('\n\n')}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error exporting curl command: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: get_request - Inspect one request of the history
+  mcp.tool(
+    "get_request",
+    "Show one request from the history by its id: status, timing, retries and, for APIs with recording on, the URL, headers and body sent and the response headers and body (credentials and sensitive fields masked).",
+    {
+      id: z.string().describe("History id, as returned in requestId by make_request or listed in apis://stats"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ id, maxResponseChars = DEFAULT_MAX_RESPONSE_CHARS }) => {
+      try {
+        const entry = findHistoryEntry(id);
+        const curl = entry.request ? recordedCurl(entry.method, entry.request) : undefined;
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 ${entry.method} ${entry.endpoint} → ${entry.error || entry.status}${entry.servedFromCache ? ' (answered from the cache)' : ''} [${entry.apiName}]` +
+              `${entry.request ? '' : `\n\n⚠️ Only the summary was recorded; turn recording on for "${entry.apiName}" with save_api to keep headers and bodies`}` +
+              `${curl ? `\n\n💻 As curl (secrets masked):\n\n${curl}` : ''}\n\n` +
+              limitOutput(JSON.stringify(entry, null, 2), maxResponseChars, storedResponses, `get_request ${id}`)
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error getting request: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: replay_request - Send a request of the history again
+  mcp.tool(
+    "replay_request",
+    "Send a request from the history again through its API, with the API's current auth and environment, optionally changing its endpoint, query parameters, headers or body. Recorded requests are replayed with their query, headers and body; others with only the method and endpoint.",
+    {
+      id: z.string().describe("History id, as returned in requestId by make_request or listed in apis://stats"),
+      endpoint: z.string().optional().describe("Send it to this endpoint instead"),
+      queryParams: z.record(z.any()).optional().describe("Query parameters to add to, or replace in, the recorded ones"),
+      headers: z.record(z.string()).optional().describe("Headers to add to, or replace in, the recorded ones"),
+      body: z.any().optional().describe("Body to send instead of the recorded one; needed when the recorded body was masked, cut or not recorded"),
+      bodyType: z.enum(["json", "form", "multipart", "text", "raw"]).optional().describe("How to encode the new body (default: json)"),
+      contentType: z.string().optional().describe("Content-Type for the new body"),
+      select: z.union([z.string(), z.array(z.string())]).optional().describe("JSONPath or JMESPath expression(s) to return instead of the whole body"),
+      includeHeaders: z.boolean().optional().describe("Include the response headers in the result (default: true)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ id, endpoint, queryParams, headers, body, bodyType, contentType, select, includeHeaders, maxResponseChars }, extra) => {
+      let entry: RequestHistory;
+      let requestArgs: RequestParams;
+      try {
+        entry = findHistoryEntry(id);
+        const config = getApiConfig(entry.apiName);
+        if (!config) {
+          throw new Error(`API "${entry.apiName}" no longer exists`);
+        }
+        const replayed = replayRequestArgs(entry, config);
+        if (replayed.bodyProblem && body === undefined) {
+          throw new Error(`Request ${id} cannot be sent as recorded: ${replayed.bodyProblem}. Pass body to send a new one.`);
+        }
+        const maskedQuery = replayed.maskedQuery.filter(name => queryParams?.[name] === undefined);
+        if (maskedQuery.length > 0) {
+          throw new Error(`Request ${id} cannot be sent as recorded: query parameter${maskedQuery.length > 1 ? 's' : ''} ${maskedQuery.join(', ')} ${maskedQuery.length > 1 ? 'were' : 'was'} masked when recorded. Pass ${maskedQuery.length > 1 ? 'them' : 'it'} in queryParams.`);
+        }
+        const maskedHeaders = replayed.maskedHeaders.filter(name => !hasHeader(headers, name));
+        if (maskedHeaders.length > 0) {
+          throw new Error(`Request ${id} cannot be sent as recorded: header${maskedHeaders.length > 1 ? 's' : ''} ${maskedHeaders.join(', ')} ${maskedHeaders.length > 1 ? 'were' : 'was'} masked when recorded. Pass ${maskedHeaders.length > 1 ? 'them' : 'it'} in headers.`);
+        }
+        requestArgs = {
+          ...replayed.args,
+          ...(endpoint !== undefined ? { endpoint } : {}),
+          ...(queryParams ? { queryParams: { ...replayed.args.queryParams, ...queryParams } } : {}),
+          ...(headers ? { headers: { ...replayed.args.headers, ...headers } } : {}),
+          ...(body !== undefined ? { body, bodyType, contentType } : {}),
+          // The one request again, straight from the API
+          cache: false,
+          paginate: false
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error replaying request: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      const shown = {
+        ...requestArgs,
+        ...(requestArgs.headers ? { headers: maskHeaders(requestArgs.headers, []) } : {})
+      };
+      const result = await executeRequest({
+        ...requestArgs,
+        ...(select !== undefined ? { select } : {}),
+        ...(includeHeaders !== undefined ? { includeHeaders } : {}),
+        ...(maxResponseChars !== undefined ? { maxResponseChars } : {})
+      }, extra);
+      const environment = getApiConfig(entry.apiName)?.activeEnvironment;
+      return {
+        ...result,
+        content: [{
+          type: "text",
+          text: `🔁 Replayed ${id} (first sent ${entry.timestamp}${entry.environment && entry.environment !== environment ? ` in environment "${entry.environment}"` : ''}) as make_request:\n${JSON.stringify(shown, null, 2)}`
+        }, ...result.content]
+      };
+    }
+  );
+
+  // TOOL: make_request - Execute HTTP request
+  mcp.tool(
+    "make_request",
+    "Execute an HTTP request to a saved API. Supports GET, POST, PUT, DELETE, PATCH, HEAD and OPTIONS with custom body and headers; bodies can be JSON, forms, multipart uploads, text or raw bytes.",
+    {
+      apiName: z.string().describe("Name of the saved API configuration to use"),
+      endpoint: z.string().describe("API endpoint relative to base URL (e.g., /users/123); {{variables}} of the active environment are filled in here, in queryParams, headers and body"),
+      method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"]).describe("HTTP method"),
+      body: z.any().optional().describe("Request body (ignored for GET and HEAD): any JSON value, an object of fields for form/multipart, a string for text, base64 for raw"),
+      bodyType: z.enum(["json", "form", "multipart", "text", "raw"]).optional().describe("How to encode the body: json (default), form (application/x-www-form-urlencoded), multipart (multipart/form-data with files), text or raw"),
+      files: z.array(multipartFileSchema).optional().describe("File parts of a multipart body"),
+      contentType: z.string().optional().describe("Content-Type for a json, form, text or raw body (defaults to the body type's)"),
+      queryParams: z.record(z.any()).optional().describe("Query parameters as key-value pairs"),
+      headers: z.record(z.string()).optional().describe("Additional headers for this specific request"),
+      validate: z.boolean().optional().describe("Check params and body against the imported OpenAPI operation before sending (default: true)"),
+      validateResponse: z.boolean().optional().describe("Also check the response body against the operation's declared response schema (default: false)"),
+      retry: retrySchema.optional().describe("Override the API's retry policy for this call"),
+      idempotencyKey: z.string().optional().describe("Sent as the Idempotency-Key header, which allows retrying POST/PATCH safely"),
+      cache: z.boolean().optional().describe("Set to false to bypass the API's response cache for this call"),
+      paginate: z.union([z.boolean(), paginationSchema]).optional().describe("GET only: fetch the following pages too and return their merged items (true uses the API's pagination settings, false turns them off)"),
+      select: z.union([z.string(), z.array(z.string())]).optional().describe("JSONPath (starting with $) or JMESPath expression(s) to return instead of the whole body of a successful JSON response, e.g. $.items[*].name, items[*].{id: id, name: name} or [\"$.total\", \"$.items[*].id\"]"),
+      includeHeaders: z.boolean().optional().describe("Include the response headers in the result (default: true)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`),
+      responseType: z.enum(["auto", "json", "text", "binary", "xml", "csv", "ndjson"]).optional().describe("How to read the response body: by its content type (auto, the default), or forced to one format. XML becomes a JSON tree, CSV an array of row objects, NDJSON an array. Images come back as image content, other binaries as a binary://responses/ resource"),
+      parseOptions: parseOptionsSchema.optional().describe("Options for CSV and NDJSON responses"),
+      stream: z.union([z.boolean(), streamSchema]).optional().describe("Read the response as a stream (SSE, NDJSON or lines), sending each event as a progress notification and returning the collected events. text/event-stream responses are streamed unless this is false"),
+      curl: z.union([z.boolean(), curlSchema]).optional().describe("Add an equivalent curl command to the result, with the auth headers it was sent with; credentials are masked unless showSecrets is true")
+    },
+    (args, extra) => executeRequest(args, extra)
+  );
+
+  // TOOL: read_response - Page through a make_request result that was truncated
+  mcp.tool(
+    "read_response",
+    "Read more of a make_request result that was truncated, starting at a character offset",
+    {
+      responseId: z.string().describe("responseId from the truncation marker"),
+      offset: z.number().int().min(0).optional().describe("Character offset to start from (default: 0)"),
+      maxChars: z.number().int().min(1000).optional().describe(`Characters to return (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ responseId, offset = 0, maxChars = DEFAULT_MAX_RESPONSE_CHARS }) => {
+      try {
+        const chunk = storedResponses.read(responseId, offset, maxChars);
+        if (!chunk) {
+          throw new Error(`Response "${responseId}" not found; stored responses expire after 30 minutes`);
+        }
+
+        const end = chunk.offset + chunk.text.length;
+        const marker = chunk.nextOffset !== undefined
+          ? `✂️ [Characters ${chunk.offset}-${end} of ${chunk.total}. Continue with offset ${chunk.nextOffset}.]`
+          : `[End of response: characters ${chunk.offset}-${end} of ${chunk.total}.]`;
+
+        return {
+          content: [{
+            type: "text",
+            text: `📄 ${chunk.label}\n\n${chunk.text}\n\n${marker}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error reading response: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: graphql_query - Run a query or mutation against a GraphQL API
+  mcp.tool(
+    "graphql_query",
+    "Run a GraphQL query or mutation against a saved GraphQL API. GraphQL errors are reported as a tool error even when the HTTP status is 200; see get_api for the schema.",
+    {
+      apiName: z.string().describe("Name of the saved GraphQL API"),
+      query: z.string().describe("GraphQL document, e.g. query($id: ID!) { user(id: $id) { name } }"),
+      variables: z.record(z.any()).optional().describe("Values for the document's variables"),
+      operationName: z.string().optional().describe("Operation to run when the document defines several"),
+      headers: z.record(z.string()).optional().describe("Additional headers for this specific request"),
+      select: z.union([z.string(), z.array(z.string())]).optional().describe("JSONPath or JMESPath expression(s) to return instead of the whole body, e.g. $.data.user.name"),
+      includeHeaders: z.boolean().optional().describe("Include the response headers in the result (default: false)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ apiName, query, variables, operationName, headers, select, includeHeaders = false, maxResponseChars }, extra) => {
+      const config = getApiConfig(apiName);
+      if (!config?.graphql) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${config ? `API "${apiName}" is not a GraphQL API; save it with the graphql option` : `API "${apiName}" not found. Use save_api first.`}`
+          }],
+          isError: true
+        };
+      }
+
+      return executeRequest({
+        apiName,
+        endpoint: config.graphql.endpoint,
+        method: "POST",
+        body: { query, ...(variables ? { variables } : {}), ...(operationName ? { operationName } : {}) },
+        headers,
+        select,
+        includeHeaders,
+        maxResponseChars,
+        responseType: 'json'
+      }, extra);
+    }
+  );
+
+  // TOOL: introspect_graphql - Refresh the cached schema of a GraphQL API
+  mcp.tool(
+    "introspect_graphql",
+    "Fetch the schema of a saved GraphQL API with an introspection query and cache it, so get_api, search and fetch can describe its types and fields",
+    {
+      name: z.string().describe("Name of the saved GraphQL API")
+    },
+    async ({ name }) => {
+      try {
+        const config = getApiConfig(name);
+        if (!config) {
+          throw new Error(`API "${name}" not found`);
+        }
+        if (!config.graphql) {
+          throw new Error(`API "${name}" is not a GraphQL API; save it with the graphql option`);
+        }
+
+        const schema = await introspectGraphql(withEnvironment(config));
+        config.graphql.schema = schema;
+        await storage.saveApi(config);
+        addToLog(`GraphQL schema introspected for ${name}: ${Object.keys(schema.types).length} types`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ GraphQL schema of "${name}" cached\n\n${JSON.stringify(summarizeGraphqlSchema(schema), null, 2)}`
+          }]
+        };
+
+      } catch (error: any) {
+        addToLog(`Error introspecting GraphQL API ${name}: ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error introspecting GraphQL API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: list_apis - List all saved APIs
+  mcp.tool(
+    "list_apis",
+    "List all saved API configurations with their details",
+    {},
+    async () => {
+      try {
+        const apis = Array.from(apiConfigs.values())
+          .sort((a, b) => {
+            // Sort by lastUsed (most recent first), then by createdAt
+            if (a.lastUsed && b.lastUsed) {
+              return new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime();
+            }
+            if (a.lastUsed && !b.lastUsed) return -1;
+            if (!a.lastUsed && b.lastUsed) return 1;
+            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+          })
+          .map(config => ({
+            name: config.name,
+            baseUrl: config.baseUrl,
+            description: config.description,
+            authType: config.auth?.type || 'none',
+            hasDefaultHeaders: !!config.headers && Object.keys(config.headers).length > 0,
+            circuit: breakers.status(config.name, config.circuitBreaker).state,
+            createdAt: config.createdAt,
+            lastUsed: config.lastUsed
+          }));
+
+        addToLog(`Listed ${apis.length} saved APIs`);
+
+        return {
+          content: [{
+            type: "text",
+            text: apis.length > 0
+              ? `📋 Saved APIs (${apis.length}):\n\n${JSON.stringify(apis, null, 2)}`
+              : "📋 No APIs saved yet. Use save_api to add your first API configuration."
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error listing APIs: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: get_api - Get specific API configuration
+  mcp.tool(
+    "get_api",
+    "Get detailed configuration of a specific saved API",
+    {
+      name: z.string().describe("Name of the API to retrieve")
+    },
+    async ({ name }) => {
+      try {
+        const config = getApiConfig(name);
+        if (!config) {
+          throw new Error(`API "${name}" not found`);
+        }
+
+        addToLog(`Retrieved API configuration: ${name}`);
+
+        const details = sanitizeConfig(config);
+        if (isOAuthAuthType(config.auth?.type)) {
+          details.tokenStatus = oauthTokens.status(name);
+        }
+        if (cookieJarEnabled(config)) {
+          details.sessionStatus = sessions.status(name);
+        }
+        details.circuitStatus = breakers.status(name, config.circuitBreaker);
+        if (resolveCachePolicy(config.cache)) {
+          details.cacheStatus = responseCache.status(name);
+        }
+        const rateLimitStatus = rateLimits.status(name);
+        if (rateLimitStatus) {
+          details.rateLimitStatus = rateLimitStatus;
+        }
+        if (config.catalog) {
+          details.operations = config.catalog.operations.map(describeOperation);
+        }
+        if (config.graphql?.schema) {
+          details.graphqlSchema = summarizeGraphqlSchema(config.graphql.schema);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: `🔍 API Configuration: ${name}\n\n${JSON.stringify(details, null, 2)}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error retrieving API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: delete_api - Delete API configuration
+  mcp.tool(
+    "delete_api",
+    "Delete a saved API configuration permanently",
+    {
+      name: z.string().describe("Name of the API to delete")
+    },
+    async ({ name }) => {
+      try {
+        const config = getApiConfig(name);
+        if (!config) {
+          throw new Error(`API "${name}" not found`);
+        }
+
+        await storage.deleteApi(name);
+        apiConfigs.delete(name);
+        refreshOperationTools(name);
+        oauthTokens.forget(name);
+        sessions.forget(name);
+        rateLimits.forget(name);
+        breakers.forget(name);
+        responseCache.purge(name);
+        addToLog(`API configuration deleted: ${name}`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ API "${name}" deleted successfully`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error deleting API: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: save_environment - Create or update an environment of an API
+  mcp.tool(
+    "save_environment",
+    "Create or update a named environment of a saved API (e.g. dev, staging, prod) that overrides its baseUrl, headers and credentials and sets {{variables}} for make_request. Headers, credentials and variables given for an existing environment are merged into it.",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      environment: z.string().regex(/^[\w.-]+$/).describe("Environment name, e.g. staging"),
+      baseUrl: z.string().optional().describe("Base URL to use in this environment"),
+      headers: z.record(z.string()).optional().describe("Headers added to (or replacing) the API's default headers"),
+      credentials: credentialsSchema.optional().describe("Credential fields that replace the API's in this environment; the auth type stays the API's"),
+      variables: z.record(z.string()).optional().describe("Values for {{name}} placeholders in the endpoint, queryParams, headers and body of make_request"),
+      activate: z.boolean().optional().describe("Make this the active environment (default: false)")
+    },
+    async ({ apiName, environment: environmentName, baseUrl, headers, credentials, variables, activate = false }) => {
+      try {
+        const config = getApiConfig(apiName);
+        if (!config) {
+          throw new Error(`API "${apiName}" not found`);
+        }
+        if (baseUrl && !validateUrl(baseUrl)) {
+          throw new Error("Invalid baseUrl. Must start with http:// or https://");
+        }
+        if (credentials && (!config.auth || config.auth.type === 'none')) {
+          throw new Error(`API "${apiName}" has no authentication to take credentials; set auth with save_api first`);
+        }
+
+        const existing = config.environments?.[environmentName];
+        const environment = existing ? structuredClone(existing) : { createdAt: new Date().toISOString() };
+        if (baseUrl) environment.baseUrl = baseUrl.replace(/\/$/, '');
+        if (headers) environment.headers = { ...environment.headers, ...headers };
+        if (credentials) environment.credentials = { ...environment.credentials, ...sealCredentials(credentials) };
+        if (variables) environment.variables = { ...environment.variables, ...variables };
+        if (config.auth && environment.credentials) {
+          validateAuth({ type: config.auth.type, credentials: { ...config.auth.credentials, ...environment.credentials } });
+        }
+
+        const wasActive = config.activeEnvironment === environmentName;
+        const updated = structuredClone(config);
+        updated.environments = { ...updated.environments, [environmentName]: environment };
+        if (activate) updated.activeEnvironment = environmentName;
+        await storage.saveApi(updated);
+        apiConfigs.set(apiName, updated);
+
+        if ((activate && !wasActive) || (wasActive && (baseUrl || credentials))) {
+          forgetEnvironmentState(apiName);
+        }
+        addToLog(`Environment ${existing ? 'updated' : 'created'}: ${apiName}/${environmentName}${activate ? ' (active)' : ''}`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Environment "${environmentName}" of API "${apiName}" ${existing ? 'updated' : 'created'}${updated.activeEnvironment === environmentName ? ' and active' : ''}\n\n${JSON.stringify(sanitizeConfig(updated).environments[environmentName], null, 2)}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error saving environment: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: use_environment - Switch the active environment of an API
+  mcp.tool(
+    "use_environment",
+    "Switch the environment requests to a saved API go to, or go back to the API's own settings when no environment is given",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      environment: z.string().optional().describe("Environment to activate; omit to deactivate the current one")
+    },
+    async ({ apiName, environment: environmentName }) => {
+      try {
+        const config = getApiConfig(apiName);
+        if (!config) {
+          throw new Error(`API "${apiName}" not found`);
+        }
+        if (environmentName && !config.environments?.[environmentName]) {
+          const available = Object.keys(config.environments || {});
+          throw new Error(`Environment "${environmentName}" not found for API "${apiName}" (available: ${available.join(', ') || 'none, create one with save_environment'})`);
+        }
+
+        const previous = config.activeEnvironment;
+        const updated = structuredClone(config);
+        if (environmentName) {
+          updated.activeEnvironment = environmentName;
+        } else {
+          delete updated.activeEnvironment;
+        }
+        await storage.saveApi(updated);
+        apiConfigs.set(apiName, updated);
+
+        if (previous !== environmentName) {
+          forgetEnvironmentState(apiName);
+        }
+        addToLog(`Active environment of ${apiName}: ${environmentName || 'none'}${previous ? ` (was ${previous})` : ''}`);
+
+        const effective = withEnvironment(updated);
+        return {
+          content: [{
+            type: "text",
+            text: `✅ API "${apiName}" now uses ${environmentName ? `environment "${environmentName}"` : 'its own settings'}\n\n${JSON.stringify({
+              activeEnvironment: environmentName || null,
+              baseUrl: effective.baseUrl,
+              variables: Object.keys((environmentName && updated.environments?.[environmentName]?.variables) || {}),
+              environments: Object.keys(updated.environments || {})
+            }, null, 2)}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error switching environment: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: delete_environment - Remove an environment of an API
+  mcp.tool(
+    "delete_environment",
+    "Delete an environment of a saved API; if it was active, requests go back to the API's own settings",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      environment: z.string().describe("Environment to delete")
+    },
+    async ({ apiName, environment: environmentName }) => {
+      try {
+        const config = getApiConfig(apiName);
+        if (!config?.environments?.[environmentName]) {
+          throw new Error(config ? `Environment "${environmentName}" not found for API "${apiName}"` : `API "${apiName}" not found`);
+        }
+
+        const updated = structuredClone(config);
+        delete updated.environments![environmentName];
+        if (Object.keys(updated.environments!).length === 0) delete updated.environments;
+        const wasActive = updated.activeEnvironment === environmentName;
+        if (wasActive) delete updated.activeEnvironment;
+        await storage.saveApi(updated);
+        apiConfigs.set(apiName, updated);
+
+        if (wasActive) {
+          forgetEnvironmentState(apiName);
+        }
+        addToLog(`Environment deleted: ${apiName}/${environmentName}`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Environment "${environmentName}" of API "${apiName}" deleted${wasActive ? '; requests now use the API\'s own settings' : ''}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error deleting environment: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: save_request - Store a parameterized request template
+  mcp.tool(
+    "save_request",
+    "Save a named request template for an API, so it can be run later with run_request passing only the values that change. {{name}} placeholders in the endpoint, queryParams, headers and body are its parameters (environment variables excepted). Saving an existing name replaces it.",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      name: z.string().regex(/^[\w.-]+$/).describe("Request name, e.g. get_order"),
+      collection: z.string().regex(/^[\w.-]+$/).optional().describe(`Collection to group it in (default: ${DEFAULT_COLLECTION})`),
+      collectionDescription: z.string().optional().describe("Description of the collection"),
+      description: z.string().optional().describe("What the request does"),
+      method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"]).describe("HTTP method"),
+      endpoint: z.string().describe("Endpoint relative to the base URL, e.g. /orders/{{orderId}}"),
+      queryParams: z.record(z.any()).optional().describe("Query parameters; a value like \"{{status}}\" is dropped when an optional parameter is not given"),
+      headers: z.record(z.string()).optional().describe("Headers for this request"),
+      body: z.any().optional().describe("Request body; a field that is just \"{{count}}\" takes the parameter value with its type"),
+      bodyType: z.enum(["json", "form", "multipart", "text", "raw"]).optional().describe("How to encode the body (default: json)"),
+      contentType: z.string().optional().describe("Content-Type for the body (defaults to the body type's)"),
+      parameters: z.array(z.object({
+        name: z.string().describe("Placeholder name, without braces"),
+        description: z.string().optional().describe("What to pass"),
+        required: z.boolean().optional().describe("Whether run_request must be given a value (default: true unless there is a default)"),
+        default: z.any().optional().describe("Value used when run_request does not pass one")
+      })).optional().describe("Declared parameters; placeholders not declared here become required parameters")
+    },
+    async ({ apiName, name, collection = DEFAULT_COLLECTION, collectionDescription, description, method, endpoint, queryParams, headers, body, bodyType, contentType, parameters = [] }) => {
+      try {
+        const config = getApiConfig(apiName);
+        if (!config) {
+          throw new Error(`API "${apiName}" not found`);
+        }
+
+        const template = { endpoint, queryParams, headers, body };
+        const declared = parameters.map(parameter => ({
+          name: parameter.name,
+          ...(parameter.description ? { description: parameter.description } : {}),
+          required: parameter.required ?? parameter.default === undefined,
+          ...(parameter.default !== undefined ? { default: parameter.default } : {})
+        }));
+        const { parameters: resolved, added } = templateParameters(template, declared, config.environments);
+
+        const updated = structuredClone(config);
+        const existingCollection = updated.collections?.[collection];
+        const existing = existingCollection?.requests[name];
+        const now = new Date().toISOString();
+        const request: SavedRequest = {
+          name,
+          ...(description ? { description } : {}),
+          method,
+          endpoint,
+          ...(queryParams ? { queryParams } : {}),
+          ...(headers ? { headers } : {}),
+          ...(body !== undefined ? { body } : {}),
+          ...(bodyType ? { bodyType } : {}),
+          ...(contentType ? { contentType } : {}),
+          parameters: resolved,
+          createdAt: existing?.createdAt || now,
+          ...(existing ? { updatedAt: now } : {})
+        };
+        const keptDescription = collectionDescription || existingCollection?.description;
+        updated.collections = {
+          ...updated.collections,
+          [collection]: {
+            ...(keptDescription ? { description: keptDescription } : {}),
+            requests: { ...existingCollection?.requests, [name]: request }
+          }
+        };
+        await storage.saveApi(updated);
+        apiConfigs.set(apiName, updated);
+        addToLog(`Saved request ${existing ? 'updated' : 'created'}: ${apiName} ${collection}/${name}`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Request "${collection}/${name}" ${existing ? 'updated' : 'saved'} for API "${apiName}"\n\n${describeSavedRequest(collection, request)}${added.length > 0 ? `\n\n📋 Undeclared placeholders became required parameters: ${added.join(', ')}` : ''}\n\nRun it with run_request { "apiName": "${apiName}", "name": "${name}"${resolved.length > 0 ? ', "params": { ... }' : ''} }`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error saving request: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: list_requests - List saved request templates
+  mcp.tool(
+    "list_requests",
+    "List the saved request templates of one API or of all APIs, with their parameters",
+    {
+      apiName: z.string().optional().describe("Only list the requests of this API"),
+      collection: z.string().optional().describe("Only list the requests of this collection")
+    },
+    async ({ apiName, collection }) => {
+      try {
+        if (apiName && !getApiConfig(apiName)) {
+          throw new Error(`API "${apiName}" not found`);
+        }
+
+        const listing: Record<string, Record<string, { description?: string, requests: string[] }>> = {};
+        for (const config of apiConfigs.values()) {
+          if (apiName && config.name !== apiName) continue;
+          for (const [name, requests] of Object.entries(config.collections || {})) {
+            if (collection && name !== collection) continue;
+            (listing[config.name] ??= {})[name] = {
+              ...(requests.description ? { description: requests.description } : {}),
+              requests: Object.values(requests.requests).map(request => describeSavedRequest(name, request))
+            };
+          }
+        }
+
+        const count = Object.values(listing).flatMap(collections => Object.values(collections)).reduce((sum, requests) => sum + requests.requests.length, 0);
+        return {
+          content: [{
+            type: "text",
+            text: count === 0
+              ? "📋 No saved requests found. Use save_request to add one."
+              : `📋 ${count} saved request${count === 1 ? '' : 's'}:\n\n${JSON.stringify(listing, null, 2)}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error listing requests: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: run_request - Execute a saved request template
+  mcp.tool(
+    "run_request",
+    "Run a request saved with save_request, passing only its parameters. The result is the same as make_request's.",
+    {
+      apiName: z.string().describe("Name of the saved API"),
+      name: z.string().describe("Name of the saved request"),
+      collection: z.string().optional().describe("Collection of the request, needed when several collections have one with this name"),
+      params: z.record(z.any()).optional().describe("Values for the request's parameters; the others take their defaults"),
+      headers: z.record(z.string()).optional().describe("Additional headers for this call"),
+      select: z.union([z.string(), z.array(z.string())]).optional().describe("JSONPath or JMESPath expression(s) to return instead of the whole body"),
+      includeHeaders: z.boolean().optional().describe("Include the response headers in the result (default: true)"),
+      maxResponseChars: z.number().int().min(1000).optional().describe(`Cut the result after this many characters; the rest can be read with read_response (default: ${DEFAULT_MAX_RESPONSE_CHARS})`)
+    },
+    async ({ apiName, name, collection, params = {}, headers, select, includeHeaders, maxResponseChars }, extra) => {
+      let rendered: ReturnType<typeof renderSavedRequest>;
+      try {
+        const config = getApiConfig(apiName);
+        if (!config) {
+          throw new Error(`API "${apiName}" not found. Use save_api first.`);
+        }
+        rendered = renderSavedRequest(findSavedRequest(config, name, collection).request, params);
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      return executeRequest({
+        apiName,
+        ...rendered,
+        headers: rendered.headers || headers ? { ...rendered.headers, ...headers } : undefined,
+        select,
+        includeHeaders,
+        maxResponseChars
+      }, extra);
+    }
+  );
+
+  // TOOL: purge_cache - Drop cached responses of an API
+  mcp.tool(
+    "purge_cache",
+    "Remove cached GET responses of a saved API, all of them or those under an endpoint",
+    {
+      name: z.string().describe("Name of the API"),
+      endpoint: z.string().optional().describe("Only purge responses whose URL starts with this endpoint (e.g. /users)")
+    },
+    async ({ name, endpoint }) => {
+      try {
+        const config = getApiConfig(name);
+        if (!config) {
+          throw new Error(`API "${name}" not found`);
+        }
+
+        const prefix = endpoint ? buildUrl(withEnvironment(config).baseUrl, endpoint) : undefined;
+        const purged = responseCache.purge(name, prefix);
+        addToLog(`Purged ${purged} cached responses for ${name}${prefix ? ` under ${prefix}` : ''}`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Purged ${purged} cached response${purged === 1 ? '' : 's'} for API "${name}"${endpoint ? ` under ${endpoint}` : ''}`
+          }]
+        };
+
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error purging cache: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: rotate_master_key - Re-encrypt stored credentials with the current master key
+  mcp.tool(
+    "rotate_master_key",
+    "Re-encrypt all stored API credentials with the current MASTER_KEY. To rotate: restart with the new key in MASTER_KEY and the old one in MASTER_KEY_PREVIOUS, run this tool, then drop MASTER_KEY_PREVIOUS.",
+    {},
+    async () => {
+      try {
+        if (!vault.enabled) {
+          throw new Error("MASTER_KEY is not configured, credentials cannot be encrypted");
+        }
+
+        const rotated: string[] = [];
+        const failed: Array<{ name: string, error: string }> = [];
+        let fieldsRotated = 0;
+
+        for (const config of apiConfigs.values()) {
+          // Work on a copy so a failed decrypt leaves the stored config untouched
+          const updated = structuredClone(config);
+          try {
+            const changed = resealCredentials(updated);
+            if (changed > 0) {
+              await storage.saveApi(updated);
+              apiConfigs.set(updated.name, updated);
+              rotated.push(updated.name);
+              fieldsRotated += changed;
+            }
+          } catch (error: any) {
+            failed.push({ name: config.name, error: error.message });
+          }
+        }
+
+        addToLog(`Master key rotation: ${rotated.length} APIs re-encrypted, ${failed.length} failed`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `${failed.length > 0 ? '⚠️' : '✅'} Credentials re-encrypted with master key ${vault.currentKeyId}\n\n${JSON.stringify({
+              rotatedApis: rotated,
+              fieldsRotated,
+              unchangedApis: apiConfigs.size - rotated.length - failed.length,
+              failed
+            }, null, 2)}`
+          }],
+          ...(failed.length > 0 ? { isError: true } : {})
+        };
+
+      } catch (error: any) {
+        addToLog(`Master key rotation failed: ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Error rotating master key: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TOOL: search - ChatGPT Deep Research compatibility
+  mcp.tool(
+    "search",
+    "Search through saved API configurations and their usage history for ChatGPT Deep Research",
+    {
+      query: z.string().describe("Search query to find relevant API configurations, endpoints, or usage data")
+    },
+    async ({ query }) => {
+      try {
+        const searchResults: Array<{id: string, title: string, url: string}> = [];
+        const queryLower = query.toLowerCase();
+
+        // Search through API configurations
+        for (const [name, config] of apiConfigs.entries()) {
+          let relevanceScore = 0;
+          let matchReasons: string[] = [];
+
+          // Check if query matches API name
+          if (name.toLowerCase().includes(queryLower)) {
+            relevanceScore += 10;
+            matchReasons.push("name");
+          }
+
+          // Check if query matches description
+          if (config.description?.toLowerCase().includes(queryLower)) {
+            relevanceScore += 8;
+            matchReasons.push("description");
+          }
+
+          // Check if query matches base URL
+          if (config.baseUrl.toLowerCase().includes(queryLower)) {
+            relevanceScore += 6;
+            matchReasons.push("baseUrl");
+          }
+
+          // Check if query matches auth type
+          if (config.auth?.type.toLowerCase().includes(queryLower)) {
+            relevanceScore += 4;
+            matchReasons.push("auth");
+          }
+
+          // Check request history for this API
+          const apiRequests = requestHistory.filter(r => r.apiName === name);
+          for (const request of apiRequests) {
+            if (request.endpoint.toLowerCase().includes(queryLower) ||
+                request.method.toLowerCase().includes(queryLower)) {
+              relevanceScore += 2;
+              matchReasons.push("endpoints");
+              break;
+            }
+          }
+
+          if (relevanceScore > 0) {
+            searchResults.push({
+              id: `api-${name}`,
+              title: `${name} API - ${config.description || 'API Configuration'} (${matchReasons.join(', ')})`,
+              url: `${config.baseUrl}/info`
+            });
+          }
+        }
+
+        // Search through request history for endpoints and methods
+        const uniqueEndpoints = new Set<string>();
+        for (const request of requestHistory) {
+          if (request.endpoint.toLowerCase().includes(queryLower) ||
+              request.method.toLowerCase().includes(queryLower)) {
+            const endpointKey = `${request.apiName}-${request.endpoint}`;
+            if (!uniqueEndpoints.has(endpointKey)) {
+              uniqueEndpoints.add(endpointKey);
+              const apiConfig = apiConfigs.get(request.apiName);
+              searchResults.push({
+                id: `endpoint-${request.apiName}-${request.endpoint.replace(/[^a-zA-Z0-9]/g, '_')}`,
+                title: `${request.method} ${request.endpoint} - ${request.apiName} API`,
+                url: `${apiConfig?.baseUrl || 'unknown'}${request.endpoint}`
+              });
+            }
+          }
+        }
+
+        // Search through operations imported from OpenAPI documents
+        for (const config of apiConfigs.values()) {
+          for (const operation of config.catalog?.operations || []) {
+            const searchable = [operation.operationId, operation.method, operation.path, operation.summary, ...(operation.tags || [])]
+              .filter(Boolean)
+              .join(' ')
+              .toLowerCase();
+            if (searchable.includes(queryLower)) {
+              searchResults.push({
+                id: `operation-${config.name}-${operation.operationId}`,
+                title: `${operation.method} ${operation.path} - ${operation.summary || operation.operationId} (${config.name} API)`,
+                url: `${config.baseUrl}${operation.path}`
+              });
+            }
+          }
+        }
+
+        // Search through the types and fields of introspected GraphQL schemas
+        for (const config of apiConfigs.values()) {
+          const schema = config.graphql?.schema;
+          for (const type of Object.values(schema?.types || {})) {
+            if (type.kind === 'SCALAR') continue;
+            const searchable = [type.name, type.description, ...(type.fields || []).map(item => item.name)]
+              .filter(Boolean)
+              .join(' ')
+              .toLowerCase();
+            if (searchable.includes(queryLower)) {
+              searchResults.push({
+                id: `graphql-${config.name}-${type.name}`,
+                title: `${type.kind} ${type.name}${type.description ? ` - ${type.description.split('\n')[0]}` : ''} (${config.name} GraphQL API)`,
+                url: `${config.baseUrl}${config.graphql!.endpoint}`
+              });
+            }
+          }
         }
-      }
 
-      // Search through request history for endpoints and methods
-      const uniqueEndpoints = new Set<string>();
-      for (const request of requestHistory) {
-        if (request.endpoint.toLowerCase().includes(queryLower) ||
-            request.method.toLowerCase().includes(queryLower)) {
-          const endpointKey = `${request.apiName}-${request.endpoint}`;
-          if (!uniqueEndpoints.has(endpointKey)) {
-            uniqueEndpoints.add(endpointKey);
-            const apiConfig = apiConfigs.get(request.apiName);
-            searchResults.push({
-              id: `endpoint-${request.apiName}-${request.endpoint.replace(/[^a-zA-Z0-9]/g, '_')}`,
-              title: `${request.method} ${request.endpoint} - ${request.apiName} API`,
-              url: `${apiConfig?.baseUrl || 'unknown'}${request.endpoint}`
-            });
+        // Search through saved request templates
+        for (const config of apiConfigs.values()) {
+          for (const [collection, requests] of Object.entries(config.collections || {})) {
+            for (const request of Object.values(requests.requests)) {
+              const searchable = [request.name, request.description, request.method, request.endpoint, collection, requests.description]
+                .filter(Boolean)
+                .join(' ')
+                .toLowerCase();
+              if (searchable.includes(queryLower)) {
+                searchResults.push({
+                  id: `request-${config.name}-${collection}-${request.name}`,
+                  title: `${collection}/${request.name}: ${request.method} ${request.endpoint}${request.description ? ` - ${request.description}` : ''} (${config.name} saved request)`,
+                  url: `${config.baseUrl}${request.endpoint}`
+                });
+              }
+            }
           }
         }
-      }
 
-      // Sort by relevance (title length as simple heuristic)
-      searchResults.sort((a, b) => b.title.length - a.title.length);
+        // Sort by relevance (title length as simple heuristic)
+        searchResults.sort((a, b) => b.title.length - a.title.length);
 
-      // Limit to top 10 results
-      const limitedResults = searchResults.slice(0, 10);
+        // Limit to top 10 results
+        const limitedResults = searchResults.slice(0, 10);
 
-      addToLog(`Search performed for: "${query}", found ${limitedResults.length} results`);
+        addToLog(`Search performed for: "${query}", found ${limitedResults.length} results`);
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ results: limitedResults })
-        }]
-      };
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ results: limitedResults })
+          }]
+        };
 
-    } catch (error: any) {
-      addToLog(`Search error for "${query}": ${error.message}`);
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ results: [] })
-        }],
-        isError: true
-      };
+      } catch (error: any) {
+        addToLog(`Search error for "${query}": ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ results: [] })
+          }],
+          isError: true
+        };
+      }
     }
-  }
-);
-
-// TOOL: fetch - ChatGPT Deep Research compatibility
-mcp.tool(
-  "fetch",
-  "Fetch detailed information about a specific API configuration or endpoint for ChatGPT Deep Research",
-  {
-    id: z.string().describe("Unique identifier for the API configuration or endpoint to fetch")
-  },
-  async ({ id }) => {
-    try {
-      let document: any = null;
-
-      // Handle API configuration fetch
-      if (id.startsWith('api-')) {
-        const apiName = id.replace('api-', '');
-        const config = getApiConfig(apiName);
-
-        if (config) {
-          const stats = requestHistory.filter(r => r.apiName === apiName);
-          const successfulRequests = stats.filter(r => r.success).length;
-          const averageResponseTime = stats.length > 0
-            ? Math.round(stats.reduce((sum, r) => sum + r.responseTime, 0) / stats.length)
-            : 0;
-
-          document = {
-            id,
-            title: `${apiName} API Configuration`,
-            text: `API Name: ${apiName}
+  );
+
+  // TOOL: fetch - ChatGPT Deep Research compatibility
+  mcp.tool(
+    "fetch",
+    "Fetch detailed information about a specific API configuration or endpoint for ChatGPT Deep Research",
+    {
+      id: z.string().describe("Unique identifier for the API configuration or endpoint to fetch")
+    },
+    async ({ id }) => {
+      try {
+        let document: any = null;
+
+        // Handle API configuration fetch
+        if (id.startsWith('api-')) {
+          const apiName = id.replace('api-', '');
+          const config = getApiConfig(apiName);
+
+          if (config) {
+            const stats = requestHistory.filter(r => r.apiName === apiName);
+            const successfulRequests = stats.filter(r => r.success).length;
+            const averageResponseTime = stats.length > 0
+              ? Math.round(stats.reduce((sum, r) => sum + r.responseTime, 0) / stats.length)
+              : 0;
+
+            document = {
+              id,
+              title: `${apiName} API Configuration`,
+              text: `API Name: ${apiName}
 Base URL: ${config.baseUrl}
+Environments: ${config.environments ? Object.entries(config.environments).map(([name, environment]) => `${name}${name === config.activeEnvironment ? ' (active)' : ''}${environment.baseUrl ? ` ${environment.baseUrl}` : ''}`).join(', ') : 'None'}
 Description: ${config.description || 'No description provided'}
 Authentication Type: ${config.auth?.type || 'none'}
 Default Headers: ${config.headers ? JSON.stringify(config.headers, null, 2) : 'None'}
@@ -653,61 +3259,79 @@ Usage Statistics:
 - Average Response Time: ${averageResponseTime}ms
 
 Available Endpoints (from history):
-${stats.map(r => `- ${r.method} ${r.endpoint} (${r.status}, ${r.responseTime}ms)`).join('\n') || 'No endpoint history available'}
-
+${stats.map(r => `- ${r.method} ${r.endpoint} (${r.status}, ${r.responseTime}ms${r.environment ? `, ${r.environment}` : ''})`).join('\n') || 'No endpoint history available'}
+
+Operations (from ${config.catalog ? `${config.catalog.format} ${config.catalog.specVersion} document` : 'imported document'}):
+${config.catalog?.operations.map(operation => `- ${describeOperation(operation)}`).join('\n') || 'No document imported (use import_openapi)'}
+
+Saved Requests (run with run_request):
+${Object.entries(config.collections || {}).flatMap(([collection, requests]) => Object.values(requests.requests).map(request => `- ${describeSavedRequest(collection, request)}`)).join('\n') || 'None (use save_request)'}
+${config.graphql ? `
+GraphQL endpoint: ${config.graphql.endpoint}
+${config.graphql.schema ? `Queries:
+${rootFields(config.graphql.schema, 'query').map(item => `- ${describeGraphqlField(item)}`).join('\n') || 'None'}
+Mutations:
+${rootFields(config.graphql.schema, 'mutation').map(item => `- ${describeGraphqlField(item)}`).join('\n') || 'None'}
+` : 'Schema not introspected yet (use introspect_graphql)\n'}` : ''}
 Authentication Details:
 ${config.auth?.type === 'bearer' ? '- Uses Bearer token authentication' : ''}
 ${config.auth?.type === 'api-key' ? `- Uses API key in header: ${config.auth.credentials?.headerName || 'unknown'}` : ''}
 ${config.auth?.type === 'basic' ? '- Uses Basic authentication with username/password' : ''}
+${config.auth?.type === 'oauth2-client-credentials' ? `- Uses OAuth2 client credentials from ${config.auth.credentials?.tokenUrl || 'unknown'}` : ''}
+${config.auth?.type === 'oauth2-refresh-token' ? `- Uses OAuth2 refresh token from ${config.auth.credentials?.tokenUrl || 'unknown'}` : ''}
+${config.auth?.type === 'aws-sigv4' ? `- Requests are signed with AWS SigV4 (${config.auth.credentials?.service || 'unknown'} in ${config.auth.credentials?.region || 'unknown'})` : ''}
+${config.auth?.type === 'session' ? `- Logs in at ${config.auth.credentials?.loginEndpoint || 'unknown'} and replays the session ${config.auth.credentials?.sessionExtract && config.auth.credentials.sessionExtract !== 'cookie' ? 'token' : 'cookie'}` : ''}
+${config.auth?.type === 'hmac' ? `- Requests are signed with HMAC-${(config.auth.credentials?.algorithm || 'sha256').toUpperCase()} in header ${config.auth.credentials?.signatureHeader || 'X-Signature'}` : ''}
 ${config.auth?.type === 'none' ? '- No authentication required' : ''}
 
-This API can be used with the make_request tool to execute HTTP requests.`,
-            url: `${config.baseUrl}/info`,
-            metadata: {
-              source: "api_manager",
-              type: "api_configuration",
-              authType: config.auth?.type || 'none',
-              requestCount: stats.length,
-              successRate: stats.length > 0 ? Math.round((successfulRequests / stats.length) * 100) : 0
-            }
-          };
-        }
-      }
-
-      // Handle endpoint fetch
-      if (id.startsWith('endpoint-')) {
-        const parts = id.replace('endpoint-', '').split('-');
-        const apiName = parts[0];
-        if (!apiName) {
-          throw new Error(`Invalid endpoint ID format: ${id}`);
-        }
-        const endpointPart = parts.slice(1).join('-').replace(/_/g, '/');
-
-        const config = getApiConfig(apiName);
-        if (!config) {
-          throw new Error(`API "${apiName}" not found`);
+This API can be used with the ${config.graphql ? 'graphql_query' : 'make_request'} tool to execute ${config.graphql ? 'GraphQL queries' : 'HTTP requests'}.`,
+              url: `${config.baseUrl}/info`,
+              metadata: {
+                source: "api_manager",
+                type: "api_configuration",
+                authType: config.auth?.type || 'none',
+                operationCount: config.catalog?.operations.length || 0,
+                requestCount: stats.length,
+                successRate: stats.length > 0 ? Math.round((successfulRequests / stats.length) * 100) : 0
+              }
+            };
+          }
         }
 
-        const endpointHistory = requestHistory.filter(r =>
-          r.apiName === apiName && r.endpoint.replace(/[^a-zA-Z0-9]/g, '_') === endpointPart
-        );
+        // Handle endpoint fetch
+        if (id.startsWith('endpoint-')) {
+          const parts = id.replace('endpoint-', '').split('-');
+          const apiName = parts[0];
+          if (!apiName) {
+            throw new Error(`Invalid endpoint ID format: ${id}`);
+          }
+          const endpointPart = parts.slice(1).join('-').replace(/_/g, '/');
 
-        if (endpointHistory.length > 0) {
-          const firstRequest = endpointHistory[0];
-          if (!firstRequest) {
-            throw new Error(`No endpoint history found for ${id}`);
+          const config = getApiConfig(apiName);
+          if (!config) {
+            throw new Error(`API "${apiName}" not found`);
           }
-          const endpoint = firstRequest.endpoint;
-          const methods = [...new Set(endpointHistory.map(r => r.method))];
-          const successfulRequests = endpointHistory.filter(r => r.success).length;
-          const averageResponseTime = Math.round(
-            endpointHistory.reduce((sum, r) => sum + r.responseTime, 0) / endpointHistory.length
+
+          const endpointHistory = requestHistory.filter(r =>
+            r.apiName === apiName && r.endpoint.replace(/[^a-zA-Z0-9]/g, '_') === endpointPart
           );
 
-          document = {
-            id,
-            title: `${endpoint} - ${apiName} API Endpoint`,
-            text: `Endpoint: ${endpoint}
+          if (endpointHistory.length > 0) {
+            const firstRequest = endpointHistory[0];
+            if (!firstRequest) {
+              throw new Error(`No endpoint history found for ${id}`);
+            }
+            const endpoint = firstRequest.endpoint;
+            const methods = [...new Set(endpointHistory.map(r => r.method))];
+            const successfulRequests = endpointHistory.filter(r => r.success).length;
+            const averageResponseTime = Math.round(
+              endpointHistory.reduce((sum, r) => sum + r.responseTime, 0) / endpointHistory.length
+            );
+
+            document = {
+              id,
+              title: `${endpoint} - ${apiName} API Endpoint`,
+              text: `Endpoint: ${endpoint}
 API: ${apiName}
 Base URL: ${config.baseUrl}
 Full URL: ${config.baseUrl}${endpoint}
@@ -722,8 +3346,8 @@ Usage Statistics:
 
 Request History:
 ${endpointHistory.slice(-5).map(r =>
-  `- ${r.timestamp}: ${r.method} ${r.endpoint} → ${r.status} (${r.responseTime}ms)`
-).join('\n')}
+    `- ${r.timestamp}: ${r.method} ${r.endpoint} → ${r.status} (${r.responseTime}ms)${r.environment ? ` [${r.environment}]` : ''} id ${r.id}`
+  ).join('\n')}
 
 Authentication: ${config.auth?.type || 'none'}
 
@@ -731,134 +3355,291 @@ To use this endpoint, call the make_request tool with:
 - apiName: "${apiName}"
 - endpoint: "${endpoint}"
 - method: one of [${methods.join(', ')}]`,
-            url: `${config.baseUrl}${endpoint}`,
-            metadata: {
-              source: "api_manager",
-              type: "endpoint_info",
-              apiName,
-              endpoint,
-              methods,
-              requestCount: endpointHistory.length,
-              successRate: Math.round((successfulRequests / endpointHistory.length) * 100)
-            }
-          };
+              url: `${config.baseUrl}${endpoint}`,
+              metadata: {
+                source: "api_manager",
+                type: "endpoint_info",
+                apiName,
+                endpoint,
+                methods,
+                requestCount: endpointHistory.length,
+                successRate: Math.round((successfulRequests / endpointHistory.length) * 100)
+              }
+            };
+          }
         }
-      }
 
-      if (!document) {
-        throw new Error(`Document with ID "${id}" not found`);
-      }
+        // Handle operation fetch (API names may contain dashes, so match the whole id)
+        if (id.startsWith('operation-')) {
+          for (const config of apiConfigs.values()) {
+            const operation = config.catalog?.operations.find(op => id === `operation-${config.name}-${op.operationId}`);
+            if (!operation || !config.catalog) continue;
+
+            const schemas = referencedSchemas(operation, config.catalog.schemas);
+            document = {
+              id,
+              title: `${operation.method} ${operation.path} - ${config.name} API Operation`,
+              text: `Operation: ${operation.operationId}${operation.deprecated ? ' (deprecated)' : ''}
+API: ${config.name}
+Method: ${operation.method}
+Path: ${operation.path}
+Full URL: ${config.baseUrl}${operation.path}
+${operation.summary ? `Summary: ${operation.summary}\n` : ''}${operation.description ? `Description: ${operation.description}\n` : ''}${operation.tags ? `Tags: ${operation.tags.join(', ')}\n` : ''}
+Parameters:
+${operation.parameters.map(p => `- ${p.name} (${p.in}${p.required ? ', required' : ''})${p.schema ? `: ${JSON.stringify(p.schema)}` : ''}${p.description ? ` - ${p.description}` : ''}`).join('\n') || 'None'}
+
+Request Body:
+${operation.requestBody ? `${operation.requestBody.contentType}${operation.requestBody.required ? ' (required)' : ''}\n${JSON.stringify(operation.requestBody.schema || {}, null, 2)}` : 'None'}
+
+Responses:
+${Object.entries(operation.responses).map(([status, response]) => `- ${status}: ${response.description || ''}${response.schema ? `\n${JSON.stringify(response.schema, null, 2)}` : ''}`).join('\n') || 'None documented'}
+
+Referenced Schemas:
+${Object.keys(schemas).length > 0 ? JSON.stringify(schemas, null, 2) : 'None'}
+
+To call this operation, use the make_request tool with:
+- apiName: "${config.name}"
+- endpoint: "${operation.path}" (fill in the path parameters)
+- method: "${operation.method}"`,
+              url: `${config.baseUrl}${operation.path}`,
+              metadata: {
+                source: "api_manager",
+                type: "api_operation",
+                apiName: config.name,
+                operationId: operation.operationId,
+                method: operation.method,
+                path: operation.path
+              }
+            };
+            break;
+          }
+        }
 
-      addToLog(`Fetched document: ${id}`);
+        // Handle GraphQL type fetch (API names may contain dashes, so match the whole id)
+        if (id.startsWith('graphql-')) {
+          for (const config of apiConfigs.values()) {
+            const schema = config.graphql?.schema;
+            const type = schema && Object.values(schema.types).find(item => id === `graphql-${config.name}-${item.name}`);
+            if (!schema || !type) continue;
+
+            const referenced = referencedGraphqlTypes(schema, type);
+            document = {
+              id,
+              title: `${type.kind} ${type.name} - ${config.name} GraphQL API`,
+              text: `${describeGraphqlType(type)}
+
+Referenced Types:
+${referenced.map(describeGraphqlType).join('\n\n') || 'None'}
+
+Schema introspected at ${schema.introspectedAt}. To query this API, use the graphql_query tool with apiName "${config.name}".`,
+              url: `${config.baseUrl}${config.graphql!.endpoint}`,
+              metadata: {
+                source: "api_manager",
+                type: "graphql_type",
+                apiName: config.name,
+                typeName: type.name,
+                kind: type.kind
+              }
+            };
+            break;
+          }
+        }
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(document)
-        }]
-      };
+        // Handle saved request fetch
+        if (id.startsWith('request-')) {
+          for (const config of apiConfigs.values()) {
+            const found = Object.entries(config.collections || {}).flatMap(([collection, requests]) =>
+              Object.values(requests.requests).map(request => ({ collection, request }))
+            ).find(({ collection, request }) => id === `request-${config.name}-${collection}-${request.name}`);
+            if (!found) continue;
+
+            const { collection, request } = found;
+            document = {
+              id,
+              title: `${collection}/${request.name} - ${config.name} Saved Request`,
+              text: `Saved Request: ${request.name}
+Collection: ${collection}
+API: ${config.name}
+${request.description ? `Description: ${request.description}\n` : ''}Method: ${request.method}
+Endpoint: ${request.endpoint}
+${request.queryParams ? `Query Parameters: ${JSON.stringify(request.queryParams)}\n` : ''}${request.headers ? `Headers: ${JSON.stringify(request.headers)}\n` : ''}${request.body !== undefined ? `Body${request.bodyType ? ` (${request.bodyType})` : ''}: ${JSON.stringify(request.body, null, 2)}\n` : ''}
+Parameters:
+${request.parameters.map(parameter => `- ${parameter.name}${parameter.required ? ' (required)' : ''}${parameter.default !== undefined ? ` = ${JSON.stringify(parameter.default)}` : ''}${parameter.description ? ` - ${parameter.description}` : ''}`).join('\n') || 'None'}
+
+To run this request, use the run_request tool with:
+- apiName: "${config.name}"
+- name: "${request.name}"
+- collection: "${collection}"${request.parameters.length > 0 ? `
+- params: { ${request.parameters.map(parameter => `"${parameter.name}": ...`).join(', ')} }` : ''}`,
+              url: `${config.baseUrl}${request.endpoint}`,
+              metadata: {
+                source: "api_manager",
+                type: "saved_request",
+                apiName: config.name,
+                collection,
+                name: request.name,
+                method: request.method,
+                endpoint: request.endpoint
+              }
+            };
+            break;
+          }
+        }
 
-    } catch (error: any) {
-      addToLog(`Fetch error for ID "${id}": ${error.message}`);
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            id,
-            title: "Document Not Found",
-            text: `Error: ${error.message}`,
-            url: "",
-            metadata: { source: "api_manager", error: true }
-          })
-        }],
-        isError: true
-      };
-    }
-  }
-);
+        if (!document) {
+          throw new Error(`Document with ID "${id}" not found`);
+        }
 
-// RESOURCE: apis://list
-mcp.registerResource("apis-list", "apis://list", {
-  description: "Complete list of all saved API configurations",
-  mimeType: "application/json"
-}, async () => {
-  addToLog("Resource accessed: apis://list");
+        addToLog(`Fetched document: ${id}`);
 
-  const apis = Array.from(apiConfigs.values()).map(config => sanitizeConfig(config));
-  const stats = {
-    totalApis: apis.length,
-    totalRequests: requestHistory.length,
-    lastUpdated: new Date().toISOString()
-  };
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(document)
+          }]
+        };
 
-  return {
-    contents: [{
-      uri: "apis://list",
-      mimeType: "application/json",
-      text: JSON.stringify({ stats, apis }, null, 2)
-    }]
-  };
-});
+      } catch (error: any) {
+        addToLog(`Fetch error for ID "${id}": ${error.message}`);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              id,
+              title: "Document Not Found",
+              text: `Error: ${error.message}`,
+              url: "",
+              metadata: { source: "api_manager", error: true }
+            })
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // RESOURCE: apis://list
+  mcp.registerResource("apis-list", "apis://list", {
+    description: "Complete list of all saved API configurations",
+    mimeType: "application/json"
+  }, async () => {
+    addToLog("Resource accessed: apis://list");
+
+    const apis = Array.from(apiConfigs.values()).map(config => sanitizeConfig(config));
+    const stats = {
+      totalApis: apis.length,
+      totalRequests: requestHistory.length,
+      lastUpdated: new Date().toISOString()
+    };
+
+    return {
+      contents: [{
+        uri: "apis://list",
+        mimeType: "application/json",
+        text: JSON.stringify({ stats, apis }, null, 2)
+      }]
+    };
+  });
 
-// RESOURCE: apis://stats
-mcp.registerResource("apis-stats", "apis://stats", {
-  description: "Statistics about API usage and performance",
-  mimeType: "application/json"
-}, async () => {
-  addToLog("Resource accessed: apis://stats");
-
-  const totalRequests = requestHistory.length;
-  const successfulRequests = requestHistory.filter(r => r.success).length;
-  const averageResponseTime = totalRequests > 0
-    ? Math.round(requestHistory.reduce((sum, r) => sum + r.responseTime, 0) / totalRequests)
-    : 0;
-
-  // Find most used API
-  const apiUsage = requestHistory.reduce((acc, r) => {
-    acc[r.apiName] = (acc[r.apiName] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const mostUsedApi = Object.entries(apiUsage)
-    .sort(([,a], [,b]) => b - a)[0]?.[0] || 'none';
-
-  const recentActivity = requestHistory
-    .slice(-10)
-    .map(r => ({
-      apiName: r.apiName,
-      endpoint: r.endpoint,
-      method: r.method,
-      timestamp: r.timestamp,
-      status: r.status
-    }));
-
-  const stats = {
-    totalApis: apiConfigs.size,
-    totalRequests,
-    successfulRequests,
-    successRate: totalRequests > 0 ? Math.round((successfulRequests / totalRequests) * 100) : 0,
-    averageResponseTime,
-    mostUsedApi,
-    recentActivity
-  };
+  // RESOURCE: apis://stats
+  mcp.registerResource("apis-stats", "apis://stats", {
+    description: "Statistics about API usage and performance",
+    mimeType: "application/json"
+  }, async () => {
+    addToLog("Resource accessed: apis://stats");
+
+    const totalRequests = requestHistory.length;
+    const successfulRequests = requestHistory.filter(r => r.success).length;
+    const averageResponseTime = totalRequests > 0
+      ? Math.round(requestHistory.reduce((sum, r) => sum + r.responseTime, 0) / totalRequests)
+      : 0;
+
+    // Find most used API
+    const apiUsage = requestHistory.reduce((acc, r) => {
+      acc[r.apiName] = (acc[r.apiName] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const mostUsedApi = Object.entries(apiUsage)
+      .sort(([,a], [,b]) => b - a)[0]?.[0] || 'none';
+
+    const recentActivity = requestHistory
+      .slice(-10)
+      .map(r => ({
+        id: r.id,
+        apiName: r.apiName,
+        endpoint: r.endpoint,
+        method: r.method,
+        timestamp: r.timestamp,
+        status: r.status,
+        ...(r.environment ? { environment: r.environment } : {})
+      }));
+
+    const circuitBreakers = Object.fromEntries(
+      Array.from(apiConfigs.values()).map(config => [config.name, breakers.status(config.name, config.circuitBreaker)])
+    );
+
+    const stats = {
+      totalApis: apiConfigs.size,
+      totalRequests,
+      successfulRequests,
+      successRate: totalRequests > 0 ? Math.round((successfulRequests / totalRequests) * 100) : 0,
+      averageResponseTime,
+      mostUsedApi,
+      recentActivity,
+      circuitBreakers,
+      storage: {
+        backend: storage.kind,
+        schemaVersion: STORAGE_SCHEMA_VERSION
+      }
+    };
+
+    return {
+      contents: [{
+        uri: "apis://stats",
+        mimeType: "application/json",
+        text: JSON.stringify(stats, null, 2)
+      }]
+    };
+  });
 
-  return {
-    contents: [{
-      uri: "apis://stats",
-      mimeType: "application/json",
-      text: JSON.stringify(stats, null, 2)
-    }]
-  };
-});
+  // RESOURCE: binary://responses/{id}
+  mcp.registerResource("binary-responses", new ResourceTemplate(`${BINARY_URI_PREFIX}{id}`, {
+    list: async () => ({
+      resources: binaryResponses.list().map(stored => ({
+        uri: stored.uri,
+        name: stored.label,
+        mimeType: stored.mimeType,
+        size: stored.bytes.byteLength,
+        description: `sha256 ${stored.sha256}`
+      }))
+    })
+  }), {
+    description: "Binary response bodies (PDFs, archives, large images...) returned by make_request, kept for 30 minutes"
+  }, async (uri, { id }) => {
+    addToLog(`Resource accessed: ${uri.href}`);
+
+    const stored = binaryResponses.get(String(id));
+    if (!stored) {
+      throw new Error(`Binary response ${uri.href} not found; stored binaries expire after 30 minutes`);
+    }
+    return {
+      contents: [{
+        uri: stored.uri,
+        mimeType: stored.mimeType,
+        blob: Buffer.from(stored.bytes).toString('base64')
+      }]
+    };
+  });
 
-// RESOURCE: apis://help
-mcp.registerResource("apis-help", "apis://help", {
-  description: "Quick reference guide for API Manager tools",
-  mimeType: "text/markdown"
-}, async () => {
-  addToLog("Resource accessed: apis://help");
+  // RESOURCE: apis://help
+  mcp.registerResource("apis-help", "apis://help", {
+    description: "Quick reference guide for API Manager tools",
+    mimeType: "text/markdown"
+  }, async () => {
+    addToLog("Resource accessed: apis://help");
 
-  const helpText = `# API Manager - Quick Reference Guide
+    const helpText = `# API Manager - Quick Reference Guide
 
 ## Overview
 The API Manager allows you to save API configurations and execute HTTP requests to any endpoint with full authentication support.
@@ -886,6 +3667,72 @@ Save a new API configuration for future use.
 }
 \`\`\`
 
+**Example - Secret references instead of literal credentials:**
+\`\`\`json
+{
+  "name": "stripe",
+  "baseUrl": "https://api.stripe.com/v1",
+  "auth": {
+    "type": "bearer",
+    "credentials": {
+      "token": "\${file:/run/secrets/stripe}"
+    }
+  },
+  "headers": {
+    "Stripe-Account": "\${env:STRIPE_ACCOUNT}"
+  }
+}
+\`\`\`
+References are resolved on every request and shown as-is by get_api, so the real secret never passes through the conversation. The server only reads what it is allowed to:
+- \`\${env:NAME}\` needs NAME listed in the server's \`SECRET_ENV_ALLOWLIST\` (comma separated, e.g. \`SECRET_ENV_ALLOWLIST=STRIPE_ACCOUNT\` for the example above); without it no environment variable can be referenced, and the server's own settings (\`MASTER_KEY\`, \`STORAGE_PATH\`...) never can
+- \`\${file:/path}\` needs an absolute path inside \`SECRET_FILE_ROOTS\` (comma separated, default \`/run/secrets\`)
+
+### import_openapi
+Create (or refresh) an API from an OpenAPI 3.x / Swagger 2.0 document. The base URL, auth scheme and every operation with its parameters and schemas are imported; credentials are kept on re-import.
+
+**Example - Import from a URL:**
+\`\`\`json
+{
+  "name": "petstore",
+  "url": "https://petstore3.swagger.io/api/v3/openapi.json"
+}
+\`\`\`
+Pass \`spec\` instead of \`url\` to import JSON/YAML text directly, and \`credentials\` for the imported auth scheme (e.g. \`{"clientId": "...", "clientSecret": "\${env:PETS_SECRET}"}\`). Imported operations show up in get_api, search and fetch.
+make_request then validates params and bodies for those operations before sending (\`validate: false\` skips it) and can check responses with \`validateResponse: true\`.
+With \`operationTools: true\` each operation is also registered as its own typed tool, e.g. \`petstore__getPetById\`.
+
+**Example - Retry policy:**
+\`\`\`json
+{
+  "name": "flaky-service",
+  "baseUrl": "https://api.example.com",
+  "retry": { "maxAttempts": 5, "baseDelayMs": 1000 }
+}
+\`\`\`
+GET/PUT/DELETE are retried on network errors, timeouts and 408/429/5xx (3 attempts by default, honoring Retry-After). POST/PATCH are only retried when make_request gets an \`idempotencyKey\`.
+
+**Example - Rate limit:**
+\`\`\`json
+{
+  "name": "search-api",
+  "baseUrl": "https://api.example.com",
+  "rateLimit": { "requestsPerSecond": 2, "requestsPerMinute": 60, "maxConcurrent": 4 }
+}
+\`\`\`
+Calls over the limit wait in a queue shared by all sessions (up to \`maxQueue\` calls for \`maxWaitMs\`), then fail immediately. X-RateLimit-Remaining/X-RateLimit-Reset headers and 429 responses slow the API down further.
+
+**Circuit breaker:** after 5 failed requests (network errors, timeouts, 5xx) in a minute, with at least half of the API's requests failing, calls to that API fail immediately for 30s. Then a single probe request decides whether the circuit closes again. Tune it with \`circuitBreaker\` in save_api; list_apis, get_api and apis://stats show the state.
+
+**Example - Response cache:**
+\`\`\`json
+{
+  "name": "catalog",
+  "baseUrl": "https://api.example.com",
+  "cache": { "ttlMs": 300000 }
+}
+\`\`\`
+GET responses are reused while fresh (Cache-Control max-age, Expires, or \`ttlMs\`), then revalidated with If-None-Match/If-Modified-Since. Results say \`"cache": "hit"\`, \`"revalidated"\` or \`"fresh"\`. Pass \`cache: false\` to make_request to skip it, and use purge_cache to drop entries.
+
 **Example - Weather API with API Key:**
 \`\`\`json
 {
@@ -931,6 +3778,130 @@ Execute HTTP requests to saved APIs.
 }
 \`\`\`
 
+**Example - Fetch every page:**
+\`\`\`json
+{
+  "apiName": "github",
+  "endpoint": "/user/repos",
+  "method": "GET",
+  "paginate": { "pageSize": 100, "limitParam": "per_page", "maxPages": 5 }
+}
+\`\`\`
+Pages are followed through Link headers by default; use \`style: "cursor"\` with \`cursorPath\`, \`"offset"\` or \`"page"\` for other APIs. The result merges the items of all pages and reports \`pagination\` (pages, items, why it stopped, \`nextEndpoint\`). Save \`paginate\` with the API to make it the default.
+
+**Example - Keep the result small:**
+\`\`\`json
+{
+  "apiName": "github",
+  "endpoint": "/user/repos",
+  "method": "GET",
+  "select": "$[*].full_name",
+  "includeHeaders": false
+}
+\`\`\`
+\`select\` takes one or more JSONPath (starting with \`$\`) or JMESPath expressions, and only applies to successful JSON responses. Results over \`maxResponseChars\` (default 50000) are truncated with a marker; call read_response with its responseId and offset to read the rest.
+
+Images come back as image content; PDFs, archives and other binaries as a \`binary://responses/{id}\` resource. Use \`responseType\` ("json", "text" or "binary") to override the content type. XML, CSV and NDJSON bodies are parsed into JSON (\`parseOptions\` sets the CSV header, delimiter and maxRows).
+
+**Example - Follow a stream of events:**
+\`\`\`json
+{
+  "apiName": "logs",
+  "endpoint": "/tail",
+  "method": "GET",
+  "stream": { "maxEvents": 100, "maxDurationMs": 20000 }
+}
+\`\`\`
+Each event is sent as a progress notification and the collected events are returned at the end. text/event-stream responses are streamed without asking.
+
+**Example - Send a form (e.g. an OAuth token endpoint):**
+\`\`\`json
+{
+  "apiName": "auth",
+  "endpoint": "/oauth/token",
+  "method": "POST",
+  "bodyType": "form",
+  "body": { "grant_type": "client_credentials", "scope": "read" }
+}
+\`\`\`
+Other body types: "multipart" (fields in body, files with base64 or a binary://responses/ resourceUri), "text" and "raw" (base64), with \`contentType\` to change the Content-Type.
+
+### graphql_query
+Run a query or mutation against an API saved with the \`graphql\` option.
+
+**Example:**
+\`\`\`json
+{
+  "apiName": "countries",
+  "query": "query($code: ID!) { country(code: $code) { name capital } }",
+  "variables": { "code": "ES" }
+}
+\`\`\`
+A response with an \`errors\` array is reported as an error even with HTTP 200; partial \`data\` is still returned. The schema is introspected when the API is saved (refresh it with introspect_graphql), so get_api lists the queries and mutations, and search/fetch describe each type.
+
+### save_request / run_request / list_requests
+Save a call the team makes often, then run it with only what changes.
+
+**Example - Save:**
+\`\`\`json
+{
+  "apiName": "shop",
+  "collection": "orders",
+  "name": "list_orders",
+  "method": "GET",
+  "endpoint": "/customers/{{customerId}}/orders",
+  "queryParams": { "status": "{{status}}", "limit": "{{limit}}" },
+  "parameters": [
+    { "name": "status", "required": false },
+    { "name": "limit", "default": 20 }
+  ]
+}
+\`\`\`
+**Example - Run:** \`{ "apiName": "shop", "name": "list_orders", "params": { "customerId": "c_42" } }\`
+
+Undeclared placeholders become required parameters, except environment variables. An optional parameter left out drops the query parameters, headers or body fields made of just its placeholder. Saved requests also show up in search and fetch.
+
+### import_postman / export_postman
+Bring a Postman collection in, or take an API out to Postman.
+
+**Example - Import:**
+\`\`\`json
+{
+  "name": "shop",
+  "url": "https://example.com/shop.postman_collection.json",
+  "environments": [{ "name": "Staging", "values": [{ "key": "baseUrl", "value": "https://staging.shop.example.com" }, { "key": "token", "value": "..." }] }]
+}
+\`\`\`
+Folders become collections of saved requests (\`:id\` path variables and Postman \`{{variables}}\` become parameters), the collection auth becomes the API's, and each environment file an environment; auth values given as \`{{variables}}\` are taken from the environments as credentials.
+**Example - Export:** \`{ "name": "shop" }\` returns a v2.1 collection with the saved requests and a History folder, plus one environment file per environment. Secret credentials, credential headers and secret variables are exported empty.
+
+### import_curl / export_curl
+Paste a curl command from the docs instead of translating it.
+
+**Example - Send it through a saved API:**
+\`\`\`json
+{
+  "command": "curl -X POST https://api.example.com/v1/items -H 'Content-Type: application/json' -d '{\"name\": \"widget\"}'"
+}
+\`\`\`
+The API whose baseUrl the URL starts with sends it, with its own auth in place of the command's. With \`"mode": "save_api"\` the command's base URL, auth (\`-u\`, Bearer/Basic Authorization, API key headers) and other headers are saved as a new API instead.
+The other way round, \`"curl": true\` on make_request adds the curl command the request was sent as, and export_curl writes the latest calls to an API as curl commands; credentials show as \`[REDACTED]\` unless \`showSecrets\` is set.
+
+### get_request / replay_request
+Look at what a request actually sent, and send it again.
+
+Every history entry has an id, returned as \`requestId\` by make_request and listed in apis://stats. For APIs saved with \`"recording": {}\` the history also keeps the URL, headers and body of each request and the headers and body of its response; credential headers, and query parameters and body fields like password, token or apiKey (plus \`redactFields\`), are stored as \`[REDACTED]\`, and bodies are cut after \`maxBodyChars\` (10000).
+**Example - Inspect:** \`{ "id": "3f9a1c2e" }\`
+**Example - Replay with changes:**
+\`\`\`json
+{
+  "id": "3f9a1c2e",
+  "queryParams": { "page": 2 },
+  "body": { "name": "widget", "password": "..." }
+}
+\`\`\`
+The replay goes through the API with its current auth and environment. A body that was masked, cut or not recorded has to be passed again, as do masked query parameters and headers the API's auth does not set.
+
 ### list_apis
 List all saved API configurations.
 
@@ -940,20 +3911,48 @@ Get detailed configuration of a specific API (credentials are sanitized).
 ### delete_api
 Delete an API configuration permanently.
 
+### save_environment / use_environment / delete_environment
+Keep dev, staging and prod settings in one API instead of three.
+
+**Example:**
+\`\`\`json
+{
+  "apiName": "shop",
+  "environment": "staging",
+  "baseUrl": "https://staging.shop.example.com",
+  "credentials": { "token": "\${env:SHOP_STAGING_TOKEN}" },
+  "variables": { "tenant": "acme-test" },
+  "activate": true
+}
+\`\`\`
+While an environment is active, make_request uses its baseUrl, headers and credentials over the API's, and fills \`{{tenant}}\`-style placeholders in endpoint, queryParams, headers and body (e.g. endpoint "/tenants/{{tenant}}/orders"). use_environment switches; the request history records the environment of every call.
+
+### rotate_master_key
+Re-encrypt all stored credentials with the current MASTER_KEY (old keys go in MASTER_KEY_PREVIOUS).
+
 ## Authentication Types
 
 - **none**: No authentication
 - **bearer**: Bearer token in Authorization header
 - **api-key**: Custom API key in specified header
 - **basic**: Username/password Basic authentication
+- **oauth2-client-credentials**: Access token fetched from tokenUrl with clientId/clientSecret (and scopes), cached and refreshed before expiry
+- **oauth2-refresh-token**: Access token obtained by exchanging a refreshToken at tokenUrl; rotated refresh tokens are stored automatically
+
+- **aws-sigv4**: Every request signed with AWS Signature V4 (accessKeyId, secretAccessKey, region, service, optional sessionToken)
+- **hmac**: Every request signed with an HMAC over canonicalTemplate, sent in signatureHeader
+- **session**: Logs in at loginEndpoint (body with {{username}}/{{password}}), then replays the session cookie or token; re-logs in automatically on 401/403
+
+OAuth2 access tokens are refreshed on a 401 and the request retried once. get_api shows the token's expiry and scopes, never the token itself.
 
 ## Tips
 
-1. **Security**: Credentials are never logged or exposed in sanitized responses
-2. **Timeout**: Default timeout is 30 seconds, configurable per API
-3. **Query Params**: Automatically URL-encoded
-4. **Response Parsing**: Automatically detects JSON/text responses
-5. **Error Handling**: Detailed error messages for troubleshooting
+1. **Security**: Credentials are never logged or exposed in sanitized responses, and are encrypted at rest (AES-256-GCM) when MASTER_KEY is set
+2. **Persistence**: Saved APIs and request history survive restarts when STORAGE_BACKEND is \`file\` or \`sqlite\`
+3. **Timeout**: Default timeout is 30 seconds, configurable per API
+4. **Query Params**: Automatically URL-encoded
+5. **Response Parsing**: Automatically detects JSON/text responses
+6. **Error Handling**: Detailed error messages for troubleshooting
 
 ## Resources
 
@@ -966,14 +3965,21 @@ Delete an API configuration permanently.
 For issues or feature requests, check the server logs and ensure your API configurations are valid.
 `;
 
-  return {
-    contents: [{
-      uri: "apis://help",
-      mimeType: "text/markdown",
-      text: helpText
-    }]
-  };
-});
+    return {
+      contents: [{
+        uri: "apis://help",
+        mimeType: "text/markdown",
+        text: helpText
+      }]
+    };
+  });
+
+  for (const config of apiConfigs.values()) {
+    mcp.syncOperationTools(config.name, config);
+  }
+
+  return mcp;
+}
 
 // Express app setup
 const app = express();
@@ -982,7 +3988,7 @@ const app = express();
 // IMPORTANT: Do NOT apply JSON body parsing to MCP transport routes, as it can
 // interfere with streaming/handshake. We conditionally bypass the parser.
 app.use((req, res, next) => {
-  if (req.path.startsWith('/mcp') || req.path.startsWith('/sse')) return next();
+  if (req.path.startsWith('/mcp') || req.path.startsWith('/sse') || req.path.startsWith('/messages')) return next();
   return (express.json({ limit: "10mb" }) as any)(req, res, next);
 });
 
@@ -1007,6 +4013,7 @@ app.get("/", (req, res) => {
     status: "running",
     mcp_endpoint: "/mcp",
     sse_endpoint: "/sse",
+    sse_messages_endpoint: "/messages",
     uptime: process.uptime(),
     timestamp: new Date().toISOString(),
     chatgpt_compatible: true,
@@ -1017,10 +4024,28 @@ app.get("/", (req, res) => {
       fetch: "Fetch detailed information about APIs and endpoints",
       // API Management tools
       save_api: "Save API configurations with authentication",
+      import_openapi: "Import an API and its operations from an OpenAPI/Swagger document",
       make_request: "Execute HTTP requests to saved APIs",
       list_apis: "List all saved API configurations",
       get_api: "Get specific API configuration details",
-      delete_api: "Delete API configurations"
+      delete_api: "Delete API configurations",
+      purge_cache: "Remove cached responses of an API",
+      read_response: "Read the rest of a truncated make_request result",
+      graphql_query: "Run GraphQL queries and mutations against a saved GraphQL API",
+      introspect_graphql: "Cache the schema of a GraphQL API",
+      save_environment: "Create or update an environment (dev, staging, prod...) of an API",
+      use_environment: "Switch the active environment of an API",
+      delete_environment: "Delete an environment of an API",
+      save_request: "Save a named, parameterized request template in a collection",
+      list_requests: "List saved request templates",
+      run_request: "Run a saved request with just its parameters",
+      import_postman: "Import a Postman collection and its environments as an API with saved requests",
+      export_postman: "Export an API, its saved requests and history as a Postman collection",
+      import_curl: "Send a curl command through a saved API, or save its API",
+      export_curl: "Write the latest requests to an API as curl commands",
+      get_request: "Inspect a request of the history, with its headers and bodies when recorded",
+      replay_request: "Send a request of the history again, optionally with changes",
+      rotate_master_key: "Re-encrypt stored credentials with the current master key"
     },
     stats: {
       savedApis: apiConfigs.size,
@@ -1037,12 +4062,14 @@ app.get("/health", (req, res) => {
     memory: process.memoryUsage(),
     timestamp: new Date().toISOString(),
     savedApis: apiConfigs.size,
-    totalRequests: requestHistory.length
+    totalRequests: requestHistory.length,
+    storage: storage.kind
   });
 });
 
-// Store transport instances
+// Store transport instances, one map per kind: /mcp sessions take handleRequest, SSE ones handlePostMessage
 const transports: Record<string, StreamableHTTPServerTransport> = {};
+const sseTransports: Record<string, SSEServerTransport> = {};
 
 // Explicit preflight for MCP
 app.options("/mcp", (req, res) => {
@@ -1053,28 +4080,62 @@ app.options("/mcp", (req, res) => {
 });
 
 // MCP endpoint handler (Streamable HTTP)
-app.use("/mcp", (req, res) => {
-  // Create a new transport for each request/session
+app.use("/mcp", async (req, res) => {
+  // Requests of an initialized session go to that session's transport
+  const sessionId = req.headers["mcp-session-id"];
+  const existing = typeof sessionId === "string" ? transports[sessionId] : undefined;
+  if (existing) {
+    try {
+      await existing.handleRequest(req, res);
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: "2.0",
+          error: { code: -32603, message: "Internal server error" },
+          id: null
+        });
+      }
+    }
+    return;
+  }
+  if (sessionId) {
+    res.status(404).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Session not found" },
+      id: null
+    });
+    return;
+  }
+
+  // Otherwise this is an initialize request: new transport and server for the session
+  const server = createMcpServer();
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: () => randomUUID(),
     onsessioninitialized: (sessionId) => {
       addToLog(`MCP session initialized: ${sessionId}`);
       transports[sessionId] = transport;
+      sessionServers.add(server);
     },
     onsessionclosed: (sessionId) => {
       addToLog(`MCP session closed: ${sessionId}`);
       delete transports[sessionId];
     }
   });
+  transport.onclose = () => {
+    if (transport.sessionId) delete transports[transport.sessionId];
+    sessionServers.delete(server);
+  };
 
-  // Connect the MCP server to this transport
-  mcp.connect(transport).then(() => {
-    // Handle the HTTP request through the transport
-    transport.handleRequest(req, res);
-  }).catch((error) => {
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  } catch (error) {
     console.error("Error connecting MCP to transport:", error);
-    res.status(500).json({ error: "Internal server error" });
-  });
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
 });
 
 // Explicit preflight for SSE
@@ -1127,21 +4188,26 @@ app.get("/sse", async (req, res) => {
 
   // For actual SSE connections, create a new transport
   try {
-    const transport = new SSEServerTransport("/sse", res);
+    // The client posts its messages to /messages?sessionId=..., announced in the stream's first event
+    const transport = new SSEServerTransport("/messages", res);
     const sessionId = transport.sessionId; // Use transport's sessionId
     
     addToLog(`SSE MCP session initialized: ${sessionId}`);
-    transports[sessionId] = transport as any; // Type assertion for compatibility
+    sseTransports[sessionId] = transport;
+
+    const server = createMcpServer();
+    sessionServers.add(server);
 
     // Handle session cleanup
     res.on('close', () => {
       addToLog(`SSE MCP session closed: ${sessionId}`);
-      delete transports[sessionId];
+      delete sseTransports[sessionId];
+      sessionServers.delete(server);
       transport.close?.();
     });
 
     // Connect the MCP server to this transport
-    await mcp.connect(transport);
+    await server.connect(transport);
     return; // Add explicit return after successful connection
   } catch (error) {
     console.error("Error connecting MCP to SSE transport:", error);
@@ -1152,11 +4218,41 @@ app.get("/sse", async (req, res) => {
   }
 });
 
+// Messages from the client of an SSE session
+app.post("/messages", async (req, res) => {
+  const sessionId = req.query.sessionId;
+  const transport = typeof sessionId === "string" ? sseTransports[sessionId] : undefined;
+  if (!transport) {
+    res.status(404).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Session not found" },
+      id: null
+    });
+    return;
+  }
+
+  try {
+    await transport.handlePostMessage(req, res);
+  } catch (error) {
+    console.error("Error handling SSE message:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: "2.0",
+        error: { code: -32603, message: "Internal server error" },
+        id: null
+      });
+    }
+  }
+});
+
 // Start server
 async function startServer() {
   try {
     addToLog("Starting API Manager MCP HTTP server");
 
+    // Restore saved APIs and history before accepting connections
+    await loadStoredState();
+
     // Start Express server
     app.listen(PORT, () => {
       addToLog(`HTTP server listening on ${HOST}:${PORT}`);
@@ -1171,7 +4267,7 @@ async function startServer() {
 
 ✅ ChatGPT Deep Research Compatible!
 🌊 SSE Compatible for real-time ChatGPT integration
-🔍 Tools: search, fetch (ChatGPT), save_api, make_request, list_apis, get_api, delete_api
+🔍 Tools: search, fetch (ChatGPT), save_api, import_openapi, make_request, read_response, graphql_query, introspect_graphql, save_environment, use_environment, delete_environment, save_request, list_requests, run_request, import_postman, export_postman, import_curl, export_curl, get_request, replay_request, list_apis, get_api, delete_api, purge_cache, rotate_master_key
 📚 Resources: apis://list, apis://stats, apis://help
 
 For ChatGPT connector, use: https://your-domain.com/sse/
@@ -1190,7 +4286,8 @@ process.on("SIGINT", () => {
   Object.values(transports).forEach(transport => {
     transport.close?.();
   });
-  process.exit(0);
+  // Let pending storage writes finish before exiting
+  storage.close().finally(() => process.exit(0));
 });
 
 process.on("SIGTERM", () => {
@@ -1199,7 +4296,8 @@ process.on("SIGTERM", () => {
   Object.values(transports).forEach(transport => {
     transport.close?.();
   });
-  process.exit(0);
+  // Let pending storage writes finish before exiting
+  storage.close().finally(() => process.exit(0));
 });
 
 // Start the server
@@ -0,0 +1,173 @@
+import { CookieJar, type CookieSummary } from "./cookies.js";
+
+// Login-flow session auth: a login request whose response yields a cookie or token
+
+export type SessionExtract = 'cookie' | 'body' | 'header';
+
+// Fully resolved login request, built from the (encrypted) config right before use
+export interface LoginSpec {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  extract: SessionExtract;
+  tokenPath?: string;
+  tokenResponseHeader?: string;
+  timeoutMs: number;
+}
+
+export interface SessionStatus {
+  loggedIn: boolean;
+  loggedInAt?: string;
+  hasToken: boolean;
+  cookies: CookieSummary[];
+  lastError?: string;
+}
+
+interface SessionState {
+  token?: string;
+  loggedInAt?: number;
+  lastError?: string;
+}
+
+// Read a dot/bracket path such as "data.auth.token" or "items[0].id"
+export function readJsonPath(value: any, path: string): any {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => current == null ? undefined : current[key], value);
+}
+
+export class SessionManager {
+  private readonly jars = new Map<string, CookieJar>();
+  private readonly sessions = new Map<string, SessionState>();
+  private readonly pending = new Map<string, Promise<void>>();
+
+  jar(apiName: string): CookieJar {
+    let jar = this.jars.get(apiName);
+    if (!jar) {
+      jar = new CookieJar();
+      this.jars.set(apiName, jar);
+    }
+    return jar;
+  }
+
+  token(apiName: string): string | undefined {
+    return this.sessions.get(apiName)?.token;
+  }
+
+  isLoggedIn(apiName: string): boolean {
+    return !!this.sessions.get(apiName)?.loggedInAt;
+  }
+
+  /**
+   * Log in unless a session already exists. Concurrent callers share a single
+   * login request so a burst of calls after a 401 doesn't log in N times.
+   */
+  async ensureLoggedIn(apiName: string, resolveSpec: () => LoginSpec): Promise<void> {
+    if (this.isLoggedIn(apiName)) return;
+
+    let login = this.pending.get(apiName);
+    if (!login) {
+      login = this.login(apiName, resolveSpec())
+        .finally(() => this.pending.delete(apiName));
+      this.pending.set(apiName, login);
+    }
+    return login;
+  }
+
+  // Drop the session so the next request logs in again
+  invalidate(apiName: string): void {
+    this.jars.get(apiName)?.clear();
+    const state = this.sessions.get(apiName);
+    this.sessions.set(apiName, state?.lastError ? { lastError: state.lastError } : {});
+  }
+
+  forget(apiName: string): void {
+    this.jars.delete(apiName);
+    this.sessions.delete(apiName);
+  }
+
+  status(apiName: string): SessionStatus {
+    const state = this.sessions.get(apiName) || {};
+    return {
+      loggedIn: !!state.loggedInAt,
+      ...(state.loggedInAt ? { loggedInAt: new Date(state.loggedInAt).toISOString() } : {}),
+      hasToken: !!state.token,
+      cookies: this.jars.get(apiName)?.summary() || [],
+      ...(state.lastError ? { lastError: state.lastError } : {})
+    };
+  }
+
+  private async login(apiName: string, spec: LoginSpec): Promise<void> {
+    const jar = this.jar(apiName);
+    jar.clear();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), spec.timeoutMs);
+    try {
+      let response: Response;
+      try {
+        response = await fetch(spec.url, {
+          method: spec.method,
+          headers: spec.headers,
+          ...(spec.body !== undefined ? { body: spec.body } : {}),
+          // Login endpoints often set the cookie on a redirect we must not follow
+          redirect: 'manual',
+          signal: controller.signal
+        });
+      } catch (error: any) {
+        throw new Error(error.name === 'AbortError'
+          ? `login request to ${spec.url} timed out after ${spec.timeoutMs}ms`
+          : `login request to ${spec.url} failed: ${error.message}`);
+      }
+
+      jar.storeFromResponse(spec.url, response.headers);
+      if (response.status >= 400) {
+        throw new Error(`login request to ${spec.url} was rejected with HTTP ${response.status}`);
+      }
+
+      const state: SessionState = { loggedInAt: Date.now() };
+      switch (spec.extract) {
+        case 'cookie':
+          await response.body?.cancel();
+          if (jar.size === 0) {
+            throw new Error(`login response from ${spec.url} did not set any cookie`);
+          }
+          break;
+        case 'header': {
+          await response.body?.cancel();
+          const token = spec.tokenResponseHeader && response.headers.get(spec.tokenResponseHeader);
+          if (!token) {
+            throw new Error(`login response from ${spec.url} has no ${spec.tokenResponseHeader || 'token'} header`);
+          }
+          state.token = token;
+          break;
+        }
+        case 'body': {
+          const text = await response.text();
+          let payload: any;
+          try {
+            payload = JSON.parse(text);
+          } catch {
+            throw new Error(`login response from ${spec.url} is not JSON, cannot read ${spec.tokenPath}`);
+          }
+          const token = readJsonPath(payload, spec.tokenPath || 'token');
+          if (typeof token !== 'string' || !token) {
+            throw new Error(`login response from ${spec.url} has no string at "${spec.tokenPath || 'token'}"`);
+          }
+          state.token = token;
+          break;
+        }
+      }
+
+      this.sessions.set(apiName, state);
+    } catch (error: any) {
+      this.sessions.set(apiName, { lastError: error.message });
+      throw new Error(`Session login for API "${apiName}" failed: ${error.message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { compile as compileJmesPath, search as searchJmesPath, type JSONValue } from "@jmespath-community/jmespath";
+import { JSONPath } from "jsonpath-plus";
+
+// Response shaping for make_request: JSONPath or JMESPath selection, and a size
+// cap whose overflow is kept in memory so read_response can page through the rest
+
+export const DEFAULT_MAX_RESPONSE_CHARS = 50000;
+const MAX_STORED_RESPONSES = 20;
+const STORED_RESPONSE_TTL_MS = 30 * 60 * 1000;
+
+interface StoredResponse {
+  label: string;
+  text: string;
+  storedAt: number;
+}
+
+export interface ResponseChunk {
+  label: string;
+  text: string;
+  offset: number;
+  total: number;
+  nextOffset?: number;
+}
+
+// JSONPath expressions start at the root, `$`; anything else is read as JMESPath
+function isJsonPath(expression: string): boolean {
+  return expression.trimStart().startsWith('$');
+}
+
+/**
+ * Why a select expression can't be used, checked before the request is sent so
+ * a typo doesn't cost the response.
+ */
+export function invalidSelect(select: string | string[]): string | undefined {
+  for (const expression of typeof select === 'string' ? [select] : select) {
+    try {
+      if (isJsonPath(expression)) JSONPath.toPathArray(expression);
+      else compileJmesPath(expression);
+    } catch (error: any) {
+      return `Invalid ${isJsonPath(expression) ? 'JSONPath' : 'JMESPath'} "${expression}": ${error.message}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Apply select expressions to a JSON response body. A JSONPath expression returns
+ * its list of matches, a JMESPath one its result; several return an object with
+ * the result of each one.
+ */
+export function selectJson(body: object, select: string | string[]): unknown {
+  const query = (expression: string) => {
+    try {
+      return isJsonPath(expression)
+        ? JSONPath({ path: expression, json: body, wrap: true, eval: 'safe' })
+        : searchJmesPath(body as JSONValue, expression);
+    } catch (error: any) {
+      throw new Error(`${isJsonPath(expression) ? 'JSONPath' : 'JMESPath'} "${expression}" failed: ${error.message}`);
+    }
+  };
+  return typeof select === 'string'
+    ? query(select)
+    : Object.fromEntries(select.map(expression => [expression, query(expression)]));
+}
+
+export class ResponseStore {
+  // Insertion order doubles as age order
+  private readonly responses = new Map<string, StoredResponse>();
+
+  save(label: string, text: string): string {
+    this.prune();
+    const id = randomUUID().slice(0, 8);
+    this.responses.set(id, { label, text, storedAt: Date.now() });
+    return id;
+  }
+
+  read(id: string, offset: number, maxChars: number): ResponseChunk | undefined {
+    this.prune();
+    const stored = this.responses.get(id);
+    if (!stored) return undefined;
+    const end = Math.min(stored.text.length, offset + maxChars);
+    return {
+      label: stored.label,
+      text: stored.text.slice(offset, end),
+      offset,
+      total: stored.text.length,
+      ...(end < stored.text.length ? { nextOffset: end } : {})
+    };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, stored] of this.responses) {
+      if (now - stored.storedAt > STORED_RESPONSE_TTL_MS || this.responses.size >= MAX_STORED_RESPONSES) {
+        this.responses.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Return `text` unchanged if it fits in `maxChars`; otherwise its beginning,
+ * with a marker saying how to fetch the rest from the store.
+ */
+export function limitOutput(text: string, maxChars: number, store: ResponseStore, label: string): string {
+  if (text.length <= maxChars) return text;
+  const id = store.save(label, text);
+  return `${text.slice(0, maxChars)}\n\n✂️ [Truncated: showing characters 0-${maxChars} of ${text.length}. ` +
+    `Call read_response with responseId "${id}" and offset ${maxChars} for the rest, or narrow the response with select.]`;
+}
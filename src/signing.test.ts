@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { signAwsSigV4, signHmac } from "./signing.js";
+
+// Credentials and date of AWS's published SigV4 test suite
+const suite = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  region: 'us-east-1',
+  service: 'service'
+};
+const suiteDate = new Date('2015-08-30T12:36:00Z');
+const suiteCredential = 'Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date';
+
+describe("signAwsSigV4", () => {
+  it("matches the get-vanilla test vector", () => {
+    const signed = signAwsSigV4({ method: 'GET', url: 'https://example.amazonaws.com/', headers: {} }, suite, suiteDate);
+    assert.equal(signed.headers['X-Amz-Date'], '20150830T123600Z');
+    assert.equal(
+      signed.headers.Authorization,
+      `AWS4-HMAC-SHA256 ${suiteCredential}, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31`
+    );
+  });
+
+  it("matches the get-vanilla-query-order-key-case test vector and sends the sorted query", () => {
+    const signed = signAwsSigV4({ method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1', headers: {} }, suite, suiteDate);
+    assert.equal(
+      signed.headers.Authorization,
+      `AWS4-HMAC-SHA256 ${suiteCredential}, Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500`
+    );
+    assert.equal(signed.url, 'https://example.amazonaws.com/?Param1=value1&Param2=value2');
+  });
+
+  it("replaces the signing headers of an earlier attempt", () => {
+    const first = signAwsSigV4({ method: 'GET', url: 'https://example.amazonaws.com/', headers: {} }, { ...suite, sessionToken: 'tok' }, suiteDate);
+    const again = signAwsSigV4({ method: 'GET', url: 'https://example.amazonaws.com/', headers: first.headers }, { ...suite, sessionToken: 'tok' }, suiteDate);
+    assert.deepEqual(again.headers, first.headers);
+  });
+});
+
+describe("signHmac", () => {
+  const now = new Date(1700000000 * 1000);
+
+  it("signs the default canonical string", () => {
+    const signed = signHmac(
+      { method: 'post', url: 'https://api.example.com/v1/orders?b=2', headers: {}, body: '{"a":1}' },
+      { secret: 'shh', timestampHeader: 'X-Timestamp' },
+      now
+    );
+    assert.equal(signed.headers['X-Timestamp'], '1700000000');
+    assert.equal(signed.headers['X-Signature'], 'bc41b095c354db32d53408732983542b373c9b8418a5d69b51b6bda48342fdb2');
+  });
+
+  it("follows the template, algorithm, encoding and header format", () => {
+    const signed = signHmac(
+      { method: 'GET', url: 'https://api.example.com/', headers: {} },
+      { secret: 'shh', algorithm: 'sha512', canonicalTemplate: '{method} {header:Host}', signatureEncoding: 'base64', signatureHeader: 'Authorization', signatureFormat: 'HMAC sig={signature}' },
+      now
+    );
+    assert.equal(signed.headers.Authorization, 'HMAC sig=z3UlhdTbf5CPL5gMLTQ9QHHzwFAhVyJHkAqTTLQZJz0jyEluxCRhApSNdEGGROh0tKdzeI/niq9xFiyw18NTbg==');
+  });
+
+  it("rejects unknown placeholders, inherited names included", () => {
+    const request = { method: 'GET', url: 'https://api.example.com/', headers: {} };
+    assert.throws(() => signHmac(request, { secret: 'shh', canonicalTemplate: '{constructor}' }, now), /Unknown placeholder \{constructor\}/);
+    assert.throws(() => signHmac(request, { secret: 'shh', canonicalTemplate: '{toString}' }, now), /Unknown placeholder/);
+  });
+});
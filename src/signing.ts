@@ -0,0 +1,217 @@
+import { createHash, createHmac, randomUUID } from "node:crypto";
+
+// Request-signing auth (AWS SigV4 and generic HMAC). Signers run on the final
+// request, so they must be called after the URL, headers and body are settled.
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+}
+
+export interface SignedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export interface AwsSigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+  sessionToken?: string;
+}
+
+export type HmacAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+export interface HmacSigningOptions {
+  secret: string;
+  algorithm?: HmacAlgorithm;
+  // Placeholders: {method} {url} {path} {query} {host} {timestamp} {isoTimestamp}
+  // {nonce} {body} {bodySha256} {header:Name}
+  canonicalTemplate?: string;
+  signatureHeader?: string;
+  signatureEncoding?: 'hex' | 'base64';
+  // Header value around the signature, e.g. "HMAC key=abc, sig={signature}"
+  signatureFormat?: string;
+  timestampHeader?: string;
+  nonceHeader?: string;
+}
+
+export const DEFAULT_HMAC_TEMPLATE = '{method}\n{path}{query}\n{timestamp}\n{bodySha256}';
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Query pairs sorted by encoded key then value; '+' from URLSearchParams means a space
+function canonicalQueryString(search: string): string {
+  if (!search || search === '?') return '';
+  return search.replace(/^\?/, '')
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const index = pair.indexOf('=');
+      const key = index === -1 ? pair : pair.slice(0, index);
+      const value = index === -1 ? '' : pair.slice(index + 1);
+      return [
+        encodeRfc3986(safeDecode(key.replace(/\+/g, ' '))),
+        encodeRfc3986(safeDecode(value.replace(/\+/g, ' ')))
+      ] as [string, string];
+    })
+    .sort(([ak, av], [bk, bv]) => ak < bk ? -1 : ak > bk ? 1 : av < bv ? -1 : av > bv ? 1 : 0)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+// S3 signs the path as sent; every other service expects it encoded once more
+function canonicalPath(pathname: string, service: string): string {
+  if (!pathname) return '/';
+  return pathname
+    .split('/')
+    .map(segment => service === 's3'
+      ? encodeRfc3986(safeDecode(segment))
+      : encodeRfc3986(segment))
+    .join('/');
+}
+
+function amzDate(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function signAwsSigV4(
+  request: SignableRequest,
+  credentials: AwsSigV4Credentials,
+  now: Date = new Date()
+): SignedRequest {
+  const url = new URL(request.url);
+  const timestamp = amzDate(now);
+  const date = timestamp.slice(0, 8);
+  const payloadHash = sha256Hex(request.body ?? '');
+
+  // Drop any stale signing headers from a previous attempt
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (!/^(authorization|x-amz-date|x-amz-security-token|x-amz-content-sha256)$/i.test(name)) {
+      headers[name] = value;
+    }
+  }
+  headers['X-Amz-Date'] = timestamp;
+  if (credentials.sessionToken) headers['X-Amz-Security-Token'] = credentials.sessionToken;
+  if (credentials.service === 's3') headers['X-Amz-Content-Sha256'] = payloadHash;
+
+  // Host is added by fetch itself, but it must be part of the signature
+  const canonicalHeaders = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    const normalized = value.trim().replace(/\s+/g, ' ');
+    canonicalHeaders.set(key, canonicalHeaders.has(key) && key !== 'host'
+      ? `${canonicalHeaders.get(key)},${normalized}`
+      : normalized);
+  }
+  const signedHeaderNames = Array.from(canonicalHeaders.keys()).sort();
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const query = canonicalQueryString(url.search);
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url.pathname, credentials.service),
+    query,
+    signedHeaderNames.map(name => `${name}:${canonicalHeaders.get(name)}\n`).join(''),
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    timestamp,
+    scope,
+    sha256Hex(canonicalRequest)
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), credentials.service),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  headers['Authorization'] = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  // Send exactly the query string that was signed
+  url.search = query;
+  return { url: url.toString(), headers };
+}
+
+export function signHmac(
+  request: SignableRequest,
+  options: HmacSigningOptions,
+  now: Date = new Date()
+): SignedRequest {
+  const url = new URL(request.url);
+  const headers = { ...request.headers };
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  const nonce = randomUUID();
+  const body = request.body === undefined
+    ? ''
+    : typeof request.body === 'string' ? request.body : Buffer.from(request.body).toString('utf8');
+
+  if (options.timestampHeader) headers[options.timestampHeader] = timestamp;
+  if (options.nonceHeader) headers[options.nonceHeader] = nonce;
+
+  const findHeader = (name: string): string => {
+    if (name.toLowerCase() === 'host') return url.host;
+    const match = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase());
+    return match ? match[1] : '';
+  };
+
+  const values: Record<string, string> = {
+    method: request.method.toUpperCase(),
+    url: url.toString(),
+    path: url.pathname,
+    query: url.search,
+    host: url.host,
+    timestamp,
+    isoTimestamp: now.toISOString(),
+    nonce,
+    body,
+    bodySha256: sha256Hex(request.body ?? '')
+  };
+
+  const canonical = (options.canonicalTemplate ?? DEFAULT_HMAC_TEMPLATE).replace(
+    /\{(header:[^}]+|[a-zA-Z0-9]+)\}/g,
+    (placeholder, key: string) => {
+      if (key.startsWith('header:')) return findHeader(key.slice('header:'.length));
+      if (Object.hasOwn(values, key)) return values[key]!;
+      throw new Error(`Unknown placeholder ${placeholder} in HMAC canonical template`);
+    }
+  );
+
+  const signature = createHmac(options.algorithm || 'sha256', options.secret)
+    .update(canonical, 'utf8')
+    .digest(options.signatureEncoding || 'hex');
+
+  headers[options.signatureHeader || 'X-Signature'] = (options.signatureFormat || '{signature}')
+    .replace('{signature}', signature)
+    .replace('{timestamp}', timestamp);
+
+  return { url: request.url, headers };
+}
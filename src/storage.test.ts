@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { JsonFileStorage, pruneHistory, SqliteStorage, STORAGE_SCHEMA_VERSION } from "./storage.js";
+import type { RequestHistory } from "./types.js";
+
+function entry(id: string, timestamp: string): RequestHistory {
+  return { id, timestamp, apiName: 'shop', method: 'GET', endpoint: '/orders', status: 200, responseTime: 5, success: true };
+}
+
+// A history entry as schema v1 stored it, before entries had an id
+const v1Entry = { timestamp: '2026-01-01T00:00:00.000Z', apiName: 'shop', method: 'GET', endpoint: '/orders', status: 200, responseTime: 5, success: true };
+
+describe("pruneHistory", () => {
+  it("keeps the newest maxEntries", () => {
+    const history = ['a', 'b', 'c', 'd'].map((id, index) => entry(id, `2026-01-0${index + 1}T00:00:00.000Z`));
+    pruneHistory(history, { maxEntries: 2 });
+    assert.deepEqual(history.map(kept => kept.id), ['c', 'd']);
+  });
+
+  it("drops entries older than maxAgeMs", () => {
+    const now = Date.parse('2026-01-10T00:00:00.000Z');
+    const history = [entry('old', '2026-01-01T00:00:00.000Z'), entry('recent', '2026-01-09T12:00:00.000Z')];
+    pruneHistory(history, { maxEntries: 100, maxAgeMs: 24 * 60 * 60 * 1000 }, now);
+    assert.deepEqual(history.map(kept => kept.id), ['recent']);
+
+    pruneHistory(history, { maxEntries: 100, maxAgeMs: 1000 }, now);
+    assert.deepEqual(history, []);
+  });
+});
+
+async function readLines(location: string): Promise<unknown[]> {
+  return (await fs.readFile(location, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe("JsonFileStorage", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-manager-history-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends history without rewriting the APIs", async () => {
+    const location = path.join(dir, 'append.json');
+    const storage = new JsonFileStorage(location);
+    await storage.load();
+    await storage.saveApi({ name: 'shop', baseUrl: 'https://api.shop.example.com', createdAt: v1Entry.timestamp });
+    const saved = await fs.stat(location);
+
+    await storage.appendHistory(entry('a', '2026-01-01T00:00:00.000Z'), { maxEntries: 10 });
+    await storage.appendHistory(entry('b', '2026-01-02T00:00:00.000Z'), { maxEntries: 10 });
+    await storage.close();
+
+    assert.equal(storage.historyLocation, path.join(dir, 'append.history.jsonl'));
+    assert.equal((await fs.stat(location)).mtimeMs, saved.mtimeMs);
+    assert.deepEqual((await readLines(storage.historyLocation)).map((line: any) => line.id), ['a', 'b']);
+  });
+
+  it("compacts the history file once pruned entries make up half of it", async () => {
+    const storage = new JsonFileStorage(path.join(dir, 'compact.json'));
+    await storage.load();
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await storage.appendHistory(entry(id, '2026-01-01T00:00:00.000Z'), { maxEntries: 2 });
+    }
+    await storage.close();
+
+    assert.deepEqual((await readLines(storage.historyLocation)).map((line: any) => line.id), ['d', 'e']);
+  });
+
+  it("skips a history line cut short by a crash", async () => {
+    const location = path.join(dir, 'torn.json');
+    await fs.writeFile(path.join(dir, 'torn.history.jsonl'), `${JSON.stringify(entry('a', v1Entry.timestamp))}\n{"id":"b","times`);
+    const { history } = await new JsonFileStorage(location).load();
+    assert.deepEqual(history.map(kept => kept.id), ['a']);
+  });
+});
+
+describe("storage migrations", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-manager-storage-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("gives v1 JSON history entries an id and keeps a backup", async () => {
+    const location = path.join(dir, 'v1.json');
+    const v1 = { schemaVersion: 1, apis: [{ name: 'shop', baseUrl: 'https://api.shop.example.com', createdAt: v1Entry.timestamp }], history: [v1Entry] };
+    await fs.writeFile(location, JSON.stringify(v1));
+
+    const storage = new JsonFileStorage(location);
+    const { apis, history } = await storage.load();
+    await storage.close();
+
+    assert.deepEqual(apis.map(api => api.name), ['shop']);
+    assert.match(history[0]!.id, /^[0-9a-f]{8}$/);
+    assert.deepEqual({ ...history[0], id: undefined }, { ...v1Entry, id: undefined });
+
+    const written = JSON.parse(await fs.readFile(location, 'utf8'));
+    assert.equal(written.schemaVersion, STORAGE_SCHEMA_VERSION);
+    assert.equal(written.history, undefined);
+    assert.deepEqual(await readLines(storage.historyLocation), history);
+    assert.deepEqual(JSON.parse(await fs.readFile(`${location}.v1.bak`, 'utf8')), v1);
+
+    const reloaded = await new JsonFileStorage(location).load();
+    assert.deepEqual(reloaded.history, history);
+  });
+
+  it("refuses JSON written by a newer server", async () => {
+    const location = path.join(dir, 'newer.json');
+    await fs.writeFile(location, JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION + 1, apis: [], history: [] }));
+    await assert.rejects(new JsonFileStorage(location).load(), /Upgrade the server/);
+  });
+
+  it("gives v1 SQLite history entries an id", async (t) => {
+    let Database: typeof import("better-sqlite3");
+    try {
+      Database = (await import("better-sqlite3")).default;
+    } catch {
+      t.skip("better-sqlite3 is not installed");
+      return;
+    }
+    const location = path.join(dir, 'v1.db');
+    const db = new Database(location);
+    db.exec(`CREATE TABLE apis (name TEXT PRIMARY KEY, data TEXT NOT NULL);
+      CREATE TABLE request_history (id INTEGER PRIMARY KEY AUTOINCREMENT, data TEXT NOT NULL);`);
+    db.prepare('INSERT INTO request_history (data) VALUES (?)').run(JSON.stringify(v1Entry));
+    db.pragma('user_version = 1');
+    db.close();
+
+    const storage = new SqliteStorage(location);
+    const { history } = await storage.load();
+    await storage.close();
+
+    assert.equal(history.length, 1);
+    assert.match(history[0]!.id, /^[0-9a-f]{8}$/);
+    assert.equal(history[0]!.endpoint, '/orders');
+  });
+});
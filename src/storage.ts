@@ -0,0 +1,366 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import type { ApiConfig, RequestHistory } from "./types.js";
+
+// Bump this whenever the persisted shape changes and add a migration below
+export const STORAGE_SCHEMA_VERSION = 3;
+
+export type StorageKind = 'memory' | 'file' | 'sqlite';
+
+export interface StoredState {
+  apis: ApiConfig[];
+  history: RequestHistory[];
+}
+
+// How much request history is kept, in memory and in storage
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeMs?: number;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = { maxEntries: 100 };
+
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  readonly location?: string;
+  load(): Promise<StoredState>;
+  saveApi(config: ApiConfig): Promise<void>;
+  deleteApi(name: string): Promise<void>;
+  appendHistory(entry: RequestHistory, retention: HistoryRetention): Promise<void>;
+  close(): Promise<void>;
+}
+
+// The history lives in its own append-only file next to the document
+interface JsonStorageFile {
+  schemaVersion: number;
+  apis: ApiConfig[];
+}
+
+// Each entry upgrades a JSON document from version N (its index) to N + 1
+const JSON_MIGRATIONS: Array<(data: any) => any> = [
+  // v0 -> v1: files written by hand before versioning existed
+  (data) => ({
+    apis: Array.isArray(data.apis) ? data.apis : Object.values(data.apis || {}),
+    history: Array.isArray(data.history) ? data.history : []
+  }),
+  // v1 -> v2: history entries get an id
+  (data) => ({
+    ...data,
+    history: data.history.map((entry: any) => entry.id ? entry : { id: historyId(), ...entry })
+  }),
+  // v2 -> v3: the history moves to its own file, which load() writes
+  (data) => data
+];
+
+// Each entry upgrades a SQLite database from user_version N (its index) to N + 1
+const SQLITE_MIGRATIONS: string[] = [
+  `CREATE TABLE IF NOT EXISTS apis (
+     name TEXT PRIMARY KEY,
+     data TEXT NOT NULL
+   );
+   CREATE TABLE IF NOT EXISTS request_history (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     data TEXT NOT NULL
+   );`,
+  `UPDATE request_history SET data = json_set(data, '$.id', lower(hex(randomblob(4))))
+   WHERE json_extract(data, '$.id') IS NULL;`,
+  // v2 -> v3: only the JSON backend changed
+  ``
+];
+
+// Short id for a history entry, what get_request and replay_request take
+export function historyId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+// Drop entries past the retention from a history kept in chronological order
+export function pruneHistory(history: RequestHistory[], retention: HistoryRetention, now = Date.now()): void {
+  if (history.length > retention.maxEntries) {
+    history.splice(0, history.length - retention.maxEntries);
+  }
+  if (retention.maxAgeMs !== undefined) {
+    const cutoff = new Date(now - retention.maxAgeMs).toISOString();
+    const kept = history.findIndex(entry => entry.timestamp >= cutoff);
+    history.splice(0, kept === -1 ? history.length : kept);
+  }
+}
+
+// In-memory backend (previous behaviour, nothing survives a restart)
+export class MemoryStorage implements StorageBackend {
+  readonly kind = 'memory' as const;
+
+  async load(): Promise<StoredState> {
+    return { apis: [], history: [] };
+  }
+
+  async saveApi(): Promise<void> {}
+
+  async deleteApi(): Promise<void> {}
+
+  async appendHistory(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * A JSON document with the saved APIs, rewritten atomically (temp file + rename)
+ * when one changes, and the request history appended to a JSON Lines file next
+ * to it. The history file is rewritten once pruned entries make up half of it.
+ */
+export class JsonFileStorage implements StorageBackend {
+  readonly kind = 'file' as const;
+  readonly historyLocation: string;
+  private apis = new Map<string, ApiConfig>();
+  private history: RequestHistory[] = [];
+  private historyLines = 0;
+  private pendingFlush: Promise<void> | undefined;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(readonly location: string) {
+    this.historyLocation = `${location.replace(/\.json$/i, '')}.history.jsonl`;
+  }
+
+  async load(): Promise<StoredState> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.location, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { apis: [], history: await this.readHistory() };
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw);
+    const version = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0;
+    if (version > STORAGE_SCHEMA_VERSION) {
+      throw new Error(`Storage file ${this.location} uses schema v${version}, but this server only supports up to v${STORAGE_SCHEMA_VERSION}. Upgrade the server instead of overwriting newer data.`);
+    }
+
+    let data = parsed;
+    if (version < STORAGE_SCHEMA_VERSION) {
+      // Keep the original around in case the migration needs to be undone
+      await fs.copyFile(this.location, `${this.location}.v${version}.bak`);
+      for (let v = version; v < STORAGE_SCHEMA_VERSION; v++) {
+        data = JSON_MIGRATIONS[v]!(data);
+      }
+    }
+
+    this.apis = new Map((data.apis as ApiConfig[]).map(config => [config.name, config]));
+    if (version < STORAGE_SCHEMA_VERSION) {
+      // Up to v2 the history was part of the document; write its file before dropping it there
+      this.history = data.history;
+      await this.rewriteHistory();
+      await this.flush();
+    } else {
+      this.history = await this.readHistory();
+    }
+
+    return { apis: Array.from(this.apis.values()), history: [...this.history] };
+  }
+
+  saveApi(config: ApiConfig): Promise<void> {
+    this.apis.set(config.name, config);
+    return this.flush();
+  }
+
+  deleteApi(name: string): Promise<void> {
+    this.apis.delete(name);
+    return this.flush();
+  }
+
+  appendHistory(entry: RequestHistory, retention: HistoryRetention): Promise<void> {
+    this.history.push(entry);
+    pruneHistory(this.history, retention);
+    if (this.historyLines + 1 > 2 * this.history.length) {
+      return this.rewriteHistory();
+    }
+    this.historyLines++;
+    const line = `${JSON.stringify(entry)}\n`;
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.historyLocation), { recursive: true });
+      await fs.appendFile(this.historyLocation, line, 'utf8');
+    });
+  }
+
+  close(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private async readHistory(): Promise<RequestHistory[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.historyLocation, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const history: RequestHistory[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        history.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash mid-append
+      }
+    }
+    this.historyLines = history.length;
+    return history;
+  }
+
+  private rewriteHistory(): Promise<void> {
+    this.historyLines = this.history.length;
+    const contents = this.history.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    return this.enqueue(() => writeFileAtomic(this.historyLocation, contents));
+  }
+
+  // Changes made while a write waits in the queue go out with it, in one rewrite
+  private flush(): Promise<void> {
+    this.pendingFlush ??= this.enqueue(() => {
+      this.pendingFlush = undefined;
+      const document: JsonStorageFile = {
+        schemaVersion: STORAGE_SCHEMA_VERSION,
+        apis: Array.from(this.apis.values())
+      };
+      return writeFileAtomic(this.location, JSON.stringify(document, null, 2));
+    });
+    return this.pendingFlush;
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(write);
+    return this.writeQueue;
+  }
+}
+
+// Embedded SQLite database, schema tracked through PRAGMA user_version
+export class SqliteStorage implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  private db: BetterSqlite3.Database | undefined;
+
+  constructor(readonly location: string) {}
+
+  async load(): Promise<StoredState> {
+    const db = await this.open();
+    const apis = db.prepare('SELECT data FROM apis').all() as Array<{ data: string }>;
+    const history = db.prepare('SELECT data FROM request_history ORDER BY id').all() as Array<{ data: string }>;
+    return {
+      apis: apis.map(row => JSON.parse(row.data)),
+      history: history.map(row => JSON.parse(row.data))
+    };
+  }
+
+  async saveApi(config: ApiConfig): Promise<void> {
+    this.requireDb()
+      .prepare('INSERT INTO apis (name, data) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET data = excluded.data')
+      .run(config.name, JSON.stringify(config));
+  }
+
+  async deleteApi(name: string): Promise<void> {
+    this.requireDb().prepare('DELETE FROM apis WHERE name = ?').run(name);
+  }
+
+  async appendHistory(entry: RequestHistory, retention: HistoryRetention): Promise<void> {
+    const db = this.requireDb();
+    db.transaction(() => {
+      db.prepare('INSERT INTO request_history (data) VALUES (?)').run(JSON.stringify(entry));
+      db.prepare('DELETE FROM request_history WHERE id NOT IN (SELECT id FROM request_history ORDER BY id DESC LIMIT ?)').run(retention.maxEntries);
+      if (retention.maxAgeMs !== undefined) {
+        const cutoff = new Date(Date.now() - retention.maxAgeMs).toISOString();
+        db.prepare("DELETE FROM request_history WHERE json_extract(data, '$.timestamp') < ?").run(cutoff);
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  private async open(): Promise<BetterSqlite3.Database> {
+    if (this.db) return this.db;
+
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import("better-sqlite3")).default;
+    } catch {
+      throw new Error("STORAGE_BACKEND=sqlite requires the optional better-sqlite3 package. Run npm install better-sqlite3.");
+    }
+
+    await fs.mkdir(path.dirname(this.location), { recursive: true });
+    const db = new Database(this.location);
+    db.pragma('journal_mode = WAL');
+
+    const version = db.pragma('user_version', { simple: true }) as number;
+    if (version > STORAGE_SCHEMA_VERSION) {
+      db.close();
+      throw new Error(`Database ${this.location} uses schema v${version}, but this server only supports up to v${STORAGE_SCHEMA_VERSION}. Upgrade the server instead of overwriting newer data.`);
+    }
+
+    db.transaction(() => {
+      for (let v = version; v < STORAGE_SCHEMA_VERSION; v++) {
+        db.exec(SQLITE_MIGRATIONS[v]!);
+      }
+      db.pragma(`user_version = ${STORAGE_SCHEMA_VERSION}`);
+    })();
+
+    this.db = db;
+    return db;
+  }
+
+  private requireDb(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new Error("SQLite storage used before load()");
+    }
+    return this.db;
+  }
+}
+
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(contents, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tempPath, filePath);
+}
+
+// Pick a backend from STORAGE_BACKEND / STORAGE_PATH
+export function createStorage(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const kind = (env.STORAGE_BACKEND || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'file':
+    case 'json':
+      return new JsonFileStorage(path.resolve(env.STORAGE_PATH || './data/api-manager.json'));
+    case 'sqlite':
+      return new SqliteStorage(path.resolve(env.STORAGE_PATH || './data/api-manager.db'));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${kind}". Use memory, file or sqlite.`);
+  }
+}
+
+// History retention from HISTORY_MAX_ENTRIES / HISTORY_MAX_AGE_DAYS
+export function resolveHistoryRetention(env: NodeJS.ProcessEnv = process.env): HistoryRetention {
+  const maxEntries = env.HISTORY_MAX_ENTRIES ? Number(env.HISTORY_MAX_ENTRIES) : DEFAULT_HISTORY_RETENTION.maxEntries;
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`HISTORY_MAX_ENTRIES must be a positive integer, got "${env.HISTORY_MAX_ENTRIES}"`);
+  }
+  if (!env.HISTORY_MAX_AGE_DAYS) {
+    return { maxEntries };
+  }
+  const maxAgeDays = Number(env.HISTORY_MAX_AGE_DAYS);
+  if (!Number.isFinite(maxAgeDays) || maxAgeDays <= 0) {
+    throw new Error(`HISTORY_MAX_AGE_DAYS must be a positive number, got "${env.HISTORY_MAX_AGE_DAYS}"`);
+  }
+  return { maxEntries, maxAgeMs: maxAgeDays * 24 * 60 * 60 * 1000 };
+}
@@ -0,0 +1,200 @@
+import { mediaType, textFormat } from "./binary.js";
+import { compact } from "./retry.js";
+import type { StreamOptions } from "./types.js";
+
+// Streaming responses for make_request: read Server-Sent Events, NDJSON or plain
+// lines as they arrive, hand each one to a callback (MCP progress notifications)
+// and stop at the end of the stream or at the first limit reached
+
+export const DEFAULT_STREAM_OPTIONS: StreamOptions = {
+  maxEvents: 500,
+  maxDurationMs: 60000
+};
+
+export type StreamFormat = 'sse' | 'ndjson' | 'lines';
+
+export type StreamOverrides = { [K in keyof StreamOptions]?: StreamOptions[K] | undefined };
+
+// One Server-Sent Event; data is parsed when it is JSON
+export interface SseEvent {
+  event?: string;
+  id?: string;
+  data: unknown;
+}
+
+export interface StreamSummary {
+  format: StreamFormat;
+  events: number;
+  durationMs: number;
+  stopped: string;
+}
+
+export interface StreamResult {
+  events: unknown[];
+  summary: StreamSummary;
+}
+
+// Sentinel some LLM APIs send as the last event's data
+const SSE_DONE = '[DONE]';
+
+/**
+ * Options for one call: `true` or an object streams any response, `false` never
+ * streams. Without an option, only text/event-stream responses are streamed.
+ */
+export function resolveStreamOptions(
+  option: boolean | StreamOverrides | undefined,
+  contentType: string | null
+): StreamOptions | undefined {
+  if (option === false) return undefined;
+  if (option === undefined && mediaType(contentType || '') !== 'text/event-stream') return undefined;
+  return { ...DEFAULT_STREAM_OPTIONS, ...(typeof option === 'object' ? compact(option) : {}) };
+}
+
+export function streamFormat(contentType: string | null): StreamFormat {
+  const type = mediaType(contentType || '');
+  if (type === 'text/event-stream') return 'sse';
+  return textFormat(type) === 'ndjson' ? 'ndjson' : 'lines';
+}
+
+function parseData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Turns the lines of an event stream into events (https://html.spec.whatwg.org/multipage/server-sent-events.html)
+class SseParser {
+  private data: string[] = [];
+  private event: string | undefined;
+  private id: string | undefined;
+
+  // Returns the event a blank line completes, if any
+  line(line: string): SseEvent | undefined {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') this.data.push(value);
+    else if (field === 'event') this.event = value;
+    else if (field === 'id') this.id = value;
+    return undefined;
+  }
+
+  // A stream may end without the final blank line
+  flush(): SseEvent | undefined {
+    return this.dispatch();
+  }
+
+  private dispatch(): SseEvent | undefined {
+    const data = this.data;
+    const event = this.event;
+    this.data = [];
+    this.event = undefined;
+    if (data.length === 0) return undefined;
+    return {
+      ...(event ? { event } : {}),
+      // The last event ID persists across events, as for EventSource
+      ...(this.id !== undefined ? { id: this.id } : {}),
+      data: parseData(data.join('\n'))
+    };
+  }
+}
+
+/**
+ * Read a streaming body, calling `onEvent` for each event as it arrives. The
+ * stream is cancelled once `maxEvents` events were read, `maxDurationMs`
+ * passed or `signal` aborted; the events read until then are returned.
+ */
+export async function readStream(
+  response: Response,
+  options: StreamOptions,
+  onEvent: (event: unknown, count: number) => Promise<void> | void,
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  const format = streamFormat(response.headers.get('content-type'));
+  const startTime = Date.now();
+  const events: unknown[] = [];
+  const sse = new SseParser();
+  let stopped: string | undefined;
+
+  const reader = response.body?.getReader();
+  const stop = (reason: string) => {
+    if (stopped) return;
+    stopped = reason;
+    reader?.cancel().catch(() => {});
+  };
+  const timer = setTimeout(() => stop(`maxDurationMs (${options.maxDurationMs}) reached`), options.maxDurationMs);
+  const onAbort = () => stop('cancelled by the client');
+  signal?.addEventListener('abort', onAbort);
+
+  const emit = async (event: unknown) => {
+    if (stopped) return;
+    if (format === 'sse' && (event as SseEvent).data === SSE_DONE) {
+      stop(`received ${SSE_DONE}`);
+      return;
+    }
+    events.push(event);
+    await onEvent(event, events.length);
+    if (events.length >= options.maxEvents) stop(`maxEvents (${options.maxEvents}) reached`);
+  };
+  const line = async (text: string) => {
+    if (format === 'sse') {
+      const event = sse.line(text);
+      if (event) await emit(event);
+    } else if (text.trim() !== '') {
+      await emit(format === 'ndjson' ? parseData(text) : text);
+    }
+  };
+
+  try {
+    if (!reader) return { events, summary: { format, events: 0, durationMs: 0, stopped: 'empty body' } };
+    if (signal?.aborted) onAbort();
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (!stopped) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error: any) {
+        // Cancelling the reader makes the pending read fail
+        if (stopped) break;
+        throw error;
+      }
+      if (chunk.done) {
+        buffered += decoder.decode();
+        break;
+      }
+      buffered += decoder.decode(chunk.value, { stream: true });
+
+      // Lines end in \n, \r\n or a lone \r; a trailing \r may still be followed by \n
+      let match: RegExpExecArray | null;
+      while (!stopped && (match = /\r\n|\n|\r(?=[^\n])/.exec(buffered))) {
+        const text = buffered.slice(0, match.index);
+        buffered = buffered.slice(match.index + match[0].length);
+        await line(text);
+      }
+    }
+
+    if (!stopped) {
+      if (buffered.replace(/\r$/, '') !== '') await line(buffered.replace(/\r$/, ''));
+      if (format === 'sse') {
+        const last = sse.flush();
+        if (last) await emit(last);
+      }
+    }
+    return {
+      events,
+      summary: { format, events: events.length, durationMs: Date.now() - startTime, stopped: stopped || 'end of stream' }
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    // Closes the connection if reading failed halfway; a no-op once the stream ended
+    reader?.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,124 @@
+import { fillPlaceholders, placeholderNames, wholePlaceholder, type RequestTemplate } from "./environments.js";
+import type { ApiConfig, ApiEnvironment, RequestTemplateParameter, SavedRequest } from "./types.js";
+
+// Saved requests: named request templates grouped into collections under an API.
+// Their {{placeholders}} are declared parameters, filled by run_request; any
+// other placeholder is left for the variables of the active environment
+
+export const DEFAULT_COLLECTION = 'default';
+
+export interface SavedRequestMatch {
+  collection: string;
+  request: SavedRequest;
+}
+
+/**
+ * Parameters for a new template: the declared ones, plus a required parameter for
+ * every placeholder that is neither declared nor a variable of an environment.
+ */
+export function templateParameters(
+  request: RequestTemplate,
+  declared: RequestTemplateParameter[],
+  environments: Record<string, ApiEnvironment> | undefined
+): { parameters: RequestTemplateParameter[], added: string[] } {
+  const names = new Set<string>();
+  for (const parameter of declared) {
+    if (names.has(parameter.name)) throw new Error(`Parameter "${parameter.name}" is declared twice`);
+    names.add(parameter.name);
+  }
+
+  const variables = new Set(Object.values(environments || {}).flatMap(environment => Object.keys(environment.variables || {})));
+  const added: string[] = [];
+  for (const part of [request.endpoint, request.queryParams, request.headers, request.body]) {
+    for (const name of placeholderNames(part)) {
+      if (names.has(name) || variables.has(name)) continue;
+      names.add(name);
+      added.push(name);
+    }
+  }
+  return { parameters: [...declared, ...added.map(name => ({ name, required: true }))], added };
+}
+
+// Find a saved request; without a collection the name must be unique across them
+export function findSavedRequest(config: ApiConfig, name: string, collection?: string): SavedRequestMatch {
+  const collections = config.collections || {};
+  if (collection) {
+    const request = collections[collection]?.requests[name];
+    if (!request) throw new Error(`Saved request "${collection}/${name}" not found for API "${config.name}"`);
+    return { collection, request };
+  }
+
+  const matches = Object.entries(collections)
+    .filter(([, requests]) => requests.requests[name])
+    .map(([found, requests]) => ({ collection: found, request: requests.requests[name]! }));
+  if (matches.length === 0) throw new Error(`Saved request "${name}" not found for API "${config.name}"; see list_requests`);
+  if (matches.length > 1) {
+    throw new Error(`Several collections of API "${config.name}" have a request "${name}" (${matches.map(match => match.collection).join(', ')}); pass collection`);
+  }
+  return matches[0]!;
+}
+
+// Drop the object entries whose whole value is the placeholder of an unset parameter
+function dropUnset(value: unknown, unset: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => dropUnset(item, unset));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, item]) => typeof item !== 'string' || !unset.has(wholePlaceholder(item) ?? ''))
+      .map(([key, item]) => [key, dropUnset(item, unset)]));
+  }
+  return value;
+}
+
+/**
+ * Fill a saved request with the given values, falling back to the defaults.
+ * An optional parameter without a value removes the query parameters, headers
+ * and body fields that consist of its placeholder, and is empty elsewhere.
+ * Values are URL-encoded in the endpoint.
+ */
+export function renderSavedRequest(request: SavedRequest, values: Record<string, unknown>) {
+  const declared = new Set(request.parameters.map(parameter => parameter.name));
+  const unknown = Object.keys(values).filter(name => !declared.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown parameter${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} for "${request.name}" (parameters: ${[...declared].join(', ') || 'none'})`);
+  }
+
+  const filled: Record<string, unknown> = {};
+  const unset = new Set<string>();
+  const missing: string[] = [];
+  for (const parameter of request.parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value !== undefined) filled[parameter.name] = value;
+    else if (parameter.required) missing.push(parameter.name);
+    else unset.add(parameter.name);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing required parameter${missing.length > 1 ? 's' : ''} ${missing.join(', ')} for "${request.name}"`);
+  }
+  for (const name of unset) filled[name] = '';
+
+  // Placeholders that are not parameters stay for the environment's variables
+  const ignored = new Set<string>();
+  const fill = (value: unknown, encode?: (text: string) => string) =>
+    fillPlaceholders(unset.size > 0 ? dropUnset(value, unset) : value, filled, ignored, encode);
+  return {
+    method: request.method,
+    // A value like "a/b" or "x?y" stays one path segment
+    endpoint: fill(request.endpoint, encodeURIComponent) as string,
+    ...(request.queryParams ? { queryParams: fill(request.queryParams) as Record<string, unknown> } : {}),
+    ...(request.headers ? { headers: fill(request.headers) as Record<string, string> } : {}),
+    ...(request.body !== undefined ? { body: fill(request.body) } : {}),
+    ...(request.bodyType ? { bodyType: request.bodyType } : {}),
+    ...(request.contentType ? { contentType: request.contentType } : {})
+  };
+}
+
+function describeParameter(parameter: RequestTemplateParameter): string {
+  return `${parameter.name}${parameter.required ? '' : '?'}${parameter.default !== undefined ? ` = ${JSON.stringify(parameter.default)}` : ''}`;
+}
+
+export function describeSavedRequest(collection: string, request: SavedRequest): string {
+  const parameters = request.parameters.map(describeParameter).join(', ');
+  return `${collection}/${request.name}: ${request.method} ${request.endpoint}${parameters ? ` (${parameters})` : ''}${request.description ? ` - ${request.description}` : ''}`;
+}
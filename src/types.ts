@@ -0,0 +1,309 @@
+// Shared TypeScript interfaces
+export type AuthType =
+  | 'bearer'
+  | 'api-key'
+  | 'basic'
+  | 'oauth2-client-credentials'
+  | 'oauth2-refresh-token'
+  | 'aws-sigv4'
+  | 'hmac'
+  | 'session'
+  | 'none';
+
+export interface ApiCredentials {
+  token?: string;
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  headerName?: string; // for api-key custom
+  // OAuth2
+  tokenUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  scopes?: string[];
+  clientAuthentication?: 'basic' | 'body';
+  // AWS SigV4
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  region?: string;
+  service?: string;
+  // Generic HMAC signing
+  hmacSecret?: string;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+  canonicalTemplate?: string;
+  signatureHeader?: string;
+  signatureEncoding?: 'hex' | 'base64';
+  signatureFormat?: string;
+  timestampHeader?: string;
+  nonceHeader?: string;
+  // Login-flow session (username/password above fill {{username}}/{{password}})
+  loginEndpoint?: string;
+  loginMethod?: 'POST' | 'PUT' | 'GET';
+  loginBody?: Record<string, unknown>;
+  loginContentType?: 'json' | 'form';
+  sessionExtract?: 'cookie' | 'body' | 'header';
+  tokenPath?: string;
+  tokenResponseHeader?: string;
+  tokenHeader?: string;
+  tokenPrefix?: string;
+}
+
+// JSON Schema fragment as found in an OpenAPI document; $refs point into ApiCatalog.schemas
+export type JsonSchema = Record<string, any>;
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiOperation {
+  operationId: string;
+  method: string;
+  path: string; // e.g. /repos/{owner}/{repo}
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters: ApiParameter[];
+  requestBody?: {
+    required: boolean;
+    contentType: string;
+    schema?: JsonSchema;
+  };
+  responses: Record<string, {
+    description?: string;
+    contentType?: string;
+    schema?: JsonSchema;
+  }>;
+}
+
+// Operation catalog imported from an OpenAPI 3.x / Swagger 2.0 document
+export interface ApiCatalog {
+  format: 'openapi' | 'swagger';
+  specVersion: string;
+  title?: string;
+  version?: string;
+  sourceUrl?: string;
+  importedAt: string;
+  operations: ApiOperation[];
+  schemas: Record<string, JsonSchema>;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "HEAD" | "OPTIONS";
+
+export type RetryableError = 'network' | 'timeout';
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first one
+  retryOnStatus: number[];
+  retryOnErrors: RetryableError[];
+  baseDelayMs: number;
+  maxDelayMs: number; // also the longest Retry-After we are willing to wait
+  retryNonIdempotent: boolean; // POST/PATCH are otherwise only retried with an Idempotency-Key
+}
+
+// Client-side throttling, shared by every MCP session
+export interface RateLimitPolicy {
+  requestsPerSecond?: number;
+  requestsPerMinute?: number;
+  maxConcurrent?: number;
+  maxQueue: number; // calls allowed to wait for a slot before failing fast
+  maxWaitMs: number; // longest a queued call waits for its slot
+  adaptive: boolean; // slow down on X-RateLimit-Remaining/X-RateLimit-Reset
+}
+
+// Per-API circuit breaker, tripped by recent failures in the request history
+export interface CircuitBreakerPolicy {
+  enabled: boolean;
+  failureThreshold: number; // failures within windowMs needed to open the circuit
+  failureRate: number; // ...which must also be at least this share of the requests (0-1)
+  windowMs: number;
+  openMs: number; // how long calls are short-circuited before a probe is let through
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Opt-in cache for GET responses; enabled defaults to true once an API has a cache config
+export interface CachePolicy {
+  enabled: boolean;
+  ttlMs: number; // freshness when the response has no Cache-Control max-age or Expires
+  maxEntries: number;
+}
+
+// Full capture of requests and responses in the history, see recording.ts
+export interface RecordingPolicy {
+  enabled: boolean;
+  redactFields: string[]; // body fields masked on top of the defaults (password, token...)
+  maxBodyChars: number; // longer bodies are cut and marked bodyTruncated
+}
+
+export type PaginationStyle = 'link' | 'cursor' | 'offset' | 'page';
+
+// How make_request follows a paginated GET and merges the pages
+export interface PaginationOptions {
+  style: PaginationStyle;
+  itemsPath?: string; // where the items array is in each page; found automatically if unset
+  cursorPath?: string; // cursor style: next cursor (or next page URL) in the body
+  cursorParam: string;
+  offsetParam: string;
+  pageParam: string;
+  limitParam: string; // page size parameter, sent when pageSize is set
+  pageSize?: number;
+  maxPages: number;
+  maxItems: number;
+}
+
+// One argument or input field of a GraphQL schema; types are written as in SDL, e.g. [ID!]!
+export interface GraphqlInputValue {
+  name: string;
+  type: string;
+  description?: string;
+  defaultValue?: string;
+}
+
+export interface GraphqlField {
+  name: string;
+  type: string;
+  description?: string;
+  args?: GraphqlInputValue[];
+  deprecated?: boolean;
+}
+
+export interface GraphqlType {
+  name: string;
+  kind: 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT' | 'SCALAR';
+  description?: string;
+  fields?: GraphqlField[];
+  inputFields?: GraphqlInputValue[];
+  enumValues?: string[];
+  possibleTypes?: string[]; // union members, interface implementations
+}
+
+// GraphQL schema condensed from an introspection query
+export interface GraphqlSchema {
+  queryType?: string;
+  mutationType?: string;
+  subscriptionType?: string;
+  types: Record<string, GraphqlType>;
+  introspectedAt: string;
+}
+
+export interface GraphqlConfig {
+  endpoint: string; // relative to baseUrl, e.g. /graphql
+  schema?: GraphqlSchema;
+}
+
+// When make_request stops reading a streaming response
+export interface StreamOptions {
+  maxEvents: number;
+  maxDurationMs: number;
+}
+
+// Named variant of an API (dev, staging, prod...); what it sets wins over the API's own settings
+export interface ApiEnvironment {
+  baseUrl?: string;
+  headers?: Record<string, string>; // merged over the API's headers
+  credentials?: ApiCredentials; // merged field by field over the API's credentials
+  variables?: Record<string, string>; // filled into {{name}} placeholders by make_request
+  secretVariables?: string[]; // variables exported empty, like secret credentials
+  createdAt: string;
+}
+
+// How make_request encodes a request body, see body.ts
+export type BodyType = 'json' | 'form' | 'multipart' | 'text' | 'raw';
+
+// A {{placeholder}} of a saved request that run_request fills in
+export interface RequestTemplateParameter {
+  name: string;
+  description?: string;
+  required: boolean;
+  default?: unknown;
+}
+
+// Named, parameterized request kept with an API, see run_request
+export interface SavedRequest {
+  name: string;
+  description?: string;
+  method: HttpMethod;
+  endpoint: string;
+  queryParams?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodyType?: BodyType;
+  contentType?: string;
+  parameters: RequestTemplateParameter[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface RequestCollection {
+  description?: string;
+  requests: Record<string, SavedRequest>;
+}
+
+export interface ApiConfig {
+  name: string;
+  baseUrl: string;
+  description?: string;
+  auth?: {
+    type: AuthType;
+    credentials?: ApiCredentials;
+  };
+  headers?: Record<string, string>;
+  cookieJar?: boolean; // always on for session auth
+  timeout?: number;
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: Partial<RateLimitPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+  cache?: Partial<CachePolicy>;
+  paginate?: Partial<PaginationOptions>; // default for GET requests to this API
+  recording?: Partial<RecordingPolicy>;
+  catalog?: ApiCatalog;
+  graphql?: GraphqlConfig; // set for GraphQL APIs, see graphql_query
+  operationTools?: boolean; // register one MCP tool per catalog operation
+  environments?: Record<string, ApiEnvironment>;
+  activeEnvironment?: string; // requests use this environment when set
+  collections?: Record<string, RequestCollection>; // saved requests, grouped
+  createdAt: string;
+  lastUsed?: string;
+}
+
+// A body as kept in the history: parsed and redacted when JSON or a form, else text
+export interface RecordedBody {
+  body?: unknown;
+  bodyType?: BodyType; // how replay_request sends it again
+  bodySize?: number; // bytes on the wire; binary bodies only keep this
+  bodyTruncated?: boolean; // body is the first maxBodyChars of the serialized body
+}
+
+export interface RecordedRequest extends RecordedBody {
+  url: string; // with the query string
+  headers: Record<string, string>; // as sent, credentials masked
+  contentType?: string;
+}
+
+export interface RecordedResponse extends RecordedBody {
+  headers: Record<string, string>;
+}
+
+export interface RequestHistory {
+  id: string;
+  timestamp: string;
+  apiName: string;
+  method: string;
+  endpoint: string;
+  status: number;
+  responseTime: number;
+  success: boolean;
+  attempt?: number; // set on retried requests
+  error?: string; // network error or timeout, when there is no status
+  environment?: string; // the API's active environment at the time
+  servedFromCache?: boolean; // a 304 to a revalidation, answered with the cached response
+  request?: RecordedRequest; // set when the API has recording on
+  response?: RecordedResponse;
+}
@@ -0,0 +1,263 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import type { ApiCatalog, ApiOperation, ApiParameter, JsonSchema } from "./types.js";
+
+// Validation of make_request calls (and optionally responses) against an imported operation catalog
+
+export type ValidationLocation = 'path' | 'query' | 'header' | 'body' | 'response';
+
+export interface ValidationIssue {
+  location: ValidationLocation;
+  // Parameter name, or JSON pointer into the body/response
+  field?: string;
+  message: string;
+}
+
+export interface OperationMatch {
+  operation: ApiOperation;
+  pathParams: Record<string, string>;
+  // Query parameters written into the endpoint itself (/search?q=x)
+  inlineQuery: Record<string, string>;
+}
+
+export interface RequestInput {
+  queryParams?: Record<string, any> | undefined;
+  headers?: Record<string, string> | undefined;
+  body?: unknown;
+}
+
+type ParameterLocation = ApiParameter['in'];
+
+function createAjv(coerceTypes: boolean): Ajv {
+  // OpenAPI keywords (example, discriminator, xml...) are not JSON Schema, so no strict mode
+  const ajv = new Ajv({ strict: false, allErrors: true, logger: false, coerceTypes: coerceTypes ? 'array' : false });
+  addFormats(ajv);
+  return ajv;
+}
+
+// Parameters arrive as strings in the URL, so they are coerced; bodies must already have the right types
+const parameterAjv = createAjv(true);
+const bodyAjv = createAjv(false);
+
+// Draft-04 style boolean exclusiveMinimum/exclusiveMaximum (OpenAPI 3.0, Swagger 2) to draft-07 numbers
+function toDraft7(schema: any): any {
+  if (!schema || typeof schema !== 'object') return schema;
+  if (Array.isArray(schema)) return schema.map(toDraft7);
+
+  const copy: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    copy[key] = value && typeof value === 'object' ? toDraft7(value) : value;
+  }
+  for (const [flag, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']] as const) {
+    if (typeof copy[flag] !== 'boolean') continue;
+    if (copy[flag] && typeof copy[bound] === 'number') {
+      copy[flag] = copy[bound];
+      delete copy[bound];
+    } else {
+      delete copy[flag];
+    }
+  }
+  return copy;
+}
+
+const catalogSchemas = new WeakMap<ApiCatalog, Record<string, JsonSchema>>();
+const validators = new WeakMap<object, ValidateFunction | null>();
+
+// Compile once per schema object; the catalog's named schemas ride along so $refs resolve
+function compile(ajv: Ajv, catalog: ApiCatalog, schema: JsonSchema): ValidateFunction | undefined {
+  const cached = validators.get(schema);
+  if (cached !== undefined) return cached || undefined;
+
+  let schemas = catalogSchemas.get(catalog);
+  if (!schemas) {
+    schemas = toDraft7(catalog.schemas) as Record<string, JsonSchema>;
+    catalogSchemas.set(catalog, schemas);
+  }
+
+  let validate: ValidateFunction | null;
+  try {
+    validate = ajv.compile({ allOf: [toDraft7(schema)], components: { schemas } });
+  } catch {
+    // A schema Ajv can't handle must not block the request; it just goes unvalidated
+    validate = null;
+  }
+  validators.set(schema, validate);
+  return validate || undefined;
+}
+
+function templateToRegExp(path: string): { pattern: RegExp, names: string[], literalLength: number } {
+  const names: string[] = [];
+  let literalLength = 0;
+  const source = path.split(/(\{[^}]+\})/).map((part) => {
+    const name = part.match(/^\{([^}]+)\}$/)?.[1];
+    if (name) {
+      names.push(name);
+      return '([^/]+)';
+    }
+    literalLength += part.length;
+    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return { pattern: new RegExp(`^${source}$`), names, literalLength };
+}
+
+function normalizePath(path: string): string {
+  const withSlash = path.startsWith('/') ? path : `/${path}`;
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Find the operation an endpoint+method refers to. When several templates
+ * match (/users/me vs /users/{id}) the one with the most literal text wins.
+ */
+export function matchOperation(catalog: ApiCatalog, method: string, endpoint: string): OperationMatch | undefined {
+  const [rawPath = '/', rawQuery = ''] = endpoint.split('#')[0]!.split('?');
+  const path = normalizePath(rawPath);
+  const inlineQuery = Object.fromEntries(new URLSearchParams(rawQuery));
+  let best: OperationMatch | undefined;
+  let bestScore = -1;
+
+  for (const operation of catalog.operations) {
+    if (operation.method !== method.toUpperCase()) continue;
+    const { pattern, names, literalLength } = templateToRegExp(normalizePath(operation.path));
+    const match = path.match(pattern);
+    if (!match || literalLength <= bestScore) continue;
+
+    const pathParams: Record<string, string> = {};
+    names.forEach((name, index) => {
+      pathParams[name] = safeDecode(match[index + 1]!);
+    });
+    best = { operation, pathParams, inlineQuery };
+    bestScore = literalLength;
+  }
+  return best;
+}
+
+const parameterGroups = new WeakMap<ApiOperation, Partial<Record<ParameterLocation, JsonSchema | null>>>();
+
+// One object schema per parameter location, so a single validation reports every bad parameter
+function parameterGroup(operation: ApiOperation, location: ParameterLocation): JsonSchema | undefined {
+  let groups = parameterGroups.get(operation);
+  if (!groups) {
+    groups = {};
+    parameterGroups.set(operation, groups);
+  }
+  if (!(location in groups)) {
+    const parameters = operation.parameters.filter(parameter => parameter.in === location);
+    // Header names are case-insensitive
+    const key = (name: string) => location === 'header' ? name.toLowerCase() : name;
+    const properties: Record<string, JsonSchema> = {};
+    for (const parameter of parameters) {
+      properties[key(parameter.name)] = parameter.schema || {};
+    }
+    const required = parameters.filter(parameter => parameter.required).map(parameter => key(parameter.name));
+    groups[location] = parameters.length === 0 ? null : {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+  return groups[location] || undefined;
+}
+
+function toIssues(location: ValidationLocation, errors: ErrorObject[] | null | undefined): ValidationIssue[] {
+  return (errors || [])
+    // allOf wrapper errors only repeat the nested ones
+    .filter(error => error.keyword !== 'allOf')
+    .map((error) => {
+      const isParameter = location !== 'body' && location !== 'response';
+      const pointer = error.keyword === 'required'
+        ? `${error.instancePath}/${error.params.missingProperty}`
+        : error.instancePath;
+      let message = error.message || 'is invalid';
+      if (error.keyword === 'required') {
+        message = isParameter ? `missing required ${location} parameter` : 'is required';
+      } else if (error.keyword === 'enum') {
+        message = `must be one of: ${(error.params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+      } else if (error.keyword === 'additionalProperties') {
+        message = `unexpected property "${error.params.additionalProperty}"`;
+      }
+      const field = isParameter ? pointer.split('/')[1] : pointer || '/';
+      return { location, ...(field ? { field } : {}), message };
+    });
+}
+
+function validateParameters(
+  catalog: ApiCatalog,
+  operation: ApiOperation,
+  location: 'path' | 'query' | 'header',
+  values: Record<string, any>
+): ValidationIssue[] {
+  const schema = parameterGroup(operation, location);
+  if (!schema) return [];
+  const validate = compile(parameterAjv, catalog, schema);
+  // Coercion rewrites the data, so validate a copy
+  if (!validate || validate(structuredClone(values))) return [];
+  return toIssues(location, validate.errors);
+}
+
+function isJsonContentType(contentType: string | undefined): boolean {
+  return !!contentType && /[/+]json\b/i.test(contentType);
+}
+
+export function validateRequest(catalog: ApiCatalog, match: OperationMatch, input: RequestInput): ValidationIssue[] {
+  const { operation, pathParams } = match;
+  const issues: ValidationIssue[] = [];
+
+  issues.push(...validateParameters(catalog, operation, 'path', pathParams));
+
+  const query: Record<string, any> = { ...match.inlineQuery, ...input.queryParams };
+  issues.push(...validateParameters(catalog, operation, 'query', query));
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  issues.push(...validateParameters(catalog, operation, 'header', headers));
+
+  const requestBody = operation.requestBody;
+  if (input.body === undefined) {
+    if (requestBody?.required) {
+      issues.push({ location: 'body', message: `request body (${requestBody.contentType}) is required` });
+    }
+  } else if (!requestBody) {
+    issues.push({ location: 'body', message: `${operation.method} ${operation.path} does not take a request body` });
+  } else if (requestBody.schema && isJsonContentType(requestBody.contentType)) {
+    const validate = compile(bodyAjv, catalog, requestBody.schema);
+    if (validate && !validate(input.body)) {
+      issues.push(...toIssues('body', validate.errors));
+    }
+  }
+
+  return issues;
+}
+
+// Check a response against the schema declared for its status code (or the 2XX range / default)
+export function validateResponse(
+  catalog: ApiCatalog,
+  operation: ApiOperation,
+  status: number,
+  contentType: string | null,
+  body: unknown
+): ValidationIssue[] {
+  const declared = operation.responses[String(status)]
+    || operation.responses[`${String(status).charAt(0)}XX`]
+    || operation.responses.default;
+  if (!declared) {
+    return Object.keys(operation.responses).length > 0
+      ? [{ location: 'response', message: `status ${status} is not documented for ${operation.operationId}` }]
+      : [];
+  }
+  if (!declared.schema || !isJsonContentType(contentType || undefined)) return [];
+
+  const validate = compile(bodyAjv, catalog, declared.schema);
+  if (!validate || validate(body)) return [];
+  return toIssues('response', validate.errors);
+}
@@ -0,0 +1,127 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+
+// Credential fields that hold secrets; everything else (username, headerName, tokenUrl...) stays readable
+export const SECRET_CREDENTIAL_FIELDS = [
+  'token',
+  'apiKey',
+  'password',
+  'clientSecret',
+  'refreshToken',
+  'secretAccessKey',
+  'sessionToken',
+  'hmacSecret'
+] as const;
+export type SecretCredentialField = typeof SECRET_CREDENTIAL_FIELDS[number];
+
+export function isSecretCredentialField(field: string): field is SecretCredentialField {
+  return (SECRET_CREDENTIAL_FIELDS as readonly string[]).includes(field);
+}
+
+// enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>, all base64url
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_DERIVATION_SALT = 'mcp-server-api-manager/vault';
+
+interface VaultKey {
+  id: string;
+  key: Buffer;
+}
+
+// Accepts a 32-byte key as hex or base64; anything else is treated as a passphrase
+function deriveKey(material: string): Buffer {
+  const trimmed = material.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return Buffer.from(trimmed, 'hex');
+  }
+  const decoded = Buffer.from(trimmed, 'base64');
+  if (decoded.length === 32 && /^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) {
+    return decoded;
+  }
+  return scryptSync(trimmed, KEY_DERIVATION_SALT, 32);
+}
+
+function toVaultKey(material: string): VaultKey {
+  const key = deriveKey(material);
+  // Short fingerprint so ciphertexts name the key that sealed them
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export class CredentialVault {
+  private readonly current: VaultKey | undefined;
+  private readonly keys = new Map<string, VaultKey>();
+
+  constructor(currentKey?: string, previousKeys: string[] = []) {
+    if (currentKey) {
+      this.current = toVaultKey(currentKey);
+      this.keys.set(this.current.id, this.current);
+    }
+    for (const material of previousKeys) {
+      const key = toVaultKey(material);
+      if (!this.keys.has(key.id)) this.keys.set(key.id, key);
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.current;
+  }
+
+  get currentKeyId(): string | undefined {
+    return this.current?.id;
+  }
+
+  // Encrypt with the current master key (no-op when no key is configured)
+  seal(plaintext: string): string {
+    if (!this.current || isEncryptedSecret(plaintext)) return plaintext;
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.current.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${ENCRYPTED_PREFIX}${this.current.id}:${iv.toString('base64url')}:${tag.toString('base64url')}:${ciphertext.toString('base64url')}`;
+  }
+
+  // Decrypt a sealed value; plaintext values are passed through untouched
+  open(value: string): string {
+    if (!isEncryptedSecret(value)) return value;
+
+    const [keyId, iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    if (!keyId || !iv || !tag || ciphertext === undefined) {
+      throw new Error("Malformed encrypted credential");
+    }
+    const vaultKey = this.keys.get(keyId);
+    if (!vaultKey) {
+      throw new Error(`Credential was encrypted with master key ${keyId}, which is not configured. Set MASTER_KEY (or MASTER_KEY_PREVIOUS) to that key.`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', vaultKey.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  // True when a value is plaintext or sealed with a key other than the current one
+  needsReseal(value: string): boolean {
+    if (!this.current) return false;
+    if (!isEncryptedSecret(value)) return true;
+    return !value.startsWith(`${ENCRYPTED_PREFIX}${this.current.id}:`);
+  }
+
+  reseal(value: string): string {
+    return this.seal(this.open(value));
+  }
+}
+
+// Build the vault from MASTER_KEY / MASTER_KEY_PREVIOUS (comma separated)
+export function createVault(env: NodeJS.ProcessEnv = process.env): CredentialVault {
+  const previous = (env.MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+  return new CredentialVault(env.MASTER_KEY || undefined, previous);
+}